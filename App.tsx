@@ -1,17 +1,76 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Header } from './components/Header';
 import { MarketDashboard } from './components/MarketDashboard';
 import { ReportView } from './components/ReportView';
 import { SchedulerModal } from './components/SchedulerModal';
+import { AlertsModal } from './components/AlertsModal';
 import { ApiKeyModal } from './components/ApiKeyModal';
-import { Report, ScheduleConfig } from './types';
-import { generateMarketReport } from './services/geminiService';
+import { ErrorPanel } from './components/ErrorPanel';
+import { SettingsModal } from './components/SettingsModal';
+import { HistorySidebar } from './components/HistorySidebar';
+import { ComparisonView } from './components/ComparisonView';
+import { ChatMessage, MarketDataSourceId, ModelSettings, Report, ReportComparison, ReportHistoryEntry, ReportProgress, ScheduleConfig, ScheduleRun, ScheduleSlot, SessionMode, StockAnalysis, StockItem, StockUniverseId, ThemeDefinition, WatchlistItem, PortfolioHolding, AlertRule, AlertEvent, InstrumentId } from './types';
+import { GenerateReportOptions, generateComparisonNarrative, generateMarketReport, repairReport } from './services/geminiService';
+import { getRepairableFields } from './services/reportValidator';
+import { GeminiError, classifyError, getRetryAt } from './services/geminiErrors';
+import { DEFAULT_MODEL_SETTINGS, getModelChain } from './services/modelService';
+import { compareReports } from './services/reportComparison';
+import { importReportJson } from './services/exportService';
+import { DEFAULT_SESSION_MODE } from './services/sessionModes';
+import { DEFAULT_UNIVERSE, getUniverse } from './services/universeService';
+import { loadThemes, saveThemes } from './services/themeService';
+import { loadInstruments, saveInstruments } from './services/instrumentService';
+import { addToWatchlist, loadWatchlist, removeFromWatchlist, saveWatchlist } from './services/watchlistService';
+import { collectReportQuotes, loadPortfolio, savePortfolio } from './services/portfolioService';
+import { appendAlertHistory, clearAlertHistory, evaluateAlerts, getAlertTickers, loadAlertHistory, loadAlertRules, notifyAlerts, saveAlertRules } from './services/alertService';
+import { analyzeStock } from './services/stockAnalysisService';
+import { createMessageId, sendChatMessage } from './services/reportChatService';
+import {
+  SCHEDULER_TICK_MS, clearRunLog, closeInterruptedRuns, describeSchedule, getDueRun, markSlotHandled, normalizeSchedule, notifyReport, notifyRunFailed, resetSchedule, saveRun
+} from './services/schedulerService';
+import {
+  DEFAULT_RETENTION_LIMIT, deleteReport, enforceRetention, getLatestReport, getReport, listReports, saveReport, setReportPinned
+} from './services/reportHistoryService';
 
 const App: React.FC = () => {
   const [apiKey, setApiKey] = useState<string>('');
   const [report, setReport] = useState<Report | null>(null);
+  const [progress, setProgress] = useState<ReportProgress | null>(null);
   const [loading, setLoading] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [error, setError] = useState<{ error: GeminiError; retryAt?: number } | null>(null);
+  const [apiKeyNotice, setApiKeyNotice] = useState<string | undefined>();
   const [isSchedulerOpen, setIsSchedulerOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [history, setHistory] = useState<ReportHistoryEntry[]>([]);
+  const [comparison, setComparison] = useState<ReportComparison | null>(null);
+  const [retentionLimit, setRetentionLimit] = useState<number>(() => {
+    const saved = localStorage.getItem('marketMorning_historyLimit');
+    return saved !== null ? Number(saved) : DEFAULT_RETENTION_LIMIT;
+  });
+  const [modelSettings, setModelSettings] = useState<ModelSettings>(() => {
+    const saved = localStorage.getItem('marketMorning_modelSettings');
+    return saved ? JSON.parse(saved) : DEFAULT_MODEL_SETTINGS;
+  });
+  const [repairing, setRepairing] = useState(false);
+  const [autoRepair, setAutoRepair] = useState<boolean>(() => localStorage.getItem('marketMorning_autoRepair') === 'true');
+  const [dataSource, setDataSource] = useState<MarketDataSourceId>(() => {
+    return (localStorage.getItem('marketMorning_dataSource') as MarketDataSourceId) || 'search';
+  });
+  const [universeId, setUniverseId] = useState<StockUniverseId>(() => {
+    return (localStorage.getItem('marketMorning_universe') as StockUniverseId) || DEFAULT_UNIVERSE;
+  });
+  const [sessionMode, setSessionMode] = useState<SessionMode>(() => {
+    return (localStorage.getItem('marketMorning_sessionMode') as SessionMode) || DEFAULT_SESSION_MODE;
+  });
+  const [themes, setThemes] = useState<ThemeDefinition[]>(loadThemes);
+  const [instruments, setInstruments] = useState<InstrumentId[]>(loadInstruments);
+  const [watchlist, setWatchlist] = useState<WatchlistItem[]>(loadWatchlist);
+  const [holdings, setHoldings] = useState<PortfolioHolding[]>(loadPortfolio);
+  const [isAlertsOpen, setIsAlertsOpen] = useState(false);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(loadAlertRules);
+  const [alertHistory, setAlertHistory] = useState<AlertEvent[]>(loadAlertHistory);
   
   // Initialize schedule config from localStorage or default
   const [scheduleConfig, setScheduleConfig] = useState<ScheduleConfig>(() => {
@@ -22,6 +81,7 @@ const App: React.FC = () => {
       days: ["Mon", "Tue", "Wed", "Thu", "Fri"]
     };
   });
+  const [runLog, setRunLog] = useState<ScheduleRun[]>(() => closeInterruptedRuns());
 
   // Check for stored API key on mount
   useEffect(() => {
@@ -31,15 +91,137 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // Restore the most recent report and the history list from IndexedDB
+  useEffect(() => {
+    getLatestReport()
+      .then(latest => {
+        if (latest) setReport(current => current || latest);
+      })
+      .catch(error => console.error("Failed to restore report:", error));
+    refreshHistory();
+  }, []);
+
+  const refreshHistory = () => {
+    listReports()
+      .then(setHistory)
+      .catch(error => console.error("Failed to load report history:", error));
+  };
+
+  // Every finished or updated report goes into the local history
+  const persistReport = async (next: Report) => {
+    setReport(next);
+    try {
+      await saveReport(next, retentionLimit);
+    } catch (error) {
+      console.error("Failed to save report:", error);
+    }
+    refreshHistory();
+  };
+
+  const handleSelectHistory = (entry: ReportHistoryEntry) => {
+    setReport(entry.report);
+    setProgress(null);
+    setError(null);
+    setIsHistoryOpen(false);
+  };
+
+  const handleTogglePin = async (entry: ReportHistoryEntry) => {
+    await setReportPinned(entry.id, !entry.pinned);
+    refreshHistory();
+  };
+
+  const handleDeleteHistory = async (entry: ReportHistoryEntry) => {
+    await deleteReport(entry.id);
+    if (report?.id === entry.id) setReport(null);
+    refreshHistory();
+  };
+
+  const handleCompareReports = (a: ReportHistoryEntry, b: ReportHistoryEntry) => {
+    setComparison(compareReports(a.report, b.report, history.map(entry => entry.report)));
+    setIsHistoryOpen(false);
+  };
+
+  // Round-trips a file written by the JSON export back into history
+  const handleImportReport = async (file: File) => {
+    try {
+      const imported = importReportJson(await file.text());
+      setProgress(null);
+      setError(null);
+      await persistReport(imported);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  // Applies a change to the stored copy of a report; async additions (analyses, chat answers) land on
+  // the report they were requested for, even if another one is open by now
+  const updateStoredReport = async (reportId: string, update: (stored: Report) => Report) => {
+    const stored = (await getReport(reportId))?.report;
+    if (!stored) return;
+    const updated = update(stored);
+    await saveReport(updated, retentionLimit);
+    setReport(current => (current?.id === updated.id ? updated : current));
+    refreshHistory();
+  };
+
+  const handleAnalyzeStock = async (stock: StockItem, force: boolean): Promise<StockAnalysis> => {
+    const reportId = report?.id;
+    const analysis = await analyzeStock(apiKey, stock, { models: getModelChain(modelSettings), force });
+    if (reportId) {
+      await updateStoredReport(reportId, stored => ({ ...stored, stockAnalyses: { ...stored.stockAnalyses, [analysis.ticker]: analysis } }));
+    }
+    return analysis;
+  };
+
+  // The question is only saved together with its answer, so a failed turn leaves no dangling message
+  const handleAskReport = async (question: string, useSearch: boolean) => {
+    if (!report) return;
+    const asked: ChatMessage = { id: createMessageId(), role: 'user', text: question, createdAt: new Date().toISOString() };
+    const answer = await sendChatMessage(apiKey, report, report.chat || [], question, {
+      useSearch, models: getModelChain(modelSettings)
+    });
+    await updateStoredReport(report.id, stored => ({ ...stored, chat: [...(stored.chat || []), asked, answer] }));
+  };
+
+  const handleUpdateReport = async (update: (stored: Report) => Report) => {
+    if (report) await updateStoredReport(report.id, update);
+  };
+
+  const handleChangeRetentionLimit = async (limit: number) => {
+    setRetentionLimit(limit);
+    localStorage.setItem('marketMorning_historyLimit', String(limit));
+    await enforceRetention(limit);
+    refreshHistory();
+  };
+
   const handleSaveApiKey = (key: string) => {
     setApiKey(key);
+    setApiKeyNotice(undefined);
+    if (error?.error.kind === 'invalidKey') setError(null);
     localStorage.setItem('gemini_api_key', key);
   };
 
+  // Clearing the key reopens ApiKeyModal
+  const handleReenterApiKey = (notice?: string) => {
+    setApiKey('');
+    setApiKeyNotice(notice);
+    localStorage.removeItem('gemini_api_key');
+  };
+
+  const handleError = (rawError: unknown) => {
+    const geminiError = classifyError(rawError);
+    console.error(geminiError);
+    setError({ error: geminiError, retryAt: getRetryAt(geminiError) });
+    if (geminiError.kind === 'invalidKey') {
+      handleReenterApiKey("저장된 API Key가 거부되었습니다. 올바른 키를 다시 입력해주세요.");
+    }
+  };
+
   // Save schedule changes
   const handleSaveSchedule = (config: ScheduleConfig) => {
     setScheduleConfig(config);
     localStorage.setItem('marketMorning_schedule', JSON.stringify(config));
+    if (config.isEnabled) resetSchedule(config);
     
     // Simulate setting a notification
     if (config.isEnabled) {
@@ -48,49 +230,223 @@ const App: React.FC = () => {
            if (permission === 'granted') {
              // Just a confirmation for the demo
              new Notification("스케줄링 완료", {
-               body: `매일 ${config.time}에 미국 증시 보고서를 받아보게 됩니다.`
+               body: `${describeSchedule(config)}에 미국 증시 보고서를 받아보게 됩니다.`
              });
            }
          });
       } else {
-        alert(`${config.time}에 알림이 설정되었습니다.`);
+        alert(`${describeSchedule(config)}에 알림이 설정되었습니다.`);
       }
     }
   };
 
-  const handleGenerateReport = async () => {
-    if (!apiKey) return;
-    
+  const handleChangeDataSource = (source: MarketDataSourceId) => {
+    setDataSource(source);
+    localStorage.setItem('marketMorning_dataSource', source);
+  };
+
+  const handleChangeUniverse = (id: StockUniverseId) => {
+    setUniverseId(id);
+    localStorage.setItem('marketMorning_universe', id);
+  };
+
+  const handleSaveThemes = (updated: ThemeDefinition[]) => {
+    setThemes(updated);
+    saveThemes(updated);
+  };
+
+  const handleSaveInstruments = (updated: InstrumentId[]) => {
+    setInstruments(updated);
+    saveInstruments(updated);
+  };
+
+  const handleSaveWatchlist = (updated: WatchlistItem[]) => {
+    setWatchlist(updated);
+    saveWatchlist(updated);
+  };
+
+  const handleSaveHoldings = (updated: PortfolioHolding[]) => {
+    setHoldings(updated);
+    savePortfolio(updated);
+  };
+
+  const handleSaveAlertRules = (updated: AlertRule[]) => {
+    setAlertRules(updated);
+    saveAlertRules(updated);
+  };
+
+  const handleClearAlertHistory = () => {
+    clearAlertHistory();
+    setAlertHistory([]);
+  };
+
+  // Rules are read from storage, not state, because scheduled runs call this from an older render
+  const runAlerts = (next: Report) => {
+    const { rules, events } = evaluateAlerts(loadAlertRules(), next);
+    handleSaveAlertRules(rules);
+    if (events.length === 0) return;
+    setAlertHistory(appendAlertHistory(events));
+    notifyAlerts(events);
+  };
+
+  const handleChangeSessionMode = (mode: SessionMode) => {
+    setSessionMode(mode);
+    localStorage.setItem('marketMorning_sessionMode', mode);
+  };
+
+  const handleSaveModelSettings = (settings: ModelSettings) => {
+    setModelSettings(settings);
+    localStorage.setItem('marketMorning_modelSettings', JSON.stringify(settings));
+  };
+
+  const handleChangeAutoRepair = (enabled: boolean) => {
+    setAutoRepair(enabled);
+    localStorage.setItem('marketMorning_autoRepair', String(enabled));
+  };
+
+  const handleRepairReport = async () => {
+    if (!apiKey || !report) return;
+
+    setRepairing(true);
+    setError(null);
+    try {
+      const repaired = await repairReport(apiKey, report, getRepairableFields(report.issues || []), getModelChain(modelSettings));
+      await persistReport(repaired);
+    } catch (error) {
+      handleError(error);
+    } finally {
+      setRepairing(false);
+    }
+  };
+
+  // Shared by the manual button and the scheduler. Resolves to null when cancelled; other errors are thrown.
+  // Scheduled runs override the session mode and may ask for a weekend recap
+  const generateReport = async (
+    overrides: Pick<GenerateReportOptions, 'sessionMode' | 'weekendRecap'> = {}
+  ): Promise<Report | null> => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setProgress(null);
+    setError(null);
     setLoading(true);
     try {
-      const data = await generateMarketReport(apiKey);
-      setReport(data);
+      const data = await generateMarketReport(apiKey, {
+        dataSource,
+        autoRepair,
+        sessionMode,
+        universe: getUniverse(universeId),
+        themes,
+        instruments,
+        watchlist,
+        portfolio: holdings,
+        // From storage, like runAlerts, so scheduled runs quote the current rules
+        alertTickers: getAlertTickers(loadAlertRules()),
+        // Read from history so scheduled runs see the latest report, not the one from when they were set up
+        previousCalendar: (await getLatestReport())?.calendar,
+        ...overrides,
+        models: getModelChain(modelSettings),
+        signal: controller.signal,
+        onProgress: setProgress
+      });
+      setProgress(null);
+      await persistReport(data);
+      runAlerts(data);
+      return data;
     } catch (error) {
-      console.error(error);
-      alert("보고서 생성 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.");
+      if (controller.signal.aborted) {
+        // Cancelled by the user: fall back to the previous report
+        setProgress(null);
+        return null;
+      }
+      throw error;
     } finally {
+      abortControllerRef.current = null;
       setLoading(false);
     }
   };
 
-  // Mock checking if it's 9 AM (for demo purposes, check on mount)
-  useEffect(() => {
-    if (scheduleConfig.isEnabled) {
-      const now = new Date();
-      const [hours, minutes] = scheduleConfig.time.split(':').map(Number);
-      
-      // If it's roughly the scheduled time, trigger a toast or auto-fetch
-      if (now.getHours() === hours && Math.abs(now.getMinutes() - minutes) < 5) {
-        // Logic to auto-fetch could go here
-        console.log("Scheduled time reached");
-      }
+  const handleGenerateReport = async () => {
+    if (!apiKey) return;
+    try {
+      await generateReport();
+    } catch (error) {
+      handleError(error);
     }
-  }, [scheduleConfig]);
+  };
+
+  const handleCancelGenerate = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Runs one schedule slot and records the outcome in the run log
+  const runScheduledReport = async (slot: ScheduleSlot, catchUp: boolean) => {
+    markSlotHandled(slot.at);
+    const weekendRecap = !slot.tradingDay && scheduleConfig.nonTradingDays === 'weekendRecap';
+    let run: ScheduleRun = {
+      id: `${slot.at.getTime()}`,
+      scheduledFor: slot.at.toISOString(),
+      startedAt: new Date().toISOString(),
+      catchUp,
+      status: 'running',
+      weekendRecap,
+    };
+
+    if (!slot.tradingDay && !weekendRecap) {
+      setRunLog(saveRun({ ...run, status: 'skipped', finishedAt: run.startedAt, message: `NYSE 휴장일이라 건너뛰었습니다 (${slot.note}).` }));
+      return;
+    }
+    setRunLog(saveRun(run));
+
+    if (abortControllerRef.current) {
+      run = { ...run, status: 'skipped', finishedAt: new Date().toISOString(), message: "다른 보고서를 생성하는 중이었습니다." };
+      setRunLog(saveRun(run));
+      return;
+    }
+
+    try {
+      const data = await generateReport({ weekendRecap, sessionMode: normalizeSchedule(scheduleConfig).sessionMode });
+      run = data
+        ? { ...run, status: 'success', reportId: data.id, headline: data.reportTitle }
+        : { ...run, status: 'skipped', message: "사용자가 생성을 취소했습니다." };
+      if (data) notifyReport(data, catchUp);
+    } catch (error) {
+      handleError(error);
+      const message = classifyError(error).message;
+      run = { ...run, status: 'error', message };
+      notifyRunFailed(message);
+    }
+    setRunLog(saveRun({ ...run, finishedAt: new Date().toISOString() }));
+  };
+
+  // The interval outlives renders, so it calls through a ref to see current state
+  const runScheduledReportRef = useRef(runScheduledReport);
+  runScheduledReportRef.current = runScheduledReport;
+
+  // Checks for due slots on load (catching up a missed run) and then periodically
+  useEffect(() => {
+    if (!scheduleConfig.isEnabled || !apiKey) return;
+    const check = () => {
+      const due = getDueRun(scheduleConfig);
+      if (due) runScheduledReportRef.current(due.slot, due.catchUp);
+    };
+    check();
+    const timer = setInterval(check, SCHEDULER_TICK_MS);
+    return () => clearInterval(timer);
+  }, [scheduleConfig, apiKey]);
+
+  const handleClearRunLog = () => {
+    clearRunLog();
+    setRunLog([]);
+  };
 
   return (
     <div className="min-h-screen bg-slate-50 pb-20">
       <Header 
         onOpenScheduler={() => setIsSchedulerOpen(true)} 
+        onOpenSettings={() => setIsSettingsOpen(true)}
+        onOpenHistory={() => setIsHistoryOpen(true)}
+        onOpenAlerts={() => setIsAlertsOpen(true)}
+        activeAlerts={alertRules.filter(rule => rule.enabled).length}
         isScheduled={scheduleConfig.isEnabled}
       />
       
@@ -100,27 +456,106 @@ const App: React.FC = () => {
            <p className="text-slate-500 mt-2">미국 시장 및 글로벌 경제 실시간 요약</p>
         </div>
 
-        <MarketDashboard indices={report?.marketIndices} />
+        <MarketDashboard
+          indices={progress?.report.marketIndices || report?.marketIndices}
+          instruments={instruments}
+          history={history}
+          quotes={collectReportQuotes(progress?.report || report || {})}
+          holdings={holdings}
+          onSaveHoldings={handleSaveHoldings}
+        />
         
         <div id="report-section" className="mt-8">
+          {error && (
+            <ErrorPanel
+              error={error.error}
+              retryAt={error.retryAt}
+              onRetry={handleGenerateReport}
+              onDismiss={() => setError(null)}
+              onReenterKey={() => handleReenterApiKey()}
+            />
+          )}
           <ReportView 
             report={report} 
+            progress={progress}
             loading={loading} 
             onGenerate={handleGenerateReport} 
+            onCancel={handleCancelGenerate}
+            primaryModel={modelSettings.primaryModel}
+            dataSource={dataSource}
+            onChangeDataSource={handleChangeDataSource}
+            sessionMode={sessionMode}
+            onChangeSessionMode={handleChangeSessionMode}
+            onRepair={handleRepairReport}
+            repairing={repairing}
+            autoRepair={autoRepair}
+            onChangeAutoRepair={handleChangeAutoRepair}
+            onImport={handleImportReport}
+            onAnalyzeStock={handleAnalyzeStock}
+            onAskReport={handleAskReport}
+            onUpdateReport={handleUpdateReport}
+            watchlist={watchlist}
+            onWatch={(stocks) => handleSaveWatchlist(addToWatchlist(watchlist, stocks))}
+            onUnwatch={(ticker) => handleSaveWatchlist(removeFromWatchlist(watchlist, ticker))}
           />
         </div>
       </main>
 
+      <AlertsModal
+        isOpen={isAlertsOpen}
+        onClose={() => setIsAlertsOpen(false)}
+        rules={alertRules}
+        onSaveRules={handleSaveAlertRules}
+        history={alertHistory}
+        onClearHistory={handleClearAlertHistory}
+      />
+
       <SchedulerModal 
         isOpen={isSchedulerOpen}
         onClose={() => setIsSchedulerOpen(false)}
         onSave={handleSaveSchedule}
         currentConfig={scheduleConfig}
+        runLog={runLog}
+        onClearLog={handleClearRunLog}
       />
       
+      <HistorySidebar
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        entries={history}
+        activeReportId={report?.id}
+        onSelect={handleSelectHistory}
+        onTogglePin={handleTogglePin}
+        onDelete={handleDeleteHistory}
+        retentionLimit={retentionLimit}
+        onChangeRetentionLimit={handleChangeRetentionLimit}
+        onCompare={handleCompareReports}
+      />
+
+      <ComparisonView
+        key={comparison ? `${comparison.base.id}-${comparison.target.id}` : 'none'}
+        comparison={comparison}
+        onClose={() => setComparison(null)}
+        onGenerateNarrative={() => generateComparisonNarrative(apiKey, comparison!, getModelChain(modelSettings))}
+      />
+
+      <SettingsModal
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        onSave={handleSaveModelSettings}
+        currentSettings={modelSettings}
+        currentUniverse={universeId}
+        onSaveUniverse={handleChangeUniverse}
+        currentThemes={themes}
+        onSaveThemes={handleSaveThemes}
+        currentInstruments={instruments}
+        onSaveInstruments={handleSaveInstruments}
+      />
+
       <ApiKeyModal 
         isOpen={!apiKey} 
         onSave={handleSaveApiKey} 
+        notice={apiKeyNotice}
       />
     </div>
   );
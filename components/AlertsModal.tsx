@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { X, Siren, Plus, Trash2, History } from 'lucide-react';
+import { AlertCondition, AlertEvent, AlertRule } from '../types';
+import { ALERT_CONDITIONS, createAlertRuleId, describeRule } from '../services/alertService';
+import { parseTickerList } from '../services/universeService';
+
+interface AlertsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  rules: AlertRule[];
+  onSaveRules: (rules: AlertRule[]) => void;
+  history: AlertEvent[];
+  onClearHistory: () => void;
+}
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString('ko-KR', { month: 'short', day: 'numeric', weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+// VIX level commonly read as fear in the market; offered as a one-click rule
+const VIX_FEAR_LEVEL = 25;
+
+export const AlertsModal: React.FC<AlertsModalProps> = ({ isOpen, onClose, rules, onSaveRules, history, onClearHistory }) => {
+  const [condition, setCondition] = useState<AlertCondition>('priceAbove');
+  const [ticker, setTicker] = useState('');
+  const [threshold, setThreshold] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const addRule = (rule: Omit<AlertRule, 'id' | 'createdAt' | 'enabled'>) => {
+    onSaveRules([...rules, { ...rule, id: createAlertRuleId(), createdAt: new Date().toISOString(), enabled: true }]);
+    // Alerts are only useful with notifications; ask once, when the first rule is added
+    if ('Notification' in window && Notification.permission === 'default') Notification.requestPermission();
+  };
+
+  const handleAdd = () => {
+    const value = Number(threshold);
+    const [parsedTicker] = parseTickerList(ticker);
+    if (ALERT_CONDITIONS[condition].needsTicker && !parsedTicker) {
+      setError('티커 형식이 올바르지 않습니다. 예: AAPL');
+      return;
+    }
+    if (!threshold.trim() || !(value > 0)) {
+      setError('기준값은 0보다 큰 숫자여야 합니다.');
+      return;
+    }
+    addRule({ condition, threshold: value, ...(ALERT_CONDITIONS[condition].needsTicker && { ticker: parsedTicker }) });
+    setTicker('');
+    setThreshold('');
+    setError(null);
+  };
+
+  const updateRule = (id: string, patch: Partial<AlertRule>) =>
+    onSaveRules(rules.map(rule => (rule.id === id ? { ...rule, ...patch } : rule)));
+
+  const hasVixRule = rules.some(r => r.condition === 'vixAbove' && r.threshold === VIX_FEAR_LEVEL);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg relative z-10 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            <Siren className="h-5 w-5 text-rose-500" />
+            가격 알림
+          </h3>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
+          <p className="text-xs text-slate-500">
+            새 보고서가 생성될 때마다 시세를 확인합니다. 조건을 새로 넘을 때 한 번만 알리고, 조건에서 벗어났다가 다시 넘으면 다시 알립니다.
+          </p>
+
+          {/* New rule */}
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-2">
+              <select
+                value={condition}
+                onChange={(e) => { setCondition(e.target.value as AlertCondition); setError(null); }}
+                className="rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {(Object.keys(ALERT_CONDITIONS) as AlertCondition[]).map(id => (
+                  <option key={id} value={id}>{ALERT_CONDITIONS[id].label}</option>
+                ))}
+              </select>
+              {ALERT_CONDITIONS[condition].needsTicker && (
+                <input
+                  value={ticker}
+                  onChange={(e) => setTicker(e.target.value)}
+                  placeholder="티커"
+                  className="w-24 rounded-lg border border-slate-200 px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              )}
+              <div className="flex items-center gap-1">
+                <input
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                  inputMode="decimal"
+                  placeholder="기준값"
+                  className="w-28 rounded-lg border border-slate-200 px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <span className="text-xs text-slate-500">{ALERT_CONDITIONS[condition].unit}</span>
+              </div>
+              <button
+                onClick={handleAdd}
+                className="flex items-center gap-1 bg-blue-600 hover:bg-blue-700 text-white text-sm px-3 py-2 rounded-lg"
+              >
+                <Plus className="h-4 w-4" /> 추가
+              </button>
+            </div>
+            {error && <p className="text-xs text-rose-600">{error}</p>}
+            {!hasVixRule && (
+              <button
+                onClick={() => addRule({ condition: 'vixAbove', threshold: VIX_FEAR_LEVEL })}
+                className="text-xs bg-slate-100 hover:bg-slate-200 text-slate-600 px-3 py-1.5 rounded-full"
+              >
+                + VIX {VIX_FEAR_LEVEL} 이상 (공포 구간)
+              </button>
+            )}
+          </div>
+
+          {/* Rules */}
+          <div>
+            <p className="text-sm font-medium text-slate-700 mb-2">알림 규칙</p>
+            {rules.length === 0 ? (
+              <p className="text-sm text-slate-400">등록된 규칙이 없습니다.</p>
+            ) : (
+              <ul className="divide-y divide-slate-100 border border-slate-100 rounded-lg">
+                {rules.map(rule => (
+                  <li key={rule.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) => updateRule(rule.id, { enabled: e.target.checked, triggered: false, noReading: false })}
+                      title={rule.enabled ? '사용 중' : '꺼짐'}
+                    />
+                    <span className={rule.enabled ? 'text-slate-800' : 'text-slate-400 line-through'}>{describeRule(rule)}</span>
+                    {rule.enabled && rule.triggered && (
+                      <span className="text-[11px] text-rose-600 bg-rose-50 px-2 py-0.5 rounded-full" title="조건에서 벗어나면 다시 알림을 받을 수 있습니다">
+                        조건 충족 중
+                      </span>
+                    )}
+                    {rule.enabled && rule.noReading && (
+                      <span className="text-[11px] text-amber-700 bg-amber-50 px-2 py-0.5 rounded-full" title="마지막 보고서에 이 규칙이 볼 시세가 없어 확인하지 못했습니다">
+                        시세 없음
+                      </span>
+                    )}
+                    <button
+                      onClick={() => onSaveRules(rules.filter(r => r.id !== rule.id))}
+                      className="ml-auto p-1 text-slate-400 hover:text-rose-500"
+                      title="삭제"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* History */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-sm font-medium text-slate-700 flex items-center gap-1.5">
+                <History className="h-4 w-4 text-slate-400" />
+                알림 기록
+              </p>
+              {history.length > 0 && (
+                <button onClick={onClearHistory} className="text-xs text-slate-400 hover:text-rose-500">기록 삭제</button>
+              )}
+            </div>
+            {history.length === 0 ? (
+              <p className="text-sm text-slate-400">아직 발생한 알림이 없습니다.</p>
+            ) : (
+              <ul className="space-y-1.5 text-sm">
+                {history.map(event => (
+                  <li key={event.id} className="flex gap-3">
+                    <span className="text-xs text-slate-400 shrink-0 w-28 pt-0.5">{formatDateTime(event.firedAt)}</span>
+                    <span className="text-slate-700">{event.message}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -4,9 +4,10 @@ import { Key, ShieldCheck, ChevronRight, Lock } from 'lucide-react';
 interface ApiKeyModalProps {
   isOpen: boolean;
   onSave: (key: string) => void;
+  notice?: string; // Why the key is being requested again (e.g. rejected key)
 }
 
-export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onSave }) => {
+export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onSave, notice }) => {
   const [inputKey, setInputKey] = useState('');
   const [error, setError] = useState('');
 
@@ -36,6 +37,11 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onSave }) => {
         </div>
         
         <form onSubmit={handleSubmit} className="p-8 space-y-6">
+          {notice && (
+            <div className="bg-rose-50 border border-rose-200 text-rose-700 text-sm p-3 rounded-xl">
+              {notice}
+            </div>
+          )}
           <div className="space-y-2">
             <label className="block text-sm font-medium text-slate-700">
               Gemini API Key
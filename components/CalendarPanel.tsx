@@ -0,0 +1,123 @@
+import React from 'react';
+import { CalendarClock, Landmark, Building2 } from 'lucide-react';
+import { CalendarEvent } from '../types';
+import { getCalendarWindow, getSurprise, splitCalendar } from '../services/calendarService';
+import { formatPercent, formatReading } from '../services/quotes';
+import { SECTION_LABELS } from '../services/groundingService';
+
+interface CalendarPanelProps {
+  events: CalendarEvent[];
+  asOf?: string; // Report data time; decides what counts as released vs. upcoming
+}
+
+// "10/21 (화)"; dates are plain New York calendar days, so they are read as UTC
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString('ko-KR', { month: 'numeric', day: 'numeric', weekday: 'short', timeZone: 'UTC' });
+
+const reading = (event: CalendarEvent, value?: number) => (value === undefined ? '-' : formatReading(value, event.unit));
+
+const EventIcon: React.FC<{ event: CalendarEvent }> = ({ event }) =>
+  event.kind === 'macro'
+    ? <Landmark className="h-4 w-4 text-indigo-500 shrink-0" />
+    : <Building2 className="h-4 w-4 text-slate-400 shrink-0" />;
+
+// An EPS beat is good news for the stock; for macro prints the direction alone is shown
+const SurpriseBadge: React.FC<{ event: CalendarEvent }> = ({ event }) => {
+  const surprise = getSurprise(event);
+  if (!surprise) return null;
+  const color = event.kind === 'earnings'
+    ? surprise.diff > 0 ? 'bg-emerald-50 text-emerald-700' : surprise.diff < 0 ? 'bg-rose-50 text-rose-700' : 'bg-slate-100 text-slate-600'
+    : 'bg-slate-100 text-slate-600';
+  return (
+    <span className={`text-[11px] font-medium px-2 py-0.5 rounded-full whitespace-nowrap ${color}`}>
+      {formatReading(surprise.diff, event.unit, { signed: true })}
+      {surprise.percent !== undefined && ` (${formatPercent(surprise.percent)})`}
+    </span>
+  );
+};
+
+const UpcomingList: React.FC<{ events: CalendarEvent[] }> = ({ events }) => {
+  const days = Array.from(new Set(events.map(e => e.date)));
+  return (
+    <div className="space-y-3">
+      {days.map(day => (
+        <div key={day}>
+          <p className="text-xs font-semibold text-slate-500 mb-1">{formatDay(day)}</p>
+          <ul className="space-y-1">
+            {events.filter(e => e.date === day).map(event => (
+              <li key={event.id} className="flex items-center gap-2 text-sm">
+                <EventIcon event={event} />
+                <span className="text-slate-800">{event.title}</span>
+                {event.time && <span className="text-xs text-slate-400">{event.time}</span>}
+                <span className="ml-auto text-xs text-slate-500 whitespace-nowrap">
+                  {event.consensus !== undefined && `예상 ${reading(event, event.consensus)}`}
+                  {event.consensus !== undefined && event.prior !== undefined && ' · '}
+                  {event.prior !== undefined && `이전 ${reading(event, event.prior)}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const ReleasedTable: React.FC<{ events: CalendarEvent[] }> = ({ events }) => (
+  <table className="w-full text-sm">
+    <thead>
+      <tr className="text-xs text-slate-400 text-left">
+        <th className="font-medium pb-1">일정</th>
+        <th className="font-medium pb-1 text-right">실제</th>
+        <th className="font-medium pb-1 text-right">예상</th>
+        <th className="font-medium pb-1 text-right">서프라이즈</th>
+      </tr>
+    </thead>
+    <tbody className="divide-y divide-slate-100">
+      {events.map(event => (
+        <tr key={event.id}>
+          <td className="py-1.5 pr-2">
+            <div className="flex items-center gap-2">
+              <EventIcon event={event} />
+              <span className="text-slate-800">{event.title}</span>
+              <span className="text-xs text-slate-400">{formatDay(event.date)}</span>
+            </div>
+          </td>
+          <td className="py-1.5 text-right font-medium text-slate-900 whitespace-nowrap">{reading(event, event.actual)}</td>
+          <td className="py-1.5 text-right text-slate-500 whitespace-nowrap">{reading(event, event.consensus)}</td>
+          <td className="py-1.5 text-right"><SurpriseBadge event={event} /></td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+// Week-ahead macro releases and earnings, with last week's prints against consensus
+export const CalendarPanel: React.FC<CalendarPanelProps> = ({ events, asOf }) => {
+  const { today } = getCalendarWindow(asOf ? new Date(asOf) : undefined);
+  const { released, upcoming } = splitCalendar(events, today);
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden mb-6">
+      <div className="bg-slate-50 px-6 py-4 border-b border-slate-100 flex items-center gap-2">
+        <CalendarClock className="h-5 w-5 text-indigo-500" />
+        <h3 className="font-semibold text-slate-900">{SECTION_LABELS.calendar}</h3>
+        <span className="ml-auto text-xs text-slate-400">뉴욕 기준</span>
+      </div>
+      <div className="p-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <p className="text-sm font-medium text-slate-700 mb-3">다가오는 일정</p>
+          {upcoming.length > 0
+            ? <UpcomingList events={upcoming} />
+            : <p className="text-sm text-slate-400">앞으로 1주일 내 예정된 주요 일정이 없습니다.</p>}
+        </div>
+        <div>
+          <p className="text-sm font-medium text-slate-700 mb-3">지난 발표</p>
+          {released.length > 0
+            ? <ReleasedTable events={released} />
+            : <p className="text-sm text-slate-400">지난 1주일간 발표된 주요 일정이 없습니다.</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { X, GitCompare, ArrowRight, ArrowUpRight, ArrowDownRight, Flame, Lightbulb, Sparkles, Loader2, LogIn, LogOut } from 'lucide-react';
+import { ReportComparison, StockItem, StockListKey } from '../types';
+import { SectionBox, StockTable } from './ReportView';
+import { StockDetailModal } from './StockDetailModal';
+import { formatPercent } from '../services/quotes';
+import { formatInstrumentLevel } from '../services/instrumentService';
+
+interface ComparisonViewProps {
+  comparison: ReportComparison | null;
+  onClose: () => void;
+  onGenerateNarrative: () => Promise<string>;
+}
+
+const LIST_TABLE_TYPE: Record<StockListKey, 'gainer' | 'loser' | 'neutral'> = {
+  gainers: 'gainer',
+  losers: 'loser',
+  themeRising: 'neutral',
+  themeFalling: 'neutral',
+};
+
+export const ComparisonView: React.FC<ComparisonViewProps> = ({ comparison, onClose, onGenerateNarrative }) => {
+  const [selectedStock, setSelectedStock] = useState<StockItem | null>(null);
+  const [narrative, setNarrative] = useState<string | null>(null);
+  const [narrativeLoading, setNarrativeLoading] = useState(false);
+  const [narrativeError, setNarrativeError] = useState<string | null>(null);
+
+  if (!comparison) return null;
+  const { base, target, indexMoves, listDiffs, streaks } = comparison;
+
+  const handleGenerateNarrative = async () => {
+    setNarrativeLoading(true);
+    setNarrativeError(null);
+    try {
+      setNarrative(await onGenerateNarrative());
+    } catch (error) {
+      setNarrativeError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setNarrativeLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[106] bg-slate-50 overflow-y-auto">
+      <div className="bg-white border-b border-slate-200 sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center gap-3">
+          <GitCompare className="h-5 w-5 text-blue-600" />
+          <h2 className="font-bold text-slate-900">보고서 비교</h2>
+          <div className="hidden md:flex items-center gap-2 text-sm text-slate-500 ml-4">
+            <span className="bg-slate-100 px-3 py-1 rounded-full">{base.date}</span>
+            <ArrowRight className="h-4 w-4" />
+            <span className="bg-blue-50 text-blue-700 px-3 py-1 rounded-full">{target.date}</span>
+          </div>
+          <button onClick={onClose} className="ml-auto p-2 text-slate-400 hover:text-slate-600 rounded-lg">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Index moves */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+          {indexMoves.map(move => {
+            const up = (move.deltaPercent ?? 0) >= 0;
+            return (
+              <div key={move.name} className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+                <div className="flex justify-between items-start mb-2">
+                  <span className="text-slate-500 text-sm font-semibold truncate pr-2">{move.name}</span>
+                  {move.deltaPercent !== null && (
+                    <div className={`p-1 rounded-full shrink-0 ${up ? 'bg-emerald-100' : 'bg-rose-100'}`}>
+                      {up ? <ArrowUpRight className="h-4 w-4 text-emerald-600" /> : <ArrowDownRight className="h-4 w-4 text-rose-600" />}
+                    </div>
+                  )}
+                </div>
+                <div className="text-sm text-slate-400">{move.from ? formatInstrumentLevel(move.from) : '-'}</div>
+                <div className="text-xl font-bold text-slate-900">{move.to ? formatInstrumentLevel(move.to) : '-'}</div>
+                <span className={`text-sm font-medium ${move.deltaPercent === null ? 'text-slate-400' : up ? 'text-emerald-600' : 'text-rose-600'}`}>
+                  {move.deltaPercent === null ? '비교 불가' : formatPercent(move.deltaPercent)}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* AI narrative */}
+        {narrative ? (
+          <SectionBox
+            title="이전 브리핑 이후 달라진 점"
+            icon={<Sparkles className="h-5 w-5 text-purple-500" />}
+            content={narrative}
+          >
+            <ReactMarkdown>{narrative}</ReactMarkdown>
+          </SectionBox>
+        ) : (
+          <div className="bg-white rounded-xl border border-dashed border-slate-300 p-6 flex flex-col sm:flex-row items-center gap-4">
+            <Sparkles className="h-6 w-6 text-purple-400" />
+            <p className="text-sm text-slate-500 flex-1">
+              Gemini가 두 보고서의 변화와 이전 전망의 적중 여부를 요약합니다.
+              {narrativeError && <span className="block text-rose-600 mt-1">{narrativeError}</span>}
+            </p>
+            <button
+              onClick={handleGenerateNarrative}
+              disabled={narrativeLoading}
+              className="flex items-center gap-2 bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-70"
+            >
+              {narrativeLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Sparkles className="h-4 w-4" />}
+              AI 변화 요약 생성
+            </button>
+          </div>
+        )}
+
+        {/* Streaks */}
+        {streaks.length > 0 && (
+          <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+            <h3 className="font-semibold text-slate-900 flex items-center gap-2 mb-4">
+              <Flame className="h-5 w-5 text-orange-500" />
+              연속 등장 종목
+            </h3>
+            <div className="flex flex-wrap gap-2">
+              {streaks.map(streak => (
+                <span
+                  key={`${streak.list}-${streak.themeId ?? ''}-${streak.ticker}`}
+                  className="text-sm bg-orange-50 text-orange-800 border border-orange-200 px-3 py-1 rounded-full"
+                >
+                  <strong>{streak.ticker}</strong> {streak.name} · {streak.label} {streak.days}일 연속
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* List entries / exits */}
+        {listDiffs.map(diff => (
+          <div key={`${diff.list}-${diff.themeId ?? ''}`} className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <StockTable
+              title={`${diff.label} 신규 진입`}
+              items={diff.entered}
+              type={LIST_TABLE_TYPE[diff.list]}
+              icon={<LogIn className="h-5 w-5 text-blue-600" />}
+              onItemClick={setSelectedStock}
+            />
+            <StockTable
+              title={`${diff.label} 이탈`}
+              items={diff.dropped}
+              type={LIST_TABLE_TYPE[diff.list]}
+              icon={<LogOut className="h-5 w-5 text-slate-500" />}
+              onItemClick={setSelectedStock}
+            />
+          </div>
+        ))}
+
+        {/* Conclusions side by side */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <SectionBox
+            title={`전망 · ${base.date}`}
+            icon={<Lightbulb className="h-5 w-5 text-slate-400" />}
+            content={base.conclusion}
+          >
+            <ReactMarkdown>{base.conclusion}</ReactMarkdown>
+          </SectionBox>
+          <SectionBox
+            title={`전망 · ${target.date}`}
+            icon={<Lightbulb className="h-5 w-5 text-amber-500" />}
+            className="border-amber-200"
+            content={target.conclusion}
+          >
+            <ReactMarkdown>{target.conclusion}</ReactMarkdown>
+          </SectionBox>
+        </div>
+      </div>
+
+      <StockDetailModal
+        stock={selectedStock}
+        onClose={() => setSelectedStock(null)}
+        dataSource={target.dataSource}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { AlertOctagon, RefreshCw, Key, X, Clock } from 'lucide-react';
+import { ERROR_GUIDANCE, GeminiError } from '../services/geminiErrors';
+
+interface ErrorPanelProps {
+  error: GeminiError;
+  retryAt?: number; // Epoch ms after which a quota-limited request may be retried
+  onRetry: () => void;
+  onDismiss: () => void;
+  onReenterKey: () => void;
+}
+
+export const ErrorPanel: React.FC<ErrorPanelProps> = ({ error, retryAt, onRetry, onDismiss, onReenterKey }) => {
+  const [now, setNow] = useState(Date.now());
+  const guidance = ERROR_GUIDANCE[error.kind];
+  const waitMs = retryAt ? Math.max(0, retryAt - now) : 0;
+
+  // Tick once per second while a retry countdown is running
+  useEffect(() => {
+    if (!retryAt || retryAt <= Date.now()) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  return (
+    <div className="bg-rose-50 border border-rose-200 rounded-xl p-5 mb-6 flex gap-4 items-start">
+      <div className="bg-rose-100 p-2 rounded-lg shrink-0">
+        <AlertOctagon className="h-5 w-5 text-rose-600" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <h3 className="font-bold text-rose-900">{guidance.title}</h3>
+        <p className="text-sm text-rose-800 mt-1">{error.message}</p>
+        <p className="text-sm text-rose-700/80 mt-1">{guidance.action}</p>
+
+        {retryAt && (
+          <p className="text-xs text-rose-700 mt-2 flex items-center gap-1">
+            <Clock className="h-3.5 w-3.5" />
+            {waitMs > 0
+              ? `${new Date(retryAt).toLocaleTimeString('ko-KR')} 이후 재시도 가능 (${Math.ceil(waitMs / 1000)}초 남음)`
+              : '지금 다시 시도할 수 있습니다.'}
+          </p>
+        )}
+
+        <div className="flex flex-wrap gap-2 mt-4">
+          {error.kind === 'invalidKey' ? (
+            <button
+              onClick={onReenterKey}
+              className="flex items-center gap-1.5 text-sm font-medium bg-rose-600 hover:bg-rose-700 text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              <Key className="h-4 w-4" />
+              API Key 다시 입력
+            </button>
+          ) : (
+            <button
+              onClick={onRetry}
+              disabled={waitMs > 0}
+              className="flex items-center gap-1.5 text-sm font-medium bg-rose-600 hover:bg-rose-700 text-white px-4 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <RefreshCw className="h-4 w-4" />
+              다시 시도
+            </button>
+          )}
+        </div>
+      </div>
+      <button onClick={onDismiss} className="text-rose-400 hover:text-rose-600 transition-colors" title="닫기">
+        <X className="h-5 w-5" />
+      </button>
+    </div>
+  );
+};
@@ -1,12 +1,16 @@
 import React from 'react';
-import { TrendingUp, Bell } from 'lucide-react';
+import { TrendingUp, Bell, Settings, History, Siren } from 'lucide-react';
 
 interface HeaderProps {
   onOpenScheduler: () => void;
+  onOpenSettings: () => void;
+  onOpenHistory: () => void;
+  onOpenAlerts: () => void;
+  activeAlerts: number; // Enabled alert rules
   isScheduled: boolean;
 }
 
-export const Header: React.FC<HeaderProps> = ({ onOpenScheduler, isScheduled }) => {
+export const Header: React.FC<HeaderProps> = ({ onOpenScheduler, onOpenSettings, onOpenHistory, onOpenAlerts, activeAlerts, isScheduled }) => {
   return (
     <header className="bg-white border-b border-slate-200 sticky top-0 z-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
@@ -20,17 +24,45 @@ export const Header: React.FC<HeaderProps> = ({ onOpenScheduler, isScheduled })
           </div>
         </div>
         
-        <button
-          onClick={onOpenScheduler}
-          className={`flex items-center space-x-2 px-4 py-2 rounded-full text-sm font-medium transition-colors duration-200 ${
-            isScheduled 
-              ? 'bg-emerald-50 text-emerald-700 border border-emerald-200 hover:bg-emerald-100' 
-              : 'bg-slate-50 text-slate-600 border border-slate-200 hover:bg-slate-100'
-          }`}
-        >
-          <Bell className={`h-4 w-4 ${isScheduled ? 'fill-emerald-700' : ''}`} />
-          <span>{isScheduled ? '오전 9시 브리핑 예약됨' : '브리핑 스케줄링'}</span>
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onOpenHistory}
+            className="p-2 rounded-full text-slate-500 border border-slate-200 bg-slate-50 hover:bg-slate-100 transition-colors duration-200"
+            title="보고서 기록"
+          >
+            <History className="h-4 w-4" />
+          </button>
+          <button
+            onClick={onOpenAlerts}
+            className="relative p-2 rounded-full text-slate-500 border border-slate-200 bg-slate-50 hover:bg-slate-100 transition-colors duration-200"
+            title="가격 알림"
+          >
+            <Siren className="h-4 w-4" />
+            {activeAlerts > 0 && (
+              <span className="absolute -top-1 -right-1 bg-rose-500 text-white text-[10px] font-bold rounded-full h-4 min-w-4 px-1 flex items-center justify-center">
+                {activeAlerts}
+              </span>
+            )}
+          </button>
+          <button
+            onClick={onOpenSettings}
+            className="p-2 rounded-full text-slate-500 border border-slate-200 bg-slate-50 hover:bg-slate-100 transition-colors duration-200"
+            title="분석 설정"
+          >
+            <Settings className="h-4 w-4" />
+          </button>
+          <button
+            onClick={onOpenScheduler}
+            className={`flex items-center space-x-2 px-4 py-2 rounded-full text-sm font-medium transition-colors duration-200 ${
+              isScheduled 
+                ? 'bg-emerald-50 text-emerald-700 border border-emerald-200 hover:bg-emerald-100' 
+                : 'bg-slate-50 text-slate-600 border border-slate-200 hover:bg-slate-100'
+            }`}
+          >
+            <Bell className={`h-4 w-4 ${isScheduled ? 'fill-emerald-700' : ''}`} />
+            <span>{isScheduled ? '오전 9시 브리핑 예약됨' : '브리핑 스케줄링'}</span>
+          </button>
+        </div>
       </div>
     </header>
   );
@@ -0,0 +1,191 @@
+import React, { useMemo, useState } from 'react';
+import { X, History, Search, Pin, PinOff, Trash2, FileText, GitCompare } from 'lucide-react';
+import { ReportHistoryEntry } from '../types';
+import { matchesHistoryQuery } from '../services/reportHistoryService';
+
+interface HistorySidebarProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: ReportHistoryEntry[];
+  activeReportId?: string;
+  onSelect: (entry: ReportHistoryEntry) => void;
+  onTogglePin: (entry: ReportHistoryEntry) => void;
+  onDelete: (entry: ReportHistoryEntry) => void;
+  retentionLimit: number;
+  onChangeRetentionLimit: (limit: number) => void;
+  onCompare: (a: ReportHistoryEntry, b: ReportHistoryEntry) => void;
+}
+
+const RETENTION_OPTIONS = [
+  { value: 20, label: '최근 20개' },
+  { value: 50, label: '최근 50개' },
+  { value: 100, label: '최근 100개' },
+  { value: 0, label: '제한 없음' },
+];
+
+export const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  isOpen, onClose, entries, activeReportId, onSelect, onTogglePin, onDelete, retentionLimit, onChangeRetentionLimit, onCompare
+}) => {
+  const [query, setQuery] = useState('');
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  // Pinned reports first, then a timeline grouped by report date
+  const { pinned, groups } = useMemo(() => {
+    const filtered = entries.filter(entry => matchesHistoryQuery(entry, query));
+    const byDate = new Map<string, ReportHistoryEntry[]>();
+    filtered.filter(e => !e.pinned).forEach(entry => {
+      byDate.set(entry.date, [...(byDate.get(entry.date) || []), entry]);
+    });
+    return { pinned: filtered.filter(e => e.pinned), groups: Array.from(byDate.entries()) };
+  }, [entries, query]);
+
+  if (!isOpen) return null;
+
+  // Keeps at most two selections; picking a third drops the oldest pick
+  const toggleCompare = (id: string) => {
+    if (compareIds.includes(id)) {
+      setCompareIds(compareIds.filter(c => c !== id));
+    } else {
+      setCompareIds([...compareIds, id].slice(-2));
+    }
+  };
+
+  const handleCompare = () => {
+    const [a, b] = compareIds.map(id => entries.find(e => e.id === id));
+    if (a && b) onCompare(a, b);
+  };
+
+  const renderEntry = (entry: ReportHistoryEntry) => (
+    <li
+      key={entry.id}
+      onClick={() => compareMode ? toggleCompare(entry.id) : onSelect(entry)}
+      className={`group px-3 py-2.5 rounded-lg cursor-pointer transition-colors flex items-start gap-2 ${
+        entry.id === activeReportId ? 'bg-blue-50 border border-blue-200' : 'hover:bg-slate-50 border border-transparent'
+      }`}
+    >
+      {compareMode ? (
+        <input
+          type="checkbox"
+          checked={compareIds.includes(entry.id)}
+          onChange={() => toggleCompare(entry.id)}
+          onClick={(e) => e.stopPropagation()}
+          className="mt-1 shrink-0"
+        />
+      ) : (
+        <FileText className="h-4 w-4 text-slate-400 mt-0.5 shrink-0" />
+      )}
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-slate-800 truncate">{entry.report.reportTitle}</p>
+        <p className="text-xs text-slate-400">
+          {new Date(entry.savedAt).toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit' })}
+          {entry.report.gainers[0] && ` · 상승 1위 ${entry.report.gainers[0].ticker}`}
+        </p>
+      </div>
+      <button
+        onClick={(e) => { e.stopPropagation(); onTogglePin(entry); }}
+        className={`p-1 rounded transition-colors ${entry.pinned ? 'text-amber-500' : 'text-slate-300 opacity-0 group-hover:opacity-100 hover:text-amber-500'}`}
+        title={entry.pinned ? '고정 해제' : '고정'}
+      >
+        {entry.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+      </button>
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          if (confirm('이 보고서를 삭제할까요?')) onDelete(entry);
+        }}
+        className="p-1 rounded text-slate-300 opacity-0 group-hover:opacity-100 hover:text-rose-500 transition-colors"
+        title="삭제"
+      >
+        <Trash2 className="h-4 w-4" />
+      </button>
+    </li>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[105] flex">
+      <div className="relative z-10 w-full max-w-sm bg-white h-full shadow-2xl flex flex-col">
+        <div className="px-5 py-4 border-b border-slate-100 flex items-center gap-2">
+          <History className="h-5 w-5 text-blue-600" />
+          <h3 className="font-semibold text-slate-900">보고서 기록</h3>
+          <span className="text-xs text-slate-400">{entries.length}개</span>
+          <button
+            onClick={() => { setCompareMode(!compareMode); setCompareIds([]); }}
+            className={`ml-auto flex items-center gap-1 text-xs px-2 py-1 rounded-lg transition-colors ${
+              compareMode ? 'bg-blue-600 text-white' : 'text-slate-500 hover:bg-slate-100'
+            }`}
+            title="두 보고서 비교"
+          >
+            <GitCompare className="h-3.5 w-3.5" />
+            비교
+          </button>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-600 rounded-lg">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-slate-100">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="제목, 날짜, 티커로 검색"
+              className="block w-full pl-9 pr-3 py-2 rounded-lg border border-slate-200 bg-slate-50 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-5">
+          {pinned.length > 0 && (
+            <div>
+              <h4 className="text-xs font-semibold text-amber-600 uppercase mb-2 flex items-center gap-1">
+                <Pin className="h-3 w-3" /> 고정됨
+              </h4>
+              <ul className="space-y-1">{pinned.map(renderEntry)}</ul>
+            </div>
+          )}
+          {groups.map(([date, items]) => (
+            <div key={date} className="relative pl-4 border-l-2 border-slate-100">
+              <span className="absolute -left-[5px] top-1 h-2 w-2 rounded-full bg-blue-400"></span>
+              <h4 className="text-xs font-semibold text-slate-500 mb-2">{date}</h4>
+              <ul className="space-y-1">{items.map(renderEntry)}</ul>
+            </div>
+          ))}
+          {pinned.length === 0 && groups.length === 0 && (
+            <p className="text-sm text-slate-400 text-center py-8">
+              {query ? '검색 결과가 없습니다.' : '저장된 보고서가 없습니다.'}
+            </p>
+          )}
+        </div>
+
+        {compareMode && (
+          <div className="p-4 border-t border-slate-100">
+            <button
+              onClick={handleCompare}
+              disabled={compareIds.length !== 2}
+              className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white py-2.5 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <GitCompare className="h-4 w-4" />
+              {compareIds.length === 2 ? '선택한 2개 보고서 비교' : `비교할 보고서 2개 선택 (${compareIds.length}/2)`}
+            </button>
+          </div>
+        )}
+
+        <div className="p-4 border-t border-slate-100 bg-slate-50 flex items-center justify-between text-xs text-slate-500">
+          <span>보관 개수 (고정 제외)</span>
+          <select
+            value={retentionLimit}
+            onChange={(e) => onChangeRetentionLimit(Number(e.target.value))}
+            className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs outline-none"
+          >
+            {RETENTION_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="absolute inset-0 bg-slate-900/30" onClick={onClose}></div>
+    </div>
+  );
+};
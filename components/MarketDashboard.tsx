@@ -1,54 +1,60 @@
-import React, { useMemo } from 'react';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { ArrowUpRight, ArrowDownRight, Globe, Activity, TrendingUp, AlertTriangle, ShieldCheck, DollarSign } from 'lucide-react';
-import { MarketIndex } from '../types';
-
-// Helper to generate 1 year of mock data
-const generateMockVixData = () => {
-  const data = [];
-  let baseValue = 13.5;
-  const today = new Date();
-  
-  // Create data for the last 365 days
-  for (let i = 0; i < 365; i++) {
-    const date = new Date(today);
-    date.setDate(date.getDate() - (364 - i));
-    
-    // Random walk
-    const change = (Math.random() - 0.5) * 2; 
-    baseValue = baseValue + change;
-    
-    // Mean reversion
-    baseValue += (15 - baseValue) * 0.02;
-    
-    // Hard limits
-    baseValue = Math.max(10, Math.min(45, baseValue));
-    
-    data.push({
-      timestamp: date.getTime(),
-      dateStr: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-      month: date.toLocaleDateString('en-US', { month: 'short' }),
-      VIX: Number(baseValue.toFixed(2))
-    });
-  }
-  return data;
-};
+import React, { useMemo, useRef, useState } from 'react';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceArea } from 'recharts';
+import { ArrowUpRight, ArrowDownRight, Globe, Activity, TrendingUp, AlertTriangle, ShieldCheck, Upload } from 'lucide-react';
+import { DerivedMetric, InstrumentId, MarketIndex, PortfolioHolding, ReportHistoryEntry, StockItem, VixRange } from '../types';
+import { formatReading, isUp } from '../services/quotes';
+import {
+  MIN_PERCENTILE_SAMPLE,
+  VIX_RANGES,
+  VixGap,
+  VixPoint,
+  buildVixSeries,
+  clearImportedVix,
+  collectVixHistory,
+  getVixImportDate,
+  getVixPercentile,
+  importVixCsv,
+  isVixIndex,
+} from '../services/vixHistoryService';
+import { computePortfolio, findUsdKrw } from '../services/portfolioService';
+import { findInstrument, formatInstrumentChange, formatInstrumentLevel, getDerivedMetrics, getInstrument, groupByCategory, orderIndices } from '../services/instrumentService';
+import { INSTRUMENT_CATEGORY_LABELS } from '../data/instruments';
+import { PortfolioCard } from './PortfolioCard';
 
-// Calculate VIX insights based on the latest data
-const getVixInsight = (currentVix: number) => {
-  if (currentVix >= 25) {
+interface VixInsight {
+  sentiment: string;
+  desc: string;
+  stance: string;
+  stanceDesc: string;
+  icon: React.ReactNode;
+  color: string;
+}
+
+// Bands are percentiles of the trailing year's closes, so "high" is judged against the recent regime
+const getVixInsight = (percentile: number | null): VixInsight => {
+  if (percentile === null) {
+    return {
+      sentiment: "판단 보류 (Insufficient Data)",
+      desc: `최근 1년 VIX 종가가 ${MIN_PERCENTILE_SAMPLE}일 이상 쌓이면 현재 수준을 과거 분포와 비교해 평가합니다. 보고서를 더 생성하거나 VIX CSV를 가져오세요.`,
+      stance: "데이터 확보 필요",
+      stanceDesc: "변동성 수준을 판단할 기준이 아직 부족합니다. 지수 카드의 등락률을 참고하세요.",
+      icon: <Activity className="h-5 w-5 text-blue-200" />,
+      color: "text-blue-200"
+    };
+  }
+  if (percentile >= 85) {
     return {
       sentiment: "공포 (Extreme Fear)",
-      desc: "시장 변동성이 매우 큽니다. 패닉 셀링이 나올 수 있는 구간입니다.",
+      desc: "시장 변동성이 최근 1년 중 최상위 수준입니다. 패닉 셀링이 나올 수 있는 구간입니다.",
       stance: "분할 매수 (Aggressive Buy)",
       stanceDesc: "공포가 극에 달했을 때가 단기 바닥일 가능성이 높습니다. 우량주 저가 매수 기회.",
       icon: <AlertTriangle className="h-5 w-5 text-rose-200" />,
       color: "text-rose-200"
     };
-  } else if (currentVix >= 17) {
+  } else if (percentile >= 60) {
     return {
       sentiment: "경계 (Caution)",
-      desc: "불확실성이 증가하고 있습니다. 등락 폭이 커질 수 있습니다.",
+      desc: "변동성이 최근 1년 평균보다 높습니다. 등락 폭이 커질 수 있습니다.",
       stance: "관망 및 헷징 (Hold/Hedge)",
       stanceDesc: "현금 비중을 유지하며 리스크 관리에 집중할 때입니다. 섣부른 추격 매수 자제.",
       icon: <ShieldCheck className="h-5 w-5 text-amber-200" />,
@@ -57,7 +63,7 @@ const getVixInsight = (currentVix: number) => {
   } else {
     return {
       sentiment: "안정/탐욕 (Stable)",
-      desc: "시장이 비교적 안정적인 상승 추세를 보이고 있습니다.",
+      desc: "변동성이 최근 1년 기준 낮은 편으로, 시장이 비교적 안정적입니다.",
       stance: "추세 추종 (Trend Following)",
       stanceDesc: "상승 모멘텀을 즐기되, 급격한 조정에 대비해 이익 실현 전략도 병행하세요.",
       icon: <TrendingUp className="h-5 w-5 text-emerald-200" />,
@@ -66,80 +72,135 @@ const getVixInsight = (currentVix: number) => {
   }
 };
 
-// Default mock data until AI loads real data
-const defaultIndices: MarketIndex[] = [
-  { name: "S&P 500", value: "5,234.18", change: "+1.2%", isPositive: true },
-  { name: "NASDAQ", value: "16,428.82", change: "+1.5%", isPositive: true },
-  { name: "Dow Jones", value: "39,150.33", change: "-0.4%", isPositive: false },
-  { name: "USD/KRW", value: "1,345.50", change: "+0.3%", isPositive: true },
-  { name: "VIX", value: "13.50", change: "-1.2%", isPositive: false },
-];
+// Shade out to the neighbouring closes so a single missing session still has width on the point axis
+const gapBounds = (points: VixPoint[], gap: VixGap) => {
+  const from = points.findIndex(p => p.date === gap.from);
+  const to = points.findIndex(p => p.date === gap.to);
+  return { x1: points[Math.max(0, from - 1)].date, x2: points[Math.min(points.length - 1, to + 1)].date };
+};
+
+const formatGap = (gap: VixGap) =>
+  gap.from === gap.to ? gap.from : `${gap.from} ~ ${gap.to} (${gap.sessions}거래일)`;
+
+const Direction: React.FC<{ up: boolean }> = ({ up }) => (
+  up ? (
+    <div className="bg-emerald-100 p-1 rounded-full shrink-0">
+      <ArrowUpRight className="h-4 w-4 text-emerald-600" />
+    </div>
+  ) : (
+    <div className="bg-rose-100 p-1 rounded-full shrink-0">
+      <ArrowDownRight className="h-4 w-4 text-rose-600" />
+    </div>
+  )
+);
+
+// One configured instrument; a dashed card until a report has a reading for it
+const IndexCard: React.FC<{ name: string; index?: MarketIndex }> = ({ name, index }) => (
+  index ? (
+    <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm flex flex-col justify-between hover:shadow-md transition-shadow">
+      <div className="flex justify-between items-start mb-2">
+        <span className="text-slate-500 text-sm font-semibold truncate pr-2" title={name}>{name}</span>
+        <Direction up={isUp(index.quote)} />
+      </div>
+      <div>
+        <span className="text-2xl font-bold text-slate-900 block truncate">{formatInstrumentLevel(index)}</span>
+        <span className={`text-sm font-medium ${isUp(index.quote) ? 'text-emerald-600' : 'text-rose-600'}`}>
+          {formatInstrumentChange(index)}
+        </span>
+      </div>
+    </div>
+  ) : (
+    <div className="p-4 rounded-xl border border-dashed border-slate-300 flex flex-col justify-between">
+      <span className="text-slate-400 text-sm font-semibold truncate mb-2" title={name}>{name}</span>
+      <div>
+        <span className="text-2xl font-bold text-slate-300 block">—</span>
+        <span className="text-xs text-slate-400">보고서 생성 후 표시</span>
+      </div>
+    </div>
+  )
+);
+
+// Computed from other cards, so it is set apart from the fetched readings
+const DerivedCard: React.FC<{ metric: DerivedMetric }> = ({ metric }) => (
+  <div className="bg-slate-50 p-4 rounded-xl border border-slate-200 flex flex-col justify-between">
+    <div className="flex justify-between items-start mb-2">
+      <span className="text-slate-500 text-sm font-semibold truncate pr-2" title="파생 지표">{metric.name}</span>
+      <Direction up={metric.changeBp >= 0} />
+    </div>
+    <div>
+      <span className="text-2xl font-bold text-slate-900 block truncate">{formatReading(metric.valueBp, "bp", { signed: true })}</span>
+      <span className={`text-sm font-medium ${metric.changeBp >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+        {formatReading(metric.changeBp, "bp", { signed: true })}
+      </span>
+      {metric.valueBp < 0 && <span className="text-[11px] text-rose-600 block">장단기 금리 역전</span>}
+    </div>
+  </div>
+);
 
 interface MarketDashboardProps {
   indices?: MarketIndex[];
+  instruments: InstrumentId[]; // Cards to show, in the user's order
+  history: ReportHistoryEntry[];
+  quotes: StockItem[]; // Stock quotes of the open report, used to value the portfolio
+  holdings: PortfolioHolding[];
+  onSaveHoldings: (holdings: PortfolioHolding[]) => void;
 }
 
-export const MarketDashboard: React.FC<MarketDashboardProps> = ({ indices }) => {
-  const displayIndices = indices && indices.length > 0 ? indices : defaultIndices;
-
-  // Extract Real-time VIX value if available
-  const realVixItem = displayIndices.find(i => i.name.toUpperCase().includes('VIX') || i.name.includes('변동성'));
-  const realVixValue = realVixItem ? parseFloat(realVixItem.value.replace(/[^0-9.]/g, '')) : null;
-
-  // Memoize chart data to adjust based on real VIX value
-  const chartData = useMemo(() => {
-    const data = generateMockVixData();
-    
-    // If we have a real VIX value from the AI, adjust the mock data to match it
-    if (realVixValue !== null && !isNaN(realVixValue)) {
-      const lastMockVal = data[data.length - 1].VIX;
-      const diff = realVixValue - lastMockVal;
-      
-      // Shift the entire chart history to align with the current real-time value
-      // This preserves the "shape" of volatility while anchoring to reality
-      return data.map(d => ({
-        ...d,
-        VIX: Math.max(0, Number((d.VIX + diff).toFixed(2)))
-      }));
+export const MarketDashboard: React.FC<MarketDashboardProps> = ({ indices, instruments, history, quotes, holdings, onSaveHoldings }) => {
+  const groups = groupByCategory(instruments);
+  // Only from configured cards, so a removed yield doesn't leave its spread behind
+  const derived = getDerivedMetrics(orderIndices(indices || [], instruments));
+  const [range, setRange] = useState<VixRange>('1Y');
+  const [importVersion, setImportVersion] = useState(0);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+
+  // Live VIX only comes from a real report; the placeholder cards don't count
+  const realVixItem = indices?.find(i => isVixIndex(i.name));
+  const realVixValue = realVixItem && Number.isFinite(realVixItem.quote.price) ? realVixItem.quote.price : null;
+
+  const readings = useMemo(() => collectVixHistory(history), [history, importVersion]);
+  const series = useMemo(() => buildVixSeries(readings, range), [readings, range]);
+
+  const latestClose = readings.length ? readings[readings.length - 1] : null;
+  const currentVix = realVixValue ?? latestClose?.close ?? null;
+  const percentile = currentVix !== null ? getVixPercentile(currentVix, readings) : null;
+  const insight = getVixInsight(percentile?.percentile ?? null);
+  const csvCount = readings.filter(r => r.source === 'csv').length;
+  // Only real report readings; the placeholder cards would value the portfolio at made-up rates
+  const portfolio = computePortfolio(holdings, quotes, findUsdKrw(indices));
+
+  const handleImportCsv = async (file: File) => {
+    try {
+      const kept = importVixCsv(await file.text());
+      setImportVersion(v => v + 1);
+      alert(`VIX 종가 ${kept}일치를 가져왔습니다.`);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
     }
-    
-    return data;
-  }, [realVixValue]);
+  };
 
-  const latestVix = chartData[chartData.length - 1].VIX;
-  const insight = getVixInsight(latestVix);
+  const handleClearCsv = () => {
+    if (!confirm("가져온 VIX CSV 데이터를 삭제할까요? 보고서에서 수집된 값은 유지됩니다.")) return;
+    clearImportedVix();
+    setImportVersion(v => v + 1);
+  };
 
-  // Filter out VIX from cards if you don't want it duplicated, 
-  // but keeping it is useful for seeing the exact change percentage.
-  const cardsIndices = displayIndices.filter(i => 
-    !i.name.toUpperCase().includes('VIX') && !i.name.includes('변동성')
-  );
-  // If filtering leaves too few, just show all. Or if user prefers VIX in cards too.
-  // For now, let's show all 5 items, the grid will wrap nicely.
-  
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
-      {/* Key Indices Cards */}
-      <div className="lg:col-span-3 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
-        {displayIndices.map((idx) => (
-          <div key={idx.name} className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm flex flex-col justify-between hover:shadow-md transition-shadow">
-            <div className="flex justify-between items-start mb-2">
-              <span className="text-slate-500 text-sm font-semibold truncate pr-2" title={idx.name}>{idx.name}</span>
-              {idx.isPositive ? (
-                <div className="bg-emerald-100 p-1 rounded-full shrink-0">
-                  <ArrowUpRight className="h-4 w-4 text-emerald-600" />
-                </div>
-              ) : (
-                <div className="bg-rose-100 p-1 rounded-full shrink-0">
-                  <ArrowDownRight className="h-4 w-4 text-rose-600" />
-                </div>
-              )}
-            </div>
-            <div>
-              <span className="text-2xl font-bold text-slate-900 block truncate">{idx.value}</span>
-              <span className={`text-sm font-medium ${idx.isPositive ? 'text-emerald-600' : 'text-rose-600'}`}>
-                {idx.change}
-              </span>
+      {/* Instrument cards, grouped by category in the user's order */}
+      <div className="lg:col-span-3 space-y-4">
+        {groups.map(({ category, ids }) => (
+          <div key={category}>
+            <p className="text-xs font-semibold text-slate-400 mb-2">{INSTRUMENT_CATEGORY_LABELS[category]}</p>
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+              {ids.map(id => (
+                <IndexCard
+                  key={id}
+                  name={getInstrument(id).name}
+                  index={indices?.find(i => findInstrument(i.name)?.id === id)}
+                />
+              ))}
+              {derived.filter(m => m.category === category).map(metric => <DerivedCard key={metric.id} metric={metric} />)}
             </div>
           </div>
         ))}
@@ -147,19 +208,67 @@ export const MarketDashboard: React.FC<MarketDashboardProps> = ({ indices }) =>
 
       {/* Mini Chart Section */}
       <div className="lg:col-span-2 bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
-        <div className="flex items-center justify-between mb-6">
-          <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
-            <Activity className="h-5 w-5 text-blue-600" />
-            시장 변동성 지표 (VIX 추이 - 1년)
-          </h2>
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+              <Activity className="h-5 w-5 text-blue-600" />
+              시장 변동성 지표 (VIX 종가 추이)
+            </h2>
+            <div className="flex items-center gap-2 mt-2">
+              <div className="flex bg-slate-100 rounded-lg p-0.5">
+                {VIX_RANGES.map(r => (
+                  <button
+                    key={r}
+                    onClick={() => setRange(r)}
+                    className={`px-2.5 py-1 text-xs font-semibold rounded-md transition-colors ${range === r ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                  >
+                    {r}
+                  </button>
+                ))}
+              </div>
+              <input
+                ref={csvInputRef}
+                type="file"
+                accept="text/csv,.csv"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImportCsv(file);
+                  e.target.value = '';
+                }}
+              />
+              <button
+                onClick={() => csvInputRef.current?.click()}
+                className="flex items-center gap-1 text-xs text-slate-500 hover:bg-slate-100 px-2 py-1 rounded-lg transition-colors"
+                title="Cboe VIX_History.csv 등 DATE,CLOSE 열이 있는 파일"
+              >
+                <Upload className="h-3.5 w-3.5" />
+                CSV 가져오기
+              </button>
+              {csvCount > 0 && (
+                <button
+                  onClick={handleClearCsv}
+                  className="text-xs text-slate-400 hover:text-rose-500 px-1 py-1 transition-colors"
+                  title={`가져온 날짜: ${new Date(getVixImportDate() || "").toLocaleString('ko-KR')}`}
+                >
+                  CSV 삭제
+                </button>
+              )}
+            </div>
+          </div>
           <div className="text-right">
-            <span className="text-2xl font-bold text-slate-900 block">{latestVix}</span>
-            <span className="text-xs text-slate-400">Current Real-time Level</span>
+            <span className="text-2xl font-bold text-slate-900 block">{currentVix !== null ? currentVix.toFixed(2) : '—'}</span>
+            <span className="text-xs text-slate-400">
+              {realVixValue !== null ? '보고서 기준 현재 수준' : latestClose ? `${latestClose.date} 종가` : '데이터 없음'}
+            </span>
+            {percentile && (
+              <span className="text-xs text-slate-500 block">1년 {Math.round(percentile.percentile)} 백분위 ({percentile.sample}일)</span>
+            )}
           </div>
         </div>
         <div className="h-[200px] w-full">
           <ResponsiveContainer width="100%" height="100%">
-            <AreaChart data={chartData}>
+            <AreaChart data={series.points}>
               <defs>
                 <linearGradient id="colorVix" x1="0" y1="0" x2="0" y2="1">
                   <stop offset="5%" stopColor="#ef4444" stopOpacity={0.1}/>
@@ -167,13 +276,18 @@ export const MarketDashboard: React.FC<MarketDashboardProps> = ({ indices }) =>
                 </linearGradient>
               </defs>
               <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              {/* Sessions with no close are shaded rather than interpolated */}
+              {series.gaps.map(gap => (
+                <ReferenceArea key={gap.from} {...gapBounds(series.points, gap)} fill="#94a3b8" fillOpacity={0.15} strokeOpacity={0} />
+              ))}
               <XAxis 
-                dataKey="dateStr" 
+                dataKey="date" 
+                tickFormatter={(date: string) => series.points.find(p => p.date === date)?.label || date}
                 tick={{fontSize: 10}} 
                 stroke="#94a3b8" 
                 axisLine={false} 
                 tickLine={false}
-                interval={30} // Show label roughly every month
+                minTickGap={24}
               />
               <YAxis 
                 domain={['auto', 'auto']}
@@ -187,18 +301,33 @@ export const MarketDashboard: React.FC<MarketDashboardProps> = ({ indices }) =>
               <Tooltip 
                 labelStyle={{ color: '#64748b' }}
                 contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                formatter={(value: number | null) => [value === null ? '데이터 없음' : value.toFixed(2), 'VIX']}
               />
               <Area 
                 type="monotone" 
-                dataKey="VIX" 
+                dataKey="vix" 
+                name="VIX"
                 stroke="#ef4444" 
                 strokeWidth={2} 
                 fillOpacity={1} 
                 fill="url(#colorVix)" 
+                connectNulls={false}
+                dot={series.points.length - series.missingSessions < 30 ? { r: 2 } : false}
               />
             </AreaChart>
           </ResponsiveContainer>
         </div>
+        {series.missingSessions > 0 && (
+          <p
+            className="mt-3 text-xs text-slate-500 flex items-center gap-1.5"
+            title={series.gaps.map(formatGap).join('\n')}
+          >
+            <span className="inline-block w-3 h-3 rounded-sm bg-slate-400/20 shrink-0"></span>
+            {series.points.length}거래일 중 {series.missingSessions}일 종가 없음
+            {series.gaps.length > 0 && ` (최근: ${formatGap(series.gaps[series.gaps.length - 1])})`}
+            {csvCount === 0 && ' · VIX CSV를 가져오면 빈 구간이 채워집니다.'}
+          </p>
+        )}
       </div>
 
       {/* Info Card - VIX Insight & Strategy */}
@@ -235,6 +364,8 @@ export const MarketDashboard: React.FC<MarketDashboardProps> = ({ indices }) =>
           </div>
         </div>
       </div>
+
+      <PortfolioCard holdings={holdings} summary={portfolio} onSave={onSaveHoldings} />
     </div>
   );
 };
\ No newline at end of file
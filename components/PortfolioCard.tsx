@@ -0,0 +1,259 @@
+import React, { useState } from 'react';
+import { Wallet, Pencil, Plus, Trash2, Info } from 'lucide-react';
+import { PnlBreakdown, PortfolioHolding, PortfolioSummary } from '../types';
+import { formatAmount, formatPercent, formatPrice } from '../services/quotes';
+import { createHoldingId, pnlPercent } from '../services/portfolioService';
+import { parseTickerList } from '../services/universeService';
+
+interface PortfolioCardProps {
+  holdings: PortfolioHolding[];
+  summary: PortfolioSummary | null; // Null until a report with USD/KRW is loaded
+  onSave: (holdings: PortfolioHolding[]) => void;
+}
+
+// Editor rows keep the raw input so half-typed numbers survive re-renders
+interface DraftRow {
+  id: string;
+  ticker: string;
+  shares: string;
+  avgCost: string;
+  purchaseFx: string;
+}
+
+const toDraft = (h: PortfolioHolding): DraftRow => ({
+  id: h.id,
+  ticker: h.ticker,
+  shares: String(h.shares),
+  avgCost: String(h.avgCost),
+  purchaseFx: h.purchaseFx ? String(h.purchaseFx) : '',
+});
+
+const emptyRow = (): DraftRow => ({ id: createHoldingId(), ticker: '', shares: '', avgCost: '', purchaseFx: '' });
+
+// Returns the holdings or the first problem found, in Korean for the editor
+const parseDraft = (rows: DraftRow[]): PortfolioHolding[] | string => {
+  const holdings: PortfolioHolding[] = [];
+  for (const row of rows) {
+    if (!row.ticker.trim() && !row.shares.trim() && !row.avgCost.trim()) continue;
+    const [ticker] = parseTickerList(row.ticker);
+    const shares = Number(row.shares);
+    const avgCost = Number(row.avgCost);
+    const purchaseFx = row.purchaseFx.trim() ? Number(row.purchaseFx) : undefined;
+    if (!ticker) return `티커 "${row.ticker}" 형식이 올바르지 않습니다.`;
+    if (holdings.some(h => h.ticker === ticker)) return `${ticker}가 두 번 입력되었습니다. 평균 단가로 합쳐 한 줄로 입력하세요.`;
+    if (!(shares > 0)) return `${ticker}: 수량은 0보다 커야 합니다.`;
+    if (!(avgCost > 0)) return `${ticker}: 평균 단가(USD)는 0보다 커야 합니다.`;
+    if (purchaseFx !== undefined && !(purchaseFx > 0)) return `${ticker}: 매수 환율은 비워두거나 0보다 큰 값이어야 합니다.`;
+    holdings.push({ id: row.id, ticker, shares, avgCost, ...(purchaseFx && { purchaseFx }) });
+  }
+  return holdings;
+};
+
+const tone = (amount: number) => (amount > 0 ? 'text-emerald-600' : amount < 0 ? 'text-rose-600' : 'text-slate-600');
+
+const PnlBlock: React.FC<{ label: string; pnl: PnlBreakdown; base: number }> = ({ label, pnl, base }) => (
+  <div className="bg-slate-50 rounded-lg p-3">
+    <p className="text-xs font-semibold text-slate-500 mb-1">{label}</p>
+    <p className={`text-lg font-bold ${tone(pnl.krw)}`}>
+      {formatAmount(pnl.krw, 'KRW', { signed: true })}
+      <span className="text-sm font-medium ml-1.5">{formatPercent(pnlPercent(pnl.krw, base))}</span>
+    </p>
+    <p className={`text-xs ${tone(pnl.usd)}`}>{formatAmount(pnl.usd, 'USD', { signed: true })}</p>
+    <div className="flex gap-3 mt-1.5 text-[11px] text-slate-500">
+      <span>주가 효과 <span className={tone(pnl.stockEffectKrw)}>{formatAmount(pnl.stockEffectKrw, 'KRW', { signed: true })}</span></span>
+      <span>환율 효과 <span className={tone(pnl.fxEffectKrw)}>{formatAmount(pnl.fxEffectKrw, 'KRW', { signed: true })}</span></span>
+    </div>
+  </div>
+);
+
+export const PortfolioCard: React.FC<PortfolioCardProps> = ({ holdings, summary, onSave }) => {
+  const [draft, setDraft] = useState<DraftRow[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const startEditing = () => {
+    setDraft(holdings.length ? holdings.map(toDraft) : [emptyRow()]);
+    setError(null);
+  };
+
+  const updateRow = (id: string, field: keyof Omit<DraftRow, 'id'>, value: string) =>
+    setDraft(rows => rows && rows.map(row => (row.id === id ? { ...row, [field]: value } : row)));
+
+  const handleSave = () => {
+    if (!draft) return;
+    const parsed = parseDraft(draft);
+    if (typeof parsed === 'string') {
+      setError(parsed);
+      return;
+    }
+    onSave(parsed);
+    setDraft(null);
+  };
+
+  // Daily P&L is measured against yesterday's KRW value
+  const previousValueKrw = summary ? summary.valueKrw - summary.daily.krw : 0;
+
+  return (
+    <div className="lg:col-span-3 bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+          <Wallet className="h-5 w-5 text-blue-600" />
+          내 포트폴리오
+          {summary && (
+            <span className="text-xs font-normal text-slate-400">
+              USD/KRW {formatPrice(summary.fx)} · {new Date(summary.asOf).toLocaleString('ko-KR')} 기준
+            </span>
+          )}
+        </h2>
+        {!draft && (
+          <button
+            onClick={startEditing}
+            className="flex items-center gap-1.5 text-xs font-medium text-slate-600 hover:bg-slate-100 px-2.5 py-1.5 rounded-lg transition-colors"
+          >
+            <Pencil className="h-3.5 w-3.5" />
+            {holdings.length ? '보유 종목 편집' : '보유 종목 입력'}
+          </button>
+        )}
+      </div>
+
+      {draft ? (
+        <div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-xs text-slate-500">
+                <tr>
+                  <th className="text-left font-medium pb-2 pr-2">티커</th>
+                  <th className="text-left font-medium pb-2 pr-2">수량</th>
+                  <th className="text-left font-medium pb-2 pr-2">평균 단가 (USD)</th>
+                  <th className="text-left font-medium pb-2 pr-2">매수 환율 (선택, 원/달러)</th>
+                  <th className="pb-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {draft.map(row => (
+                  <tr key={row.id}>
+                    {(['ticker', 'shares', 'avgCost', 'purchaseFx'] as const).map(field => (
+                      <td key={field} className="pr-2 pb-2">
+                        <input
+                          value={row[field]}
+                          onChange={(e) => updateRow(row.id, field, e.target.value)}
+                          inputMode={field === 'ticker' ? 'text' : 'decimal'}
+                          placeholder={field === 'ticker' ? 'AAPL' : field === 'purchaseFx' ? '예: 1320.5' : ''}
+                          className="w-full border border-slate-200 rounded-lg px-2.5 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </td>
+                    ))}
+                    <td className="pb-2">
+                      <button
+                        onClick={() => setDraft(draft.filter(r => r.id !== row.id))}
+                        className="p-1.5 text-slate-400 hover:text-rose-500 rounded-lg"
+                        title="삭제"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {error && <p className="text-xs text-rose-600 mb-2">{error}</p>}
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setDraft([...draft, emptyRow()])}
+              className="flex items-center gap-1 text-xs text-slate-600 hover:bg-slate-100 px-2.5 py-1.5 rounded-lg"
+            >
+              <Plus className="h-3.5 w-3.5" /> 행 추가
+            </button>
+            <div className="ml-auto flex gap-2">
+              <button onClick={() => setDraft(null)} className="text-sm text-slate-600 hover:bg-slate-100 px-3 py-1.5 rounded-lg">
+                취소
+              </button>
+              <button onClick={handleSave} className="text-sm bg-blue-600 hover:bg-blue-700 text-white px-4 py-1.5 rounded-lg">
+                저장
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : holdings.length === 0 ? (
+        <p className="text-sm text-slate-500">
+          보유 종목(수량, 평균 단가, 매수 환율)을 입력하면 보고서 시세 기준으로 달러/원화 손익을 계산하고, 보고서에 "오늘의 내 포트폴리오" 섹션이 추가됩니다.
+        </p>
+      ) : !summary ? (
+        <p className="text-sm text-slate-500">USD/KRW 환율이 포함된 보고서를 생성하거나 불러오면 손익이 계산됩니다.</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="bg-slate-50 rounded-lg p-3">
+              <p className="text-xs font-semibold text-slate-500 mb-1">평가 금액</p>
+              <p className="text-lg font-bold text-slate-900">{formatAmount(summary.valueKrw, 'KRW')}</p>
+              <p className="text-xs text-slate-500">{formatAmount(summary.valueUsd, 'USD')}</p>
+            </div>
+            <PnlBlock label="오늘 손익" pnl={summary.daily} base={previousValueKrw} />
+            <PnlBlock label="누적 손익" pnl={summary.total} base={summary.costKrw} />
+          </div>
+
+          {summary.positions.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-xs text-slate-500 border-b border-slate-100">
+                  <tr>
+                    <th className="text-left font-medium py-2">종목</th>
+                    <th className="text-right font-medium py-2">수량</th>
+                    <th className="text-right font-medium py-2">평균 단가</th>
+                    <th className="text-right font-medium py-2">현재가</th>
+                    <th className="text-right font-medium py-2">오늘 (원)</th>
+                    <th className="text-right font-medium py-2">누적 (원)</th>
+                    <th className="text-right font-medium py-2">누적 수익률</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.positions.map(p => (
+                    <tr key={p.ticker} className="border-b border-slate-50 last:border-0">
+                      <td className="py-2">
+                        <span className="font-bold text-slate-900">{p.ticker}</span>
+                        <span className="text-xs text-slate-500 ml-1.5">{p.name}</span>
+                      </td>
+                      <td className="py-2 text-right text-slate-700">{p.shares.toLocaleString()}</td>
+                      <td className="py-2 text-right text-slate-700">{formatAmount(p.avgCost, 'USD')}</td>
+                      <td className="py-2 text-right text-slate-700">{formatPrice(p.quote)}</td>
+                      <td
+                        className={`py-2 text-right font-medium ${tone(p.daily.krw)}`}
+                        title={`주가 ${formatAmount(p.daily.stockEffectKrw, 'KRW', { signed: true })} · 환율 ${formatAmount(p.daily.fxEffectKrw, 'KRW', { signed: true })}`}
+                      >
+                        {formatAmount(p.daily.krw, 'KRW', { signed: true })}
+                      </td>
+                      <td
+                        className={`py-2 text-right font-medium ${tone(p.total.krw)}`}
+                        title={`주가 ${formatAmount(p.total.stockEffectKrw, 'KRW', { signed: true })} · 환율 ${formatAmount(p.total.fxEffectKrw, 'KRW', { signed: true })}`}
+                      >
+                        {formatAmount(p.total.krw, 'KRW', { signed: true })}
+                      </td>
+                      <td className={`py-2 text-right ${tone(p.total.krw)}`}>{formatPercent(pnlPercent(p.total.krw, p.costKrw))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {(summary.unquoted.length > 0 || summary.noPurchaseFx.length > 0) && (
+            <div className="text-xs text-slate-500 space-y-0.5">
+              {summary.unquoted.length > 0 && (
+                <p className="flex items-center gap-1.5">
+                  <Info className="h-3.5 w-3.5 shrink-0" />
+                  시세 없음 ({summary.unquoted.join(', ')}): 합계에서 제외했습니다. 다음 보고서부터 시세를 받아옵니다.
+                </p>
+              )}
+              {summary.noPurchaseFx.length > 0 && (
+                <p className="flex items-center gap-1.5">
+                  <Info className="h-3.5 w-3.5 shrink-0" />
+                  매수 환율 미입력 ({summary.noPurchaseFx.join(', ')}): 누적 손익의 환율 효과를 0으로 계산했습니다.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,174 @@
+import React, { useEffect, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { MessageSquare, Send, Loader2, Pin, PinOff, Search, Trash2, ExternalLink } from 'lucide-react';
+import { ChatMessage } from '../types';
+import { getModelLabel } from '../services/modelService';
+
+interface ReportChatProps {
+  chat: ChatMessage[];
+  pinnedMessageIds: string[];
+  disabled: boolean; // While a report is being generated
+  onAsk: (question: string, useSearch: boolean) => Promise<void>;
+  onTogglePin: (messageId: string) => void;
+  onClear: () => void;
+}
+
+const SUGGESTIONS = [
+  "나스닥이 올랐는데 반도체는 왜 부진했나요?",
+  "하락 종목 중 과매도 구간인 종목은?",
+  "오늘 흐름이 내일 한국 증시에 주는 시사점은?",
+];
+
+export const ReportChat: React.FC<ReportChatProps> = ({ chat, pinnedMessageIds, disabled, onAsk, onTogglePin, onClear }) => {
+  const [question, setQuestion] = useState('');
+  const [pending, setPending] = useState<string | null>(null);
+  const [useSearch, setUseSearch] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [chat.length, pending]);
+
+  const ask = async (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || pending) return;
+    setPending(trimmed);
+    setQuestion('');
+    setError(null);
+    try {
+      await onAsk(trimmed, useSearch);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setQuestion(trimmed);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden mb-6">
+      <div className="bg-slate-50 px-6 py-4 border-b border-slate-100 flex items-center gap-2">
+        <MessageSquare className="h-5 w-5 text-blue-600" />
+        <h3 className="font-semibold text-slate-900">보고서 Q&A</h3>
+        {chat.length > 0 && (
+          <button
+            onClick={() => { if (confirm("대화 기록을 모두 삭제할까요? 고정한 섹션은 유지됩니다.")) onClear(); }}
+            className="ml-auto p-1.5 text-slate-400 hover:text-rose-500 rounded-lg transition-colors"
+            title="대화 기록 삭제"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      <div className="p-6 space-y-4 max-h-[480px] overflow-y-auto">
+        {chat.length === 0 && !pending && (
+          <div className="text-sm text-slate-500">
+            <p className="mb-3">이 보고서에 대해 궁금한 점을 물어보세요. 답변은 보고서와 함께 저장되며, 보고서 섹션으로 고정할 수 있습니다.</p>
+            <div className="flex flex-wrap gap-2">
+              {SUGGESTIONS.map(s => (
+                <button
+                  key={s}
+                  onClick={() => ask(s)}
+                  disabled={disabled}
+                  className="text-xs bg-slate-100 hover:bg-slate-200 text-slate-600 px-3 py-1.5 rounded-full transition-colors disabled:opacity-50"
+                >
+                  {s}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {chat.map(message => message.role === 'user' ? (
+          <div key={message.id} className="flex justify-end">
+            <div className="bg-blue-600 text-white text-sm px-4 py-2 rounded-2xl rounded-br-sm max-w-[80%] whitespace-pre-wrap">
+              {message.text}
+            </div>
+          </div>
+        ) : (
+          <div key={message.id} className="flex flex-col items-start">
+            <div className="bg-slate-50 border border-slate-100 px-4 py-3 rounded-2xl rounded-bl-sm max-w-[90%] prose prose-sm prose-slate">
+              <ReactMarkdown>{message.text}</ReactMarkdown>
+              {message.citations && message.citations.length > 0 && (
+                <div className="not-prose flex flex-wrap gap-1.5 mt-2">
+                  {message.citations.map((c, i) => (
+                    <a
+                      key={i}
+                      href={c.uri}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-[11px] text-slate-500 bg-white border border-slate-200 hover:bg-slate-100 px-2 py-0.5 rounded-full"
+                    >
+                      <ExternalLink className="h-3 w-3" />
+                      {c.title || `출처 ${i + 1}`}
+                    </a>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="flex items-center gap-2 mt-1 text-[11px] text-slate-400">
+              {message.grounded && <span className="flex items-center gap-0.5"><Search className="h-3 w-3" /> 검색 사용</span>}
+              {message.model && <span>{getModelLabel(message.model)}</span>}
+              <button
+                onClick={() => onTogglePin(message.id)}
+                className="flex items-center gap-1 hover:text-blue-600 transition-colors"
+              >
+                {pinnedMessageIds.includes(message.id)
+                  ? <><PinOff className="h-3 w-3" /> 고정 해제</>
+                  : <><Pin className="h-3 w-3" /> 보고서에 고정</>}
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {pending && (
+          <>
+            <div className="flex justify-end">
+              <div className="bg-blue-600/70 text-white text-sm px-4 py-2 rounded-2xl rounded-br-sm max-w-[80%] whitespace-pre-wrap">{pending}</div>
+            </div>
+            <div className="flex items-center gap-2 text-sm text-slate-400">
+              <Loader2 className="h-4 w-4 animate-spin" /> 답변 작성 중...
+            </div>
+          </>
+        )}
+        <div ref={endRef} />
+      </div>
+
+      <div className="border-t border-slate-100 p-4">
+        {error && <p className="text-xs text-rose-600 mb-2">{error}</p>}
+        <form
+          onSubmit={(e) => { e.preventDefault(); ask(question); }}
+          className="flex items-end gap-2"
+        >
+          <textarea
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+                e.preventDefault();
+                ask(question);
+              }
+            }}
+            rows={2}
+            placeholder={disabled ? "보고서 생성이 끝난 뒤 질문할 수 있습니다." : "보고서에 대해 질문하세요 (Shift+Enter 줄바꿈)"}
+            disabled={disabled || !!pending}
+            className="flex-1 resize-none text-sm border border-slate-200 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-slate-50"
+          />
+          <button
+            type="submit"
+            disabled={disabled || !!pending || !question.trim()}
+            className="p-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <Send className="h-4 w-4" />
+          </button>
+        </form>
+        <label className="flex items-center gap-2 mt-2 text-xs text-slate-500 cursor-pointer">
+          <input type="checkbox" checked={useSearch} onChange={(e) => setUseSearch(e.target.checked)} className="rounded" />
+          Google 검색으로 최신 정보 보강 (보고서 밖의 내용이 필요한 질문)
+        </label>
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,42 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { Report, StockItem } from '../types';
-import { Calendar, Loader2, TrendingUp, TrendingDown, FileText, Globe, Lightbulb, BrainCircuit, Copy, Check, Share2 } from 'lucide-react';
+import { MarketDataSourceId, Report, ReportIssue, ReportProgress, ReportSection, ReportSources, SectionStatus, SessionMode, StockAnalysis, StockItem, WatchlistEntry, WatchlistItem } from '../types';
+import { Calendar, Loader2, TrendingUp, TrendingDown, FileText, Globe, Lightbulb, BrainCircuit, Copy, Check, Share2, Database, AlertTriangle, Wrench, ChevronDown, ChevronUp, BookOpen, X, XCircle, Search, ExternalLink, Cpu, Download, Upload, FileCode, FileJson, Printer, CalendarRange, Sunrise, Activity, Moon, Zap, Pin, PinOff, Star, Plus, ArrowDownWideNarrow, Wallet } from 'lucide-react';
 import { StockDetailModal } from './StockDetailModal';
+import { ReportChat } from './ReportChat';
+import { CalendarPanel } from './CalendarPanel';
+import { DATA_SOURCE_LABELS } from '../services/marketDataService';
+import { SECTION_LABELS, formatSourcesText } from '../services/groundingService';
+import { getModelLabel } from '../services/modelService';
+import { SESSION_MODES } from '../services/sessionModes';
+import { getTopListTitle, parseTickerList } from '../services/universeService';
+import { formatChange, formatChangePercent, formatPrice } from '../services/quotes';
+import { pinAnswer } from '../services/reportChatService';
+import { WatchlistOrder, isWatched, sortWatchlist } from '../services/watchlistService';
+import { downloadFile, escapeTableCell, exportReportJson, getExportFileName, printReport, reportToHtml, reportToMarkdown } from '../services/exportService';
 
 interface ReportViewProps {
   report: Report | null;
+  progress: ReportProgress | null; // Partial report while streaming or after a failed run
   loading: boolean;
   onGenerate: () => void;
+  onCancel: () => void;
+  primaryModel: string;
+  dataSource: MarketDataSourceId;
+  onChangeDataSource: (source: MarketDataSourceId) => void;
+  sessionMode: SessionMode;
+  onChangeSessionMode: (mode: SessionMode) => void;
+  onRepair: () => void;
+  repairing: boolean;
+  autoRepair: boolean;
+  onChangeAutoRepair: (enabled: boolean) => void;
+  onImport: (file: File) => void;
+  onAnalyzeStock: (stock: StockItem, force: boolean) => Promise<StockAnalysis>;
+  onAskReport: (question: string, useSearch: boolean) => Promise<void>;
+  onUpdateReport: (update: (stored: Report) => Report) => void; // Saves a change to the open report
+  watchlist: WatchlistItem[];
+  onWatch: (stocks: { ticker: string; name?: string }[]) => void;
+  onUnwatch: (ticker: string) => void;
 }
 
 // Helper component for Copy/Share buttons
@@ -61,17 +90,169 @@ const HeaderActions: React.FC<{ content: string; title: string }> = ({ content,
   );
 };
 
+const SESSION_BADGE_STYLES: Record<SessionMode, { icon: React.ElementType; className: string }> = {
+  preMarket: { icon: Sunrise, className: 'text-orange-700 bg-orange-50' },
+  intraday: { icon: Activity, className: 'text-emerald-700 bg-emerald-50' },
+  postClose: { icon: Moon, className: 'text-slate-700 bg-slate-200' },
+};
+
+// Download menu for a finished report (Markdown, HTML, print-to-PDF, JSON)
+const ExportMenu: React.FC<{ report: Report }> = ({ report }) => {
+  const [open, setOpen] = useState(false);
+
+  const run = (action: () => void) => {
+    setOpen(false);
+    try {
+      action();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const options = [
+    { label: 'Markdown (.md)', icon: FileText, action: () => downloadFile(getExportFileName(report, 'md'), reportToMarkdown(report), 'text/markdown') },
+    { label: 'HTML (.html)', icon: FileCode, action: () => downloadFile(getExportFileName(report, 'html'), reportToHtml(report), 'text/html') },
+    { label: 'PDF (인쇄)', icon: Printer, action: () => printReport(report) },
+    { label: 'JSON (.json)', icon: FileJson, action: () => downloadFile(getExportFileName(report, 'json'), exportReportJson(report), 'application/json') },
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="text-xs text-slate-600 bg-slate-100 hover:bg-slate-200 px-3 py-1 rounded-full w-fit flex items-center gap-1 transition-colors"
+      >
+        <Download className="h-3 w-3" />
+        내보내기
+      </button>
+      {open && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setOpen(false)}></div>
+          <div className="absolute right-0 mt-2 z-20 w-44 bg-white rounded-lg border border-slate-200 shadow-lg py-1">
+            {options.map(({ label, icon: Icon, action }) => (
+              <button
+                key={label}
+                onClick={() => run(action)}
+                className="w-full flex items-center gap-2 px-3 py-2 text-sm text-slate-700 hover:bg-slate-50"
+              >
+                <Icon className="h-4 w-4 text-slate-400" />
+                {label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+// Numbered source links shown under a section
+const SourceFootnotes: React.FC<{ sources?: ReportSources; section: ReportSection }> = ({ sources, section }) => {
+  const indices = sources?.sections[section] || [];
+  if (!sources || indices.length === 0) return null;
+
+  return (
+    <div className="px-6 py-3 border-t border-slate-100 bg-slate-50/50 text-xs text-slate-500 flex flex-wrap gap-x-3 gap-y-1">
+      <span className="font-semibold text-slate-600">출처</span>
+      {indices.map(i => (
+        <a
+          key={i}
+          href={sources.citations[i].uri}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="hover:text-blue-600 underline decoration-slate-300 underline-offset-2"
+        >
+          [{i + 1}] {sources.citations[i].title}
+        </a>
+      ))}
+    </div>
+  );
+};
+
 // Updated SectionBox with actions
-const SectionBox: React.FC<{ title: string; icon?: React.ReactNode; children: React.ReactNode; content: string; className?: string }> = ({ title, icon, children, content, className = "" }) => (
+interface SectionBoxProps {
+  title: string;
+  icon?: React.ReactNode;
+  children: React.ReactNode;
+  content: string;
+  className?: string;
+  sources?: ReportSources;
+  section?: ReportSection;
+}
+
+export const SectionBox: React.FC<SectionBoxProps> = ({ title, icon, children, content, className = "", sources, section }) => (
   <div className={`bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden mb-6 ${className}`}>
     <div className="bg-slate-50 px-6 py-4 border-b border-slate-100 flex items-center gap-2">
       {icon}
       <h3 className="font-semibold text-slate-900">{title}</h3>
-      <HeaderActions title={title} content={content} />
+      <HeaderActions title={title} content={content + (section ? formatSourcesText(sources, section) : '')} />
     </div>
     <div className="p-6 prose prose-slate max-w-none prose-p:text-slate-700 prose-headings:text-slate-900 prose-li:text-slate-700">
       {children}
     </div>
+    {section && <SourceFootnotes sources={sources} section={section} />}
+  </div>
+);
+
+// Side drawer listing every search query and source behind the report
+const SourcesDrawer: React.FC<{ sources: ReportSources; onClose: () => void }> = ({ sources, onClose }) => (
+  <div className="fixed inset-0 z-[105] flex justify-end">
+    <div className="absolute inset-0 bg-slate-900/30" onClick={onClose}></div>
+    <div className="relative z-10 w-full max-w-md bg-white h-full shadow-2xl flex flex-col">
+      <div className="px-6 py-4 border-b border-slate-100 flex items-center gap-2">
+        <BookOpen className="h-5 w-5 text-blue-600" />
+        <h3 className="font-semibold text-slate-900">출처 및 검색 기록</h3>
+        <div className="ml-auto flex items-center gap-1">
+          <HeaderActions title="보고서 출처" content={formatSourcesText(sources).trim()} />
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-600 rounded-lg">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+      <div className="p-6 overflow-y-auto space-y-6 text-sm">
+        {sources.queries.length > 0 && (
+          <div>
+            <h4 className="text-xs font-semibold text-slate-500 uppercase mb-2">검색 쿼리</h4>
+            <div className="flex flex-wrap gap-2">
+              {sources.queries.map(q => (
+                <span key={q} className="flex items-center gap-1 bg-slate-100 text-slate-600 px-2 py-1 rounded-md text-xs">
+                  <Search className="h-3 w-3" />
+                  {q}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+        <div>
+          <h4 className="text-xs font-semibold text-slate-500 uppercase mb-2">출처 ({sources.citations.length})</h4>
+          <ol className="space-y-2">
+            {sources.citations.map((citation, i) => {
+              const usedIn = (Object.keys(sources.sections) as ReportSection[]).filter(sec => sources.sections[sec]?.includes(i));
+              return (
+                <li key={citation.uri + i} className="flex gap-2">
+                  <span className="text-slate-400 font-mono shrink-0">[{i + 1}]</span>
+                  <div className="min-w-0">
+                    <a
+                      href={citation.uri}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-700 hover:underline flex items-center gap-1 break-all"
+                    >
+                      {citation.title}
+                      <ExternalLink className="h-3 w-3 shrink-0" />
+                    </a>
+                    {usedIn.length > 0 && (
+                      <p className="text-xs text-slate-400 mt-0.5">{usedIn.map(sec => SECTION_LABELS[sec]).join(', ')}</p>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+          {sources.citations.length === 0 && <p className="text-slate-400">출처 정보가 없습니다.</p>}
+        </div>
+      </div>
+    </div>
   </div>
 );
 
@@ -82,9 +263,22 @@ interface StockTableProps {
   type: 'gainer' | 'loser' | 'neutral';
   icon?: React.ReactNode;
   onItemClick: (item: StockItem) => void;
+  sourcesText?: string; // Appended to copied/shared text
+  watchlist?: WatchlistItem[]; // Star buttons are shown when given together with onToggleWatch
+  onToggleWatch?: (item: StockItem) => void;
 }
 
-const StockTable: React.FC<StockTableProps> = ({ title, items, type, icon, onItemClick }) => {
+const WatchButton: React.FC<{ watched: boolean; onClick: () => void }> = ({ watched, onClick }) => (
+  <button
+    onClick={(e) => { e.stopPropagation(); onClick(); }}
+    className={`p-0.5 rounded transition-colors ${watched ? 'text-amber-400 hover:text-amber-500' : 'text-slate-300 hover:text-amber-400'}`}
+    title={watched ? '관심종목에서 제거' : '관심종목에 추가'}
+  >
+    <Star className="h-3.5 w-3.5" fill={watched ? 'currentColor' : 'none'} />
+  </button>
+);
+
+export const StockTable: React.FC<StockTableProps> = ({ title, items, type, icon, onItemClick, sourcesText = '', watchlist, onToggleWatch }) => {
   let headerColor = "";
   let iconColor = "";
   let textColor = "";
@@ -111,8 +305,8 @@ const StockTable: React.FC<StockTableProps> = ({ title, items, type, icon, onIte
   const formatTableData = () => {
     if (items.length === 0) return `${title}\n데이터 없음`;
     const header = `${title}\n티커 | 종목명 | 현재가 | 등락률`;
-    const rows = items.map(item => `${item.ticker} | ${item.name} | ${item.price} | ${item.change}`).join('\n');
-    return `${header}\n${rows}`;
+    const rows = items.map(item => `${item.ticker} | ${item.name} | ${formatPrice(item.quote)} | ${formatChangePercent(item.quote)}`).join('\n');
+    return `${header}\n${rows}${sourcesText}`;
   };
 
   return (
@@ -140,18 +334,28 @@ const StockTable: React.FC<StockTableProps> = ({ title, items, type, icon, onIte
                 className="border-b border-slate-100 last:border-0 hover:bg-slate-50 cursor-pointer transition-colors"
                 title="클릭하여 상세 차트 보기"
               >
-                <td className="px-4 py-3 font-bold text-slate-900 whitespace-nowrap">{item.ticker}</td>
+                <td className="px-4 py-3 font-bold text-slate-900 whitespace-nowrap">
+                  <span className="flex items-center gap-1">
+                    {item.ticker}
+                    {watchlist && onToggleWatch && (
+                      <WatchButton watched={isWatched(watchlist, item.ticker)} onClick={() => onToggleWatch(item)} />
+                    )}
+                  </span>
+                </td>
                 <td className="px-4 py-3 text-slate-600 break-words min-w-[100px]">
                   {item.name}
                 </td>
                 <td className="px-4 py-3 text-right font-medium text-slate-800 whitespace-nowrap">
-                  {item.price}
+                  {formatPrice(item.quote)}
                 </td>
-                <td className={`px-4 py-3 text-right font-semibold whitespace-nowrap ${
-                    item.change.startsWith('+') || type === 'gainer' ? 'text-emerald-600' : 
-                    item.change.startsWith('-') || type === 'loser' ? 'text-rose-600' : 'text-slate-600'
-                  }`}>
-                  {item.change}
+                <td
+                  className={`px-4 py-3 text-right font-semibold whitespace-nowrap ${
+                    item.quote.changePercent > 0 || type === 'gainer' ? 'text-emerald-600' : 
+                    item.quote.changePercent < 0 || type === 'loser' ? 'text-rose-600' : 'text-slate-600'
+                  }`}
+                  title={formatChange(item.quote)}
+                >
+                  {formatChangePercent(item.quote)}
                 </td>
               </tr>
             ))}
@@ -167,8 +371,263 @@ const StockTable: React.FC<StockTableProps> = ({ title, items, type, icon, onIte
   );
 }
 
-export const ReportView: React.FC<ReportViewProps> = ({ report, loading, onGenerate }) => {
+// The report's 내 관심종목 rows plus the controls for the persistent watchlist behind them
+interface WatchlistTableProps {
+  entries: WatchlistEntry[]; // As quoted for this report
+  watchlist: WatchlistItem[]; // Current saved watchlist
+  status: SectionStatus; // Comments still streaming or failed
+  onItemClick: (item: StockItem) => void;
+  onWatch: (stocks: { ticker: string; name?: string }[]) => void;
+  onUnwatch: (ticker: string) => void;
+}
+
+const WatchlistTable: React.FC<WatchlistTableProps> = ({ entries, watchlist, status, onItemClick, onWatch, onUnwatch }) => {
+  const [order, setOrder] = useState<WatchlistOrder>('added');
+  const [input, setInput] = useState('');
+  const [inputError, setInputError] = useState<string | null>(null);
+  // Added since this report was generated; quoted from the next report on
+  const upcoming = watchlist.filter(item => !entries.some(e => e.ticker === item.ticker));
+
+  const handleAdd = () => {
+    const tickers = parseTickerList(input);
+    if (tickers.length === 0) {
+      setInputError('티커 형식이 올바르지 않습니다. 예: AAPL, BRK.B');
+      return;
+    }
+    onWatch(tickers.map(ticker => ({ ticker })));
+    setInput('');
+    setInputError(null);
+  };
+
+  const formatTableData = () => {
+    const header = `내 관심종목\n티커 | 종목명 | 현재가 | 등락률 | 코멘트`;
+    const rows = sortWatchlist(entries, order).map(e =>
+      `${e.ticker} | ${e.name} | ${e.quote ? formatPrice(e.quote) : '-'} | ${e.quote ? formatChangePercent(e.quote) : '-'} | ${escapeTableCell(e.comment)}`
+    ).join('\n');
+    return entries.length ? `${header}\n${rows}` : `${header}\n데이터 없음`;
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 flex flex-wrap items-center gap-2 bg-amber-50">
+        <Star className="h-5 w-5 text-amber-500" fill="currentColor" />
+        <h3 className="font-semibold text-amber-900">내 관심종목</h3>
+        <button
+          onClick={() => setOrder(order === 'added' ? 'move' : 'added')}
+          className={`flex items-center gap-1 text-xs px-2 py-1 rounded-lg transition-colors ${order === 'move' ? 'bg-amber-200/70 text-amber-900' : 'text-slate-500 hover:bg-amber-100'}`}
+          title="등락폭(절대값) 큰 순으로 정렬"
+        >
+          <ArrowDownWideNarrow className="h-3.5 w-3.5" />
+          {order === 'move' ? '등락폭순' : '추가순'}
+        </button>
+        <HeaderActions title="내 관심종목" content={formatTableData()} />
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-slate-500 uppercase bg-slate-50/50">
+            <tr>
+              <th className="px-4 py-3 w-[90px] whitespace-nowrap">티커</th>
+              <th className="px-4 py-3 w-[140px]">종목명</th>
+              <th className="px-4 py-3 w-[100px] text-right whitespace-nowrap">현재가</th>
+              <th className="px-4 py-3 w-[80px] text-right whitespace-nowrap">등락률</th>
+              <th className="px-4 py-3">AI 코멘트</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sortWatchlist(entries, order).map(entry => {
+              const { quote } = entry;
+              return (
+                <tr
+                  key={entry.ticker}
+                  onClick={() => quote && onItemClick({ ticker: entry.ticker, name: entry.name, quote })}
+                  className={`border-b border-slate-100 last:border-0 transition-colors ${quote ? 'hover:bg-slate-50 cursor-pointer' : ''}`}
+                >
+                  <td className="px-4 py-3 font-bold text-slate-900 whitespace-nowrap">
+                    <span className="flex items-center gap-1">
+                      {entry.ticker}
+                      <WatchButton
+                        watched={isWatched(watchlist, entry.ticker)}
+                        onClick={() => isWatched(watchlist, entry.ticker) ? onUnwatch(entry.ticker) : onWatch([entry])}
+                      />
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-slate-600 break-words">{entry.name}</td>
+                  <td className="px-4 py-3 text-right font-medium text-slate-800 whitespace-nowrap">
+                    {quote ? formatPrice(quote) : <span className="text-slate-400">시세 없음</span>}
+                  </td>
+                  <td
+                    className={`px-4 py-3 text-right font-semibold whitespace-nowrap ${
+                      !quote || quote.changePercent === 0 ? 'text-slate-600' : quote.changePercent > 0 ? 'text-emerald-600' : 'text-rose-600'
+                    }`}
+                    title={quote && formatChange(quote)}
+                  >
+                    {quote ? formatChangePercent(quote) : '-'}
+                  </td>
+                  <td className="px-4 py-3 text-slate-600">
+                    {entry.comment || (status === 'pending'
+                      ? <span className="flex items-center gap-1 text-slate-400"><Loader2 className="h-3 w-3 animate-spin" /> 작성 중...</span>
+                      : <span className="text-slate-400">-</span>)}
+                  </td>
+                </tr>
+              );
+            })}
+            {entries.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-6 py-4 text-center text-slate-400">
+                  {watchlist.length === 0
+                    ? '관심종목이 없습니다. 표의 별 아이콘이나 아래 입력창으로 추가하세요.'
+                    : '이 보고서는 관심종목을 추가하기 전에 생성되었습니다.'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="border-t border-slate-100 px-6 py-3 space-y-2">
+        {upcoming.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1.5 text-xs text-slate-500">
+            <span>다음 보고서부터 반영:</span>
+            {upcoming.map(item => (
+              <span key={item.ticker} className="inline-flex items-center gap-1 bg-slate-100 text-slate-700 px-2 py-0.5 rounded-full">
+                {item.ticker}
+                <button onClick={() => onUnwatch(item.ticker)} className="text-slate-400 hover:text-rose-500" title="관심종목에서 제거">
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <form onSubmit={(e) => { e.preventDefault(); handleAdd(); }} className="flex items-center gap-2">
+          <input
+            value={input}
+            onChange={(e) => { setInput(e.target.value); setInputError(null); }}
+            placeholder="티커 입력 (예: AAPL, MSFT)"
+            className="flex-1 max-w-xs text-sm border border-slate-200 rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-amber-400"
+          />
+          <button
+            type="submit"
+            disabled={!input.trim()}
+            className="flex items-center gap-1 text-sm text-amber-700 hover:bg-amber-50 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" /> 추가
+          </button>
+          {inputError && <span className="text-xs text-rose-600">{inputError}</span>}
+        </form>
+      </div>
+    </div>
+  );
+};
+
+// Validation issues attached to the report by the post-generation validator
+interface IssuesPanelProps {
+  issues: ReportIssue[];
+  onRepair: () => void;
+  repairing: boolean;
+  autoRepair: boolean;
+  onChangeAutoRepair: (enabled: boolean) => void;
+}
+
+const IssuesPanel: React.FC<IssuesPanelProps> = ({ issues, onRepair, repairing, autoRepair, onChangeAutoRepair }) => {
+  const [expanded, setExpanded] = useState(false);
+  const errors = issues.filter(i => i.severity === 'error' && !i.fixed);
+  const warnings = issues.filter(i => i.severity === 'warning' || i.fixed);
+
+  return (
+    <div className={`rounded-xl border p-4 ${errors.length > 0 ? 'bg-rose-50 border-rose-200' : 'bg-amber-50 border-amber-200'}`}>
+      <div className="flex flex-wrap items-center gap-3">
+        <AlertTriangle className={`h-5 w-5 ${errors.length > 0 ? 'text-rose-600' : 'text-amber-600'}`} />
+        <span className="text-sm font-semibold text-slate-800">
+          데이터 검증 결과: 오류 {errors.length}건 · 경고 {warnings.length}건
+        </span>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-800"
+        >
+          {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          {expanded ? '접기' : '자세히'}
+        </button>
+        <div className="ml-auto flex items-center gap-3">
+          <label className="flex items-center gap-1.5 text-xs text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={autoRepair}
+              onChange={(e) => onChangeAutoRepair(e.target.checked)}
+            />
+            생성 시 자동 수정
+          </label>
+          {errors.length > 0 && (
+            <button
+              onClick={onRepair}
+              disabled={repairing}
+              className="flex items-center gap-1.5 text-xs font-medium bg-white border border-rose-200 text-rose-700 hover:bg-rose-100 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-60"
+            >
+              {repairing ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Wrench className="h-3.5 w-3.5" />}
+              AI로 오류 수정
+            </button>
+          )}
+        </div>
+      </div>
+      {expanded && (
+        <ul className="mt-3 space-y-1 text-xs">
+          {issues.map((issue, idx) => (
+            <li key={idx} className="flex gap-2">
+              <span className={`font-bold shrink-0 ${issue.fixed ? 'text-slate-400' : issue.severity === 'error' ? 'text-rose-600' : 'text-amber-600'}`}>
+                {issue.fixed ? '수정됨' : issue.severity === 'error' ? '오류' : '경고'}
+              </span>
+              <code className="text-slate-500 shrink-0">{issue.path}</code>
+              <span className="text-slate-700">{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// Stand-in for a section that is still streaming or failed to arrive
+const SectionPlaceholder: React.FC<{ title: string; status: SectionStatus; height?: string; className?: string }> = ({
+  title, status, height = "h-48", className = ""
+}) => (
+  status === 'error' ? (
+    <div className={`rounded-xl border border-rose-200 bg-rose-50 p-6 flex items-center gap-3 text-sm text-rose-700 ${className}`}>
+      <AlertTriangle className="h-5 w-5 shrink-0" />
+      <span><strong>{title}</strong> 섹션을 불러오지 못했습니다.</span>
+    </div>
+  ) : (
+    <div className={`rounded-xl bg-slate-200 animate-pulse flex items-center justify-center text-sm text-slate-400 ${height} ${className}`}>
+      <Loader2 className="h-4 w-4 animate-spin mr-2" />
+      {title} 작성 중...
+    </div>
+  )
+);
+
+export const ReportView: React.FC<ReportViewProps> = ({
+  report, progress, loading, onGenerate, onCancel, primaryModel, dataSource, onChangeDataSource, sessionMode, onChangeSessionMode, onRepair, repairing, autoRepair, onChangeAutoRepair, onImport, onAnalyzeStock, onAskReport, onUpdateReport, watchlist, onWatch, onUnwatch
+}) => {
   const [selectedStock, setSelectedStock] = useState<StockItem | null>(null);
+  const [isSourcesOpen, setIsSourcesOpen] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // While generating (or after a failed run) the partial report is shown instead of the last finished one
+  const view: Partial<Report> | null = progress ? progress.report : report;
+  const statusOf = (section: ReportSection): SectionStatus => progress ? progress.sections[section] : 'ready';
+  const marketDataSources = formatSourcesText(view?.sources, 'marketData');
+  const gainersTitle = getTopListTitle(view?.universe, 'gainers');
+  const losersTitle = getTopListTitle(view?.universe, 'losers');
+
+  const handleToggleWatch = (stock: StockItem) =>
+    isWatched(watchlist, stock.ticker) ? onUnwatch(stock.ticker) : onWatch([stock]);
+
+  const handleTogglePin = (messageId: string) => onUpdateReport(stored => {
+    const pinned = stored.pinnedSections || [];
+    if (pinned.some(p => p.messageId === messageId)) {
+      return { ...stored, pinnedSections: pinned.filter(p => p.messageId !== messageId) };
+    }
+    const section = pinAnswer(stored.chat || [], messageId);
+    return section ? { ...stored, pinnedSections: [...pinned, section] } : stored;
+  });
 
   return (
     <div className="min-h-[400px]">
@@ -177,30 +636,86 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, loading, onGener
           <div>
             <h2 className="text-xl font-bold text-slate-900">AI 심층 시장 분석</h2>
             <p className="text-slate-500 text-sm mt-1">
-              Gemini 3 Pro 모델이 실시간 데이터를 기반으로 분석합니다.
+              {getModelLabel(primaryModel)} 모델이 시장 데이터 제공자의 수치를 기반으로 분석합니다.
             </p>
           </div>
-          <button
-            onClick={onGenerate}
-            disabled={loading}
-            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-5 py-2.5 rounded-lg font-medium transition-all shadow-md hover:shadow-lg disabled:opacity-70 disabled:cursor-not-allowed"
-          >
-            {loading ? (
-              <>
-                <Loader2 className="h-4 w-4 animate-spin" />
-                <span>분석 중...</span>
-              </>
-            ) : (
-              <>
-                <Calendar className="h-4 w-4" />
-                <span>지금 분석 보고서 생성</span>
-              </>
+          <div className="flex items-center gap-3">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImport(file);
+                e.target.value = '';
+              }}
+            />
+            <button
+              onClick={() => importInputRef.current?.click()}
+              disabled={loading}
+              className="flex items-center gap-2 text-sm text-slate-600 hover:bg-slate-100 px-3 py-2 rounded-lg transition-colors disabled:opacity-50"
+              title="내보낸 JSON 보고서 가져오기"
+            >
+              <Upload className="h-4 w-4 text-slate-400" />
+              <span className="hidden md:inline">JSON 가져오기</span>
+            </button>
+            <select
+              value={sessionMode}
+              onChange={(e) => onChangeSessionMode(e.target.value as SessionMode)}
+              disabled={loading}
+              className="rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+              title={SESSION_MODES[sessionMode].description}
+            >
+              {Object.values(SESSION_MODES).map(mode => (
+                <option key={mode.id} value={mode.id}>{mode.label}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <Database className="h-4 w-4 text-slate-400" />
+              <select
+                value={dataSource}
+                onChange={(e) => onChangeDataSource(e.target.value as MarketDataSourceId)}
+                disabled={loading}
+                className="rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                title="시장 데이터 제공자"
+              >
+                {(Object.keys(DATA_SOURCE_LABELS) as MarketDataSourceId[]).map(id => (
+                  <option key={id} value={id}>{DATA_SOURCE_LABELS[id]}</option>
+                ))}
+              </select>
+            </label>
+            {loading && (
+              <button
+                onClick={onCancel}
+                className="flex items-center gap-2 border border-slate-200 text-slate-600 hover:bg-slate-100 px-4 py-2.5 rounded-lg font-medium transition-colors"
+              >
+                <XCircle className="h-4 w-4" />
+                <span>취소</span>
+              </button>
             )}
-          </button>
+            <button
+              onClick={onGenerate}
+              disabled={loading}
+              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-5 py-2.5 rounded-lg font-medium transition-all shadow-md hover:shadow-lg disabled:opacity-70 disabled:cursor-not-allowed"
+            >
+              {loading ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  <span>분석 중...</span>
+                </>
+              ) : (
+                <>
+                  <Calendar className="h-4 w-4" />
+                  <span>지금 분석 보고서 생성</span>
+                </>
+              )}
+            </button>
+          </div>
         </div>
       </div>
 
-      {!report && !loading && (
+      {!view && !loading && (
         <div className="bg-white rounded-xl border border-dashed border-slate-300 p-12 flex flex-col items-center justify-center text-slate-400">
           <Calendar className="h-12 w-12 mb-3 opacity-20" />
           <p className="text-lg font-medium">아직 생성된 보고서가 없습니다.</p>
@@ -208,7 +723,7 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, loading, onGener
         </div>
       )}
 
-      {loading && (
+      {loading && !view && (
         <div className="space-y-6 animate-pulse">
           <div className="h-48 bg-slate-200 rounded-xl w-full"></div>
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -219,97 +734,284 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, loading, onGener
         </div>
       )}
 
-      {report && !loading && (
+      {view && (
         <div className="animate-fade-in space-y-6">
           {/* Header Section */}
           <div className="flex flex-col md:flex-row md:items-end justify-between gap-2 pb-2">
-             <h1 className="text-2xl font-bold text-slate-900">{report.reportTitle}</h1>
-             <div className="text-sm text-slate-500 bg-slate-100 px-3 py-1 rounded-full w-fit">
-               {report.date} 기준
+             <h1 className="text-2xl font-bold text-slate-900">
+               {view.reportTitle || (loading ? '보고서 작성 중...' : '시장 분석 보고서')}
+             </h1>
+             <div className="flex flex-wrap items-center gap-2">
+               {view.sessionMode && (() => {
+                 const { icon: Icon, className } = SESSION_BADGE_STYLES[view.sessionMode];
+                 return (
+                   <div className={`text-xs px-3 py-1 rounded-full w-fit flex items-center gap-1 ${className}`} title={SESSION_MODES[view.sessionMode].description}>
+                     <Icon className="h-3 w-3" />
+                     {SESSION_MODES[view.sessionMode].label}
+                   </div>
+                 );
+               })()}
+               {view.weekendRecap && (
+                 <div className="text-xs text-indigo-700 bg-indigo-50 px-3 py-1 rounded-full w-fit flex items-center gap-1">
+                   <CalendarRange className="h-3 w-3" />
+                   주간 정리
+                 </div>
+               )}
+               {view.model && (
+                 <div className="text-xs text-slate-500 bg-slate-100 px-3 py-1 rounded-full w-fit flex items-center gap-1" title={view.model}>
+                   <Cpu className="h-3 w-3" />
+                   {getModelLabel(view.model)}
+                 </div>
+               )}
+               {view.dataSource && (
+                 <div className="text-xs text-slate-500 bg-slate-100 px-3 py-1 rounded-full w-fit flex items-center gap-1" title={view.dataAsOf}>
+                   <Database className="h-3 w-3" />
+                   {DATA_SOURCE_LABELS[view.dataSource]}
+                   {view.dataAsOf && ` · ${new Date(view.dataAsOf).toLocaleString('ko-KR')}`}
+                 </div>
+               )}
+               {view.sources && view.sources.citations.length > 0 && (
+                 <button
+                   onClick={() => setIsSourcesOpen(true)}
+                   className="text-xs text-blue-700 bg-blue-50 hover:bg-blue-100 px-3 py-1 rounded-full w-fit flex items-center gap-1 transition-colors"
+                 >
+                   <BookOpen className="h-3 w-3" />
+                   출처 {view.sources.citations.length}
+                 </button>
+               )}
+               {view.date && (
+                 <div className="text-sm text-slate-500 bg-slate-100 px-3 py-1 rounded-full w-fit">
+                   {view.date} 기준
+                 </div>
+               )}
+               {!progress && report && <ExportMenu report={report} />}
              </div>
           </div>
 
+          {view.issues && view.issues.length > 0 && (
+            <IssuesPanel
+              issues={view.issues}
+              onRepair={onRepair}
+              repairing={repairing}
+              autoRepair={autoRepair}
+              onChangeAutoRepair={onChangeAutoRepair}
+            />
+          )}
+
           {/* 1. Market Overview */}
-          <SectionBox 
-            title="시장 동향 분석" 
-            icon={<FileText className="h-5 w-5 text-blue-500" />}
-            content={report.marketOverview}
-          >
-            <ReactMarkdown>{report.marketOverview}</ReactMarkdown>
-          </SectionBox>
+          {statusOf('marketOverview') === 'ready' ? (
+            <SectionBox 
+              title="시장 동향 분석" 
+              icon={<FileText className="h-5 w-5 text-blue-500" />}
+              content={view.marketOverview || ''}
+              sources={view.sources}
+              section="marketOverview"
+            >
+              <ReactMarkdown>{view.marketOverview}</ReactMarkdown>
+            </SectionBox>
+          ) : (
+            <SectionPlaceholder title="시장 동향 분석" status={statusOf('marketOverview')} />
+          )}
+
+          {/* 1-1. Session-specific highlights (reports saved before session modes have none) */}
+          {view.sessionMode && (statusOf('sessionHighlights') === 'ready' ? (
+            view.sessionHighlights && (
+              <SectionBox
+                title={SESSION_MODES[view.sessionMode].highlightsLabel}
+                icon={<Zap className="h-5 w-5 text-orange-500" />}
+                content={view.sessionHighlights}
+                sources={view.sources}
+                section="sessionHighlights"
+              >
+                <ReactMarkdown>{view.sessionHighlights}</ReactMarkdown>
+              </SectionBox>
+            )
+          ) : (
+            <SectionPlaceholder title={SESSION_MODES[view.sessionMode].highlightsLabel} status={statusOf('sessionHighlights')} />
+          ))}
 
           {/* 2. Top Gainers & Losers Tables */}
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            <StockTable 
-              title="주가 상승 Top 10" 
-              items={report.gainers} 
-              type="gainer" 
-              onItemClick={setSelectedStock}
-            />
-            <StockTable 
-              title="주가 하락 Top 10" 
-              items={report.losers} 
-              type="loser" 
+          {statusOf('marketData') === 'ready' ? (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <StockTable 
+                title={gainersTitle}
+                items={view.gainers || []} 
+                type="gainer" 
+                onItemClick={setSelectedStock}
+                sourcesText={marketDataSources}
+                watchlist={watchlist}
+                onToggleWatch={handleToggleWatch}
+              />
+              <StockTable 
+                title={losersTitle}
+                items={view.losers || []} 
+                type="loser" 
+                onItemClick={setSelectedStock}
+                sourcesText={marketDataSources}
+                watchlist={watchlist}
+                onToggleWatch={handleToggleWatch}
+              />
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <SectionPlaceholder title={gainersTitle} status={statusOf('marketData')} height="h-64" />
+              <SectionPlaceholder title={losersTitle} status={statusOf('marketData')} height="h-64" />
+            </div>
+          )}
+
+          {/* 2-1. The user's watchlist */}
+          {statusOf('marketData') === 'ready' ? (
+            <WatchlistTable
+              entries={view.watchlist || []}
+              watchlist={watchlist}
+              status={statusOf('watchlist')}
               onItemClick={setSelectedStock}
+              onWatch={onWatch}
+              onUnwatch={onUnwatch}
             />
-          </div>
+          ) : watchlist.length > 0 && (
+            <SectionPlaceholder title="내 관심종목" status={statusOf('marketData')} height="h-32" />
+          )}
+
+          {/* 2-2. Portfolio review (only when holdings could be valued) */}
+          {view.portfolio && view.portfolio.positions.length > 0 && (statusOf('portfolio') === 'ready' ? (
+            view.portfolioReview && (
+              <SectionBox
+                title={SECTION_LABELS.portfolio}
+                icon={<Wallet className="h-5 w-5 text-blue-500" />}
+                content={view.portfolioReview}
+                sources={view.sources}
+                section="portfolio"
+              >
+                <ReactMarkdown>{view.portfolioReview}</ReactMarkdown>
+              </SectionBox>
+            )
+          ) : (
+            <SectionPlaceholder title={SECTION_LABELS.portfolio} status={statusOf('portfolio')} />
+          ))}
 
-          {/* 3. AI Trend Section (New) */}
-          {report.aiTrend && (
-            <div className="bg-slate-50 p-6 rounded-xl border border-slate-200 mb-6">
+          {/* 3. Theme blocks (one per user-defined theme) */}
+          {view.themes?.map(theme => (
+            <div key={theme.themeId} className="bg-slate-50 p-6 rounded-xl border border-slate-200 mb-6">
               <div className="flex items-center gap-2 mb-4">
                 <BrainCircuit className="h-6 w-6 text-purple-600" />
-                <h3 className="text-lg font-bold text-slate-900">AI 섹터 동향 (최근 5일)</h3>
-                <HeaderActions title="AI 섹터 동향" content={`AI 섹터 요약: ${report.aiTrend.summary}`} />
+                <h3 className="text-lg font-bold text-slate-900">{theme.name} 테마 동향</h3>
+                {theme.description && <span className="text-xs text-slate-400 hidden sm:inline">{theme.description}</span>}
+                <HeaderActions title={`${theme.name} 테마 동향`} content={`${theme.name} 테마 요약: ${theme.summary}${formatSourcesText(view.sources, 'themes')}`} />
               </div>
-              <p className="text-sm text-slate-600 mb-6 bg-white p-4 rounded-lg border border-slate-100 shadow-sm">
-                <span className="font-bold text-purple-700 mr-2">Trend Summary:</span>
-                {report.aiTrend.summary}
-              </p>
+              {theme.summary ? (
+                <p className="text-sm text-slate-600 mb-6 bg-white p-4 rounded-lg border border-slate-100 shadow-sm">
+                  <span className="font-bold text-purple-700 mr-2">Trend Summary:</span>
+                  {theme.summary}
+                </p>
+              ) : (
+                <SectionPlaceholder title="Trend Summary" status={statusOf('themes')} height="h-16" className="mb-6" />
+              )}
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 <StockTable 
-                  title="AI 상승세 (Rising)" 
-                  items={report.aiTrend.rising} 
+                  title={`${theme.name} 상승세 (Rising)`}
+                  items={theme.rising} 
                   type="neutral" 
                   icon={<TrendingUp className="h-5 w-5 text-purple-600" />}
                   onItemClick={setSelectedStock}
+                  watchlist={watchlist}
+                  onToggleWatch={handleToggleWatch}
                 />
                 <StockTable 
-                  title="AI 조정/하락세 (Falling)" 
-                  items={report.aiTrend.falling} 
+                  title={`${theme.name} 조정/하락세 (Falling)`}
+                  items={theme.falling} 
                   type="neutral" 
                   icon={<TrendingDown className="h-5 w-5 text-indigo-600" />}
                   onItemClick={setSelectedStock}
+                  watchlist={watchlist}
+                  onToggleWatch={handleToggleWatch}
                 />
               </div>
             </div>
+          ))}
+
+          {/* 3-1. Week-ahead calendar, read by the economic context below */}
+          {statusOf('calendar') === 'ready' ? (
+            view.calendar && <CalendarPanel events={view.calendar} asOf={view.dataAsOf} />
+          ) : (
+            <SectionPlaceholder title={SECTION_LABELS.calendar} status={statusOf('calendar')} height="h-32" />
           )}
 
           {/* 4. Economic Context */}
-          <SectionBox 
-            title="글로벌 경제 연관성 분석" 
-            icon={<Globe className="h-5 w-5 text-indigo-500" />}
-            content={report.economicContext}
-          >
-            <ReactMarkdown>{report.economicContext}</ReactMarkdown>
-          </SectionBox>
+          {statusOf('economicContext') === 'ready' ? (
+            <SectionBox 
+              title="글로벌 경제 연관성 분석" 
+              icon={<Globe className="h-5 w-5 text-indigo-500" />}
+              content={view.economicContext || ''}
+              sources={view.sources}
+              section="economicContext"
+            >
+              <ReactMarkdown>{view.economicContext}</ReactMarkdown>
+            </SectionBox>
+          ) : (
+            <SectionPlaceholder title="글로벌 경제 연관성 분석" status={statusOf('economicContext')} />
+          )}
 
           {/* 5. Conclusion */}
-          <SectionBox 
-            title="핵심 요약 및 전망" 
-            icon={<Lightbulb className="h-5 w-5 text-amber-500" />}
-            className="border-amber-200 ring-4 ring-amber-50/50"
-            content={report.conclusion}
-          >
-            <ReactMarkdown>{report.conclusion}</ReactMarkdown>
-          </SectionBox>
+          {statusOf('conclusion') === 'ready' ? (
+            <SectionBox 
+              title="핵심 요약 및 전망" 
+              icon={<Lightbulb className="h-5 w-5 text-amber-500" />}
+              className="border-amber-200 ring-4 ring-amber-50/50"
+              content={view.conclusion || ''}
+              sources={view.sources}
+              section="conclusion"
+            >
+              <ReactMarkdown>{view.conclusion}</ReactMarkdown>
+            </SectionBox>
+          ) : (
+            <SectionPlaceholder title="핵심 요약 및 전망" status={statusOf('conclusion')} />
+          )}
+
+          {/* 6. Chat answers pinned by the user */}
+          {view.pinnedSections?.map(pinned => (
+            <SectionBox
+              key={pinned.id}
+              title={pinned.title}
+              icon={<Pin className="h-5 w-5 text-blue-500" />}
+              content={pinned.content}
+            >
+              <ReactMarkdown>{pinned.content}</ReactMarkdown>
+              <button
+                onClick={() => handleTogglePin(pinned.messageId)}
+                className="not-prose mt-2 flex items-center gap-1 text-xs text-slate-400 hover:text-rose-500 transition-colors"
+              >
+                <PinOff className="h-3 w-3" /> 고정 해제
+              </button>
+            </SectionBox>
+          ))}
+
+          {report && (
+            <ReportChat
+              chat={view.chat || []}
+              pinnedMessageIds={(view.pinnedSections || []).map(p => p.messageId)}
+              disabled={loading || !!progress}
+              onAsk={onAskReport}
+              onTogglePin={handleTogglePin}
+              onClear={() => onUpdateReport(stored => ({ ...stored, chat: [] }))}
+            />
+          )}
         </div>
       )}
 
+      {isSourcesOpen && view?.sources && (
+        <SourcesDrawer sources={view.sources} onClose={() => setIsSourcesOpen(false)} />
+      )}
+
       {/* Detail Modal */}
       <StockDetailModal 
         stock={selectedStock} 
         onClose={() => setSelectedStock(null)} 
+        analysis={selectedStock ? view?.stockAnalyses?.[selectedStock.ticker.toUpperCase()] : undefined}
+        onAnalyze={progress ? undefined : onAnalyzeStock}
+        watched={!!selectedStock && isWatched(watchlist, selectedStock.ticker)}
+        onToggleWatch={handleToggleWatch}
+        dataSource={view?.dataSource}
       />
     </div>
   );
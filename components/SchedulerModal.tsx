@@ -1,26 +1,57 @@
 import React, { useState } from 'react';
-import { X, Clock, BellRing, Check } from 'lucide-react';
-import { ScheduleConfig } from '../types';
+import { X, Clock, BellRing, Check, CalendarClock, CheckCircle2, XCircle, MinusCircle, Loader2, Trash2 } from 'lucide-react';
+import { NonTradingDayPolicy, ScheduleConfig, ScheduleRun, ScheduleRunStatus, ScheduleTrigger, SessionMode } from '../types';
+import { TRIGGER_LABELS, getNextRun, normalizeSchedule } from '../services/schedulerService';
+import { getUpcomingClosures } from '../services/marketCalendar';
+import { SESSION_MODES } from '../services/sessionModes';
 
 interface SchedulerModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: (config: ScheduleConfig) => void;
   currentConfig: ScheduleConfig;
+  runLog: ScheduleRun[];
+  onClearLog: () => void;
 }
 
-export const SchedulerModal: React.FC<SchedulerModalProps> = ({ isOpen, onClose, onSave, currentConfig }) => {
-  const [time, setTime] = useState(currentConfig.time);
-  const [selectedDays, setSelectedDays] = useState<string[]>(currentConfig.days);
+const RUN_STATUS_STYLES: Record<ScheduleRunStatus, { icon: React.ElementType; className: string; label: string }> = {
+  running: { icon: Loader2, className: 'text-blue-500 animate-spin', label: '실행 중' },
+  success: { icon: CheckCircle2, className: 'text-emerald-500', label: '성공' },
+  error: { icon: XCircle, className: 'text-rose-500', label: '실패' },
+  skipped: { icon: MinusCircle, className: 'text-slate-400', label: '건너뜀' },
+};
+
+const formatDateTime = (iso: string | Date) =>
+  new Date(iso).toLocaleString('ko-KR', { month: 'short', day: 'numeric', weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+const TIME_ZONE_OPTIONS = ['Asia/Seoul', 'America/New_York', 'Europe/London', 'Asia/Tokyo', 'UTC'];
+
+export const SchedulerModal: React.FC<SchedulerModalProps> = ({ isOpen, onClose, onSave, currentConfig, runLog, onClearLog }) => {
+  const initial = normalizeSchedule(currentConfig);
+  const [trigger, setTrigger] = useState<ScheduleTrigger>(initial.trigger);
+  const [time, setTime] = useState(initial.time);
+  const [timeZone, setTimeZone] = useState(initial.timeZone);
+  const [offsetMinutes, setOffsetMinutes] = useState(initial.offsetMinutes);
+  const [nonTradingDays, setNonTradingDays] = useState<NonTradingDayPolicy>(initial.nonTradingDays);
+  const [selectedDays, setSelectedDays] = useState<string[]>(initial.days);
+  const [sessionMode, setSessionMode] = useState<SessionMode>(initial.sessionMode);
 
   if (!isOpen) return null;
 
+  const draft: ScheduleConfig = { isEnabled: true, time, days: selectedDays, trigger, timeZone, offsetMinutes, nonTradingDays, sessionMode };
+  // Preview for the edited (unsaved) settings
+  const nextRun = getNextRun(draft);
+  const closures = getUpcomingClosures(new Date(), 3);
+  const timeZones = TIME_ZONE_OPTIONS.includes(timeZone) ? TIME_ZONE_OPTIONS : [timeZone, ...TIME_ZONE_OPTIONS];
+
   const days = [
     { id: 'Mon', label: '월' },
     { id: 'Tue', label: '화' },
     { id: 'Wed', label: '수' },
     { id: 'Thu', label: '목' },
     { id: 'Fri', label: '금' },
+    { id: 'Sat', label: '토' },
+    { id: 'Sun', label: '일' },
   ];
 
   const toggleDay = (dayId: string) => {
@@ -32,11 +63,7 @@ export const SchedulerModal: React.FC<SchedulerModalProps> = ({ isOpen, onClose,
   };
 
   const handleSave = () => {
-    onSave({
-      isEnabled: true,
-      time,
-      days: selectedDays
-    });
+    onSave(draft);
     onClose();
   };
 
@@ -58,27 +85,75 @@ export const SchedulerModal: React.FC<SchedulerModalProps> = ({ isOpen, onClose,
           <p className="text-blue-100 text-sm mt-1">매일 아침 세계 경제 흐름을 놓치지 마세요.</p>
         </div>
         
-        <div className="p-6 space-y-6">
+        <div className="p-6 space-y-6 max-h-[60vh] overflow-y-auto">
           <div>
             <label className="block text-sm font-medium text-slate-700 mb-2 flex items-center gap-2">
               <Clock className="h-4 w-4 text-blue-500" />
               수신 시간 설정
             </label>
-            <div className="relative">
-              <input
-                type="time"
-                value={time}
-                onChange={(e) => setTime(e.target.value)}
-                className="block w-full rounded-lg border-slate-300 bg-slate-50 border p-3 text-lg font-mono text-center focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
-              />
+            <div className="grid grid-cols-3 gap-2 mb-3">
+              {(Object.keys(TRIGGER_LABELS) as ScheduleTrigger[]).map(id => (
+                <button
+                  key={id}
+                  onClick={() => setTrigger(id)}
+                  className={`py-2 rounded-lg text-xs font-semibold transition-colors ${
+                    trigger === id ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
+                  }`}
+                >
+                  {TRIGGER_LABELS[id]}
+                </button>
+              ))}
             </div>
+            {trigger === 'clock' ? (
+              <div className="flex gap-2">
+                <input
+                  type="time"
+                  value={time}
+                  onChange={(e) => setTime(e.target.value)}
+                  className="block flex-1 rounded-lg border-slate-300 bg-slate-50 border p-3 text-lg font-mono text-center focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                />
+                <select
+                  value={timeZone}
+                  onChange={(e) => setTimeZone(e.target.value)}
+                  className="rounded-lg border border-slate-300 bg-slate-50 px-2 text-sm outline-none"
+                  title="시간대"
+                >
+                  {timeZones.map(zone => <option key={zone} value={zone}>{zone}</option>)}
+                </select>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 text-sm text-slate-700">
+                <span className="shrink-0">{trigger === 'nyseOpen' ? '뉴욕 개장' : '뉴욕 마감'}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={5}
+                  value={Math.abs(offsetMinutes)}
+                  onChange={(e) => setOffsetMinutes((offsetMinutes < 0 ? -1 : 1) * Math.abs(Number(e.target.value) || 0))}
+                  className="w-20 rounded-lg border border-slate-300 bg-slate-50 p-2 text-center font-mono outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <span>분</span>
+                <select
+                  value={offsetMinutes < 0 ? 'before' : 'after'}
+                  onChange={(e) => setOffsetMinutes((e.target.value === 'before' ? -1 : 1) * Math.abs(offsetMinutes))}
+                  className="rounded-lg border border-slate-300 bg-slate-50 p-2 outline-none"
+                >
+                  <option value="before">전</option>
+                  <option value="after">후</option>
+                </select>
+              </div>
+            )}
             <p className="text-xs text-slate-500 mt-2 text-center">
-              * 미국 장 마감 후 분석을 위해 오전 9시 이후를 권장합니다.
+              {trigger === 'clock'
+                ? '* 미국 장 마감 후 분석을 위해 오전 9시 이후를 권장합니다.'
+                : '* 서머타임과 조기 폐장을 반영해 NYSE 일정 기준으로 실행됩니다.'}
             </p>
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-slate-700 mb-3">요일 선택</label>
+            <label className="block text-sm font-medium text-slate-700 mb-3">
+              요일 선택{trigger !== 'clock' && <span className="text-xs text-slate-400 font-normal"> (뉴욕 거래일 기준)</span>}
+            </label>
             <div className="flex justify-between gap-2">
               {days.map((day) => (
                 <button
@@ -95,6 +170,95 @@ export const SchedulerModal: React.FC<SchedulerModalProps> = ({ isOpen, onClose,
               ))}
             </div>
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">보고서 유형</label>
+            <div className="grid grid-cols-3 gap-2">
+              {Object.values(SESSION_MODES).map(mode => (
+                <button
+                  key={mode.id}
+                  onClick={() => setSessionMode(mode.id)}
+                  title={mode.description}
+                  className={`py-2 rounded-lg text-xs font-semibold transition-colors ${
+                    sessionMode === mode.id ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
+                  }`}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">NYSE 휴장일</label>
+            <select
+              value={nonTradingDays}
+              onChange={(e) => setNonTradingDays(e.target.value as NonTradingDayPolicy)}
+              className="block w-full rounded-lg border border-slate-300 bg-slate-50 p-2.5 text-sm outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="skip">실행하지 않음</option>
+              <option value="weekendRecap">주간 정리 보고서 생성</option>
+            </select>
+            {closures.length > 0 && (
+              <ul className="mt-2 space-y-0.5 text-xs text-slate-500">
+                {closures.map(closure => (
+                  <li key={closure.date}>
+                    {closure.date} · {closure.name}{closure.earlyClose && ' (13:00 조기 폐장)'}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2 text-sm bg-blue-50 text-blue-900 px-3 py-2 rounded-lg">
+            <CalendarClock className="h-4 w-4 text-blue-500 shrink-0" />
+            {nextRun ? (
+              <span>
+                다음 실행: {formatDateTime(nextRun.at)}
+                {!nextRun.tradingDay && (
+                  <span className="text-blue-600"> · {nonTradingDays === 'skip' ? '건너뜀' : '주간 정리'} ({nextRun.note})</span>
+                )}
+              </span>
+            ) : '선택된 요일이 없습니다.'}
+          </div>
+
+          <div>
+            <div className="flex items-center mb-2">
+              <label className="text-sm font-medium text-slate-700">실행 기록</label>
+              {runLog.length > 0 && (
+                <button
+                  onClick={onClearLog}
+                  className="ml-auto flex items-center gap-1 text-xs text-slate-400 hover:text-rose-500"
+                >
+                  <Trash2 className="h-3 w-3" />
+                  기록 지우기
+                </button>
+              )}
+            </div>
+            {runLog.length === 0 ? (
+              <p className="text-xs text-slate-400 text-center py-3 bg-slate-50 rounded-lg">아직 예약 실행 기록이 없습니다.</p>
+            ) : (
+              <ul className="max-h-48 overflow-y-auto space-y-1 text-xs">
+                {runLog.map(run => {
+                  const { icon: Icon, className, label } = RUN_STATUS_STYLES[run.status];
+                  return (
+                    <li key={run.id} className="flex items-start gap-2 px-2 py-1.5 rounded-lg hover:bg-slate-50">
+                      <Icon className={`h-4 w-4 shrink-0 ${className}`} />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-slate-700">
+                          <span className="font-medium">{formatDateTime(run.scheduledFor)}</span>
+                          <span className="text-slate-400"> · {label}{run.catchUp && ' (지연 실행)'}{run.weekendRecap && ' (주간 정리)'}</span>
+                        </p>
+                        {(run.headline || run.message) && (
+                          <p className="text-slate-500 truncate" title={run.headline || run.message}>{run.headline || run.message}</p>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
         </div>
 
         <div className="p-6 border-t border-slate-100 bg-slate-50 flex gap-3">
@@ -0,0 +1,477 @@
+import React, { useState } from 'react';
+import { X, Settings, Cpu, ArrowUp, ArrowDown, Check, ListFilter, RotateCcw, Pencil, BrainCircuit, Plus, Trash2, LayoutGrid } from 'lucide-react';
+import { InstrumentId, ModelSettings, StockUniverseId, ThemeDefinition } from '../types';
+import { AVAILABLE_MODELS, getModelLabel } from '../services/modelService';
+import { listUniverses, parseTickerList, resetUniverseOverride, saveUniverseOverride } from '../services/universeService';
+import { createThemeId } from '../services/themeService';
+import { THEME_PRESETS } from '../data/themePresets';
+import { INSTRUMENTS, INSTRUMENT_CATEGORY_LABELS } from '../data/instruments';
+import { DEFAULT_INSTRUMENTS, getInstrument } from '../services/instrumentService';
+
+interface SettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (settings: ModelSettings) => void;
+  currentSettings: ModelSettings;
+  currentUniverse: StockUniverseId;
+  onSaveUniverse: (id: StockUniverseId) => void;
+  currentThemes: ThemeDefinition[];
+  onSaveThemes: (themes: ThemeDefinition[]) => void;
+  currentInstruments: InstrumentId[];
+  onSaveInstruments: (instruments: InstrumentId[]) => void;
+}
+
+interface ThemeDraft {
+  id: string;
+  name: string;
+  description: string;
+  tickers: string; // Raw text, parsed on save
+}
+
+// Theme list editor: add from presets or from scratch, edit, reorder and remove
+const ThemeSettings: React.FC<{ themes: ThemeDefinition[]; onChange: (themes: ThemeDefinition[]) => void }> = ({ themes, onChange }) => {
+  const [draft, setDraft] = useState<ThemeDraft | null>(null);
+
+  const availablePresets = THEME_PRESETS.filter(preset => !themes.some(t => t.id === preset.id));
+
+  const startEdit = (theme?: ThemeDefinition) => {
+    setDraft(theme
+      ? { id: theme.id, name: theme.name, description: theme.description || '', tickers: theme.tickers.join(', ') }
+      : { id: createThemeId(), name: '', description: '', tickers: '' });
+  };
+
+  const handleSaveDraft = () => {
+    if (!draft) return;
+    const tickers = parseTickerList(draft.tickers);
+    if (!draft.name.trim() || tickers.length === 0) {
+      alert('테마 이름과 티커를 하나 이상 입력하세요.');
+      return;
+    }
+    const theme: ThemeDefinition = {
+      id: draft.id,
+      name: draft.name.trim(),
+      tickers,
+      ...(draft.description.trim() && { description: draft.description.trim() }),
+    };
+    onChange(themes.some(t => t.id === theme.id)
+      ? themes.map(t => t.id === theme.id ? theme : t)
+      : [...themes, theme]);
+    setDraft(null);
+  };
+
+  const moveTheme = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= themes.length) return;
+    const next = [...themes];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-slate-700 mb-2 flex items-center gap-2">
+        <BrainCircuit className="h-4 w-4 text-purple-500" />
+        테마
+      </label>
+      <p className="text-xs text-slate-500 mb-3">
+        테마마다 상승/하락 종목표와 요약이 보고서에 별도 블록으로 추가됩니다.
+      </p>
+
+      <ul className="space-y-1">
+        {themes.map((theme, idx) => (
+          <li key={theme.id} className="flex items-center gap-2 text-sm bg-purple-50 text-purple-900 px-3 py-2 rounded-lg">
+            <span className="flex-1 min-w-0">
+              <span className="font-medium">{theme.name}</span>
+              <span className="block text-xs text-purple-500 truncate">{theme.tickers.join(', ')}</span>
+            </span>
+            <button onClick={() => moveTheme(idx, -1)} disabled={idx === 0} className="p-1 text-purple-500 hover:text-purple-700 disabled:opacity-30" title="위로">
+              <ArrowUp className="h-4 w-4" />
+            </button>
+            <button onClick={() => moveTheme(idx, 1)} disabled={idx === themes.length - 1} className="p-1 text-purple-500 hover:text-purple-700 disabled:opacity-30" title="아래로">
+              <ArrowDown className="h-4 w-4" />
+            </button>
+            <button onClick={() => startEdit(theme)} className="p-1 text-purple-500 hover:text-purple-700" title="편집">
+              <Pencil className="h-4 w-4" />
+            </button>
+            <button onClick={() => onChange(themes.filter(t => t.id !== theme.id))} className="p-1 text-purple-500 hover:text-rose-600" title="삭제">
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </li>
+        ))}
+        {themes.length === 0 && (
+          <li className="text-xs text-slate-400 text-center py-2">테마가 없으면 보고서에 테마 블록이 표시되지 않습니다.</li>
+        )}
+      </ul>
+
+      {draft ? (
+        <div className="mt-3 space-y-2 p-3 rounded-lg border border-slate-200">
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="테마 이름 (예: 반도체)"
+            className="block w-full rounded-lg border border-slate-300 bg-slate-50 p-2 text-sm outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <input
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            placeholder="설명 (선택)"
+            className="block w-full rounded-lg border border-slate-300 bg-slate-50 p-2 text-sm outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <textarea
+            value={draft.tickers}
+            onChange={(e) => setDraft({ ...draft, tickers: e.target.value })}
+            rows={2}
+            placeholder="티커를 쉼표나 공백으로 구분해 입력하세요."
+            className="block w-full rounded-lg border border-slate-300 bg-slate-50 p-2 text-xs font-mono outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <div className="flex gap-2">
+            <button onClick={() => setDraft(null)} className="flex-1 py-2 text-xs text-slate-600 hover:bg-slate-100 rounded-lg">
+              취소
+            </button>
+            <button onClick={handleSaveDraft} className="flex-1 bg-purple-600 hover:bg-purple-700 text-white py-2 rounded-lg text-xs font-medium">
+              {parseTickerList(draft.tickers).length}개 종목으로 저장
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {availablePresets.map(preset => (
+            <button
+              key={preset.id}
+              onClick={() => onChange([...themes, preset])}
+              title={preset.description}
+              className="flex items-center gap-1 text-xs px-3 py-1 rounded-full border border-purple-200 text-purple-700 hover:bg-purple-50"
+            >
+              <Plus className="h-3 w-3" />
+              {preset.name}
+            </button>
+          ))}
+          <button
+            onClick={() => startEdit()}
+            className="flex items-center gap-1 text-xs px-3 py-1 rounded-full border border-slate-300 text-slate-600 hover:bg-slate-50"
+          >
+            <Plus className="h-3 w-3" />
+            새 테마
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Dashboard instrument list: pick, reorder and remove; the order is the card order and the data request
+const InstrumentSettings: React.FC<{ instruments: InstrumentId[]; onChange: (instruments: InstrumentId[]) => void }> = ({ instruments, onChange }) => {
+  const available = INSTRUMENTS.filter(i => !instruments.includes(i.id));
+  // Features that go quiet when their instrument is not fetched
+  const affected = available.filter(i => i.usedBy);
+
+  const moveInstrument = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= instruments.length) return;
+    const next = [...instruments];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-slate-700 mb-2 flex items-center gap-2">
+        <LayoutGrid className="h-4 w-4 text-blue-500" />
+        대시보드 지표
+      </label>
+      <p className="text-xs text-slate-500 mb-3">
+        선택한 순서대로 시세를 요청하고 카드로 표시합니다. 카드는 분류별로 묶이며, 미국 10년물과 2년물을 함께 고르면 2s10s 스프레드가 추가됩니다.
+      </p>
+
+      <ol className="space-y-1">
+        {instruments.map((id, idx) => {
+          const instrument = getInstrument(id);
+          return (
+            <li key={id} className="flex items-center gap-2 text-sm bg-blue-50 text-blue-900 px-3 py-2 rounded-lg">
+              <span className="font-mono text-xs text-blue-500">{idx + 1}</span>
+              <span className="flex-1 min-w-0">
+                <span className="font-medium">{instrument.name}</span>
+                <span className="ml-2 text-xs text-blue-500">{INSTRUMENT_CATEGORY_LABELS[instrument.category]}</span>
+              </span>
+              <button onClick={() => moveInstrument(idx, -1)} disabled={idx === 0} className="p-1 text-blue-500 hover:text-blue-700 disabled:opacity-30" title="위로">
+                <ArrowUp className="h-4 w-4" />
+              </button>
+              <button onClick={() => moveInstrument(idx, 1)} disabled={idx === instruments.length - 1} className="p-1 text-blue-500 hover:text-blue-700 disabled:opacity-30" title="아래로">
+                <ArrowDown className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => onChange(instruments.filter(i => i !== id))}
+                disabled={instruments.length === 1}
+                className="p-1 text-blue-500 hover:text-rose-600 disabled:opacity-30"
+                title="삭제"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        {available.map(instrument => (
+          <button
+            key={instrument.id}
+            onClick={() => onChange([...instruments, instrument.id])}
+            title={instrument.searchHint}
+            className="flex items-center gap-1 text-xs px-3 py-1 rounded-full border border-blue-200 text-blue-700 hover:bg-blue-50"
+          >
+            <Plus className="h-3 w-3" />
+            {instrument.name}
+          </button>
+        ))}
+        {instruments.join() !== DEFAULT_INSTRUMENTS.join() && (
+          <button
+            onClick={() => onChange(DEFAULT_INSTRUMENTS)}
+            className="flex items-center gap-1 text-xs px-3 py-1 rounded-full border border-slate-300 text-slate-600 hover:bg-slate-50"
+          >
+            <RotateCcw className="h-3 w-3" />
+            기본값 복원
+          </button>
+        )}
+      </div>
+      {affected.length > 0 && (
+        <ul className="mt-2 space-y-0.5 text-xs text-amber-700">
+          {affected.map(i => <li key={i.id}>{i.name} 제외 시 {i.usedBy}에 쓸 시세가 없습니다.</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export const SettingsModal: React.FC<SettingsModalProps> = ({
+  isOpen, onClose, onSave, currentSettings, currentUniverse, onSaveUniverse, currentThemes, onSaveThemes, currentInstruments, onSaveInstruments
+}) => {
+  const [primaryModel, setPrimaryModel] = useState(currentSettings.primaryModel);
+  const [fallbackModels, setFallbackModels] = useState<string[]>(currentSettings.fallbackModels);
+  const [universeId, setUniverseId] = useState<StockUniverseId>(currentUniverse);
+  const [themes, setThemes] = useState<ThemeDefinition[]>(currentThemes);
+  const [instruments, setInstruments] = useState<InstrumentId[]>(currentInstruments);
+  const [editingList, setEditingList] = useState<string | null>(null);
+  // Bumped after a list override changes so the universe list is re-read
+  const [, setListVersion] = useState(0);
+
+  if (!isOpen) return null;
+
+  const handleChangePrimary = (modelId: string) => {
+    setPrimaryModel(modelId);
+    // The primary model can't also be its own fallback
+    setFallbackModels(fallbackModels.filter(m => m !== modelId));
+  };
+
+  const toggleFallback = (modelId: string) => {
+    if (fallbackModels.includes(modelId)) {
+      setFallbackModels(fallbackModels.filter(m => m !== modelId));
+    } else {
+      setFallbackModels([...fallbackModels, modelId]);
+    }
+  };
+
+  const moveFallback = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= fallbackModels.length) return;
+    const next = [...fallbackModels];
+    [next[index], next[target]] = [next[target], next[index]];
+    setFallbackModels(next);
+  };
+
+  const universes = listUniverses();
+  const selectedUniverse = universes.find(u => u.id === universeId) || universes[0];
+
+  // Constituent list edits apply immediately; they aren't part of the draft settings
+  const handleApplyList = () => {
+    const tickers = parseTickerList(editingList || '');
+    if (tickers.length === 0) {
+      alert('인식할 수 있는 티커가 없습니다.');
+      return;
+    }
+    saveUniverseOverride(universeId, tickers);
+    setEditingList(null);
+    setListVersion(v => v + 1);
+  };
+
+  const handleResetList = () => {
+    resetUniverseOverride(universeId);
+    setEditingList(null);
+    setListVersion(v => v + 1);
+  };
+
+  const handleSave = () => {
+    onSave({ primaryModel, fallbackModels });
+    onSaveUniverse(universeId);
+    onSaveThemes(themes);
+    onSaveInstruments(instruments);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md relative z-10 overflow-hidden">
+        <div className="bg-slate-900 p-6 text-white text-center">
+          <Settings className="h-10 w-10 mx-auto mb-3 text-slate-300" />
+          <h3 className="text-xl font-bold">분석 설정</h3>
+          <p className="text-slate-400 text-sm mt-1">보고서를 작성할 모델과 대체 순서를 선택하세요.</p>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[60vh] overflow-y-auto">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2 flex items-center gap-2">
+              <Cpu className="h-4 w-4 text-blue-500" />
+              기본 모델
+            </label>
+            <select
+              value={primaryModel}
+              onChange={(e) => handleChangePrimary(e.target.value)}
+              className="block w-full rounded-lg border border-slate-300 bg-slate-50 p-3 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+            >
+              {AVAILABLE_MODELS.map(model => (
+                <option key={model.id} value={model.id}>{model.label} - {model.description}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">대체 모델 (순서대로 시도)</label>
+            <p className="text-xs text-slate-500 mb-3">
+              기본 모델이 사용 한도 초과 또는 과부하일 때 아래 순서로 자동 전환합니다.
+            </p>
+            <div className="space-y-2">
+              {AVAILABLE_MODELS.filter(m => m.id !== primaryModel).map(model => (
+                <label
+                  key={model.id}
+                  className="flex items-center gap-3 p-3 rounded-lg border border-slate-200 hover:bg-slate-50 cursor-pointer text-sm"
+                >
+                  <input
+                    type="checkbox"
+                    checked={fallbackModels.includes(model.id)}
+                    onChange={() => toggleFallback(model.id)}
+                  />
+                  <span className="font-medium text-slate-800">{model.label}</span>
+                  <span className="text-xs text-slate-400 truncate">{model.description}</span>
+                </label>
+              ))}
+            </div>
+
+            {fallbackModels.length > 0 && (
+              <ol className="mt-4 space-y-1">
+                {fallbackModels.map((modelId, idx) => (
+                  <li key={modelId} className="flex items-center gap-2 text-sm bg-blue-50 text-blue-900 px-3 py-2 rounded-lg">
+                    <span className="font-mono text-xs text-blue-500">{idx + 1}</span>
+                    <span className="flex-1">{getModelLabel(modelId)}</span>
+                    <button
+                      onClick={() => moveFallback(idx, -1)}
+                      disabled={idx === 0}
+                      className="p-1 text-blue-500 hover:text-blue-700 disabled:opacity-30"
+                      title="위로"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => moveFallback(idx, 1)}
+                      disabled={idx === fallbackModels.length - 1}
+                      className="p-1 text-blue-500 hover:text-blue-700 disabled:opacity-30"
+                      title="아래로"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2 flex items-center gap-2">
+              <ListFilter className="h-4 w-4 text-blue-500" />
+              종목 유니버스
+            </label>
+            <p className="text-xs text-slate-500 mb-3">
+              상승/하락 Top 10은 선택한 유니버스 안에서만 고르며, 벗어난 종목은 생성 후 제외됩니다.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              {universes.map(universe => (
+                <button
+                  key={universe.id}
+                  onClick={() => { setUniverseId(universe.id); setEditingList(null); }}
+                  className={`text-left p-3 rounded-lg border text-sm transition-colors ${
+                    universeId === universe.id ? 'border-blue-500 bg-blue-50' : 'border-slate-200 hover:bg-slate-50'
+                  }`}
+                >
+                  <span className="font-medium text-slate-800">{universe.label}</span>
+                  <span className="block text-xs text-slate-400 truncate">{universe.description}</span>
+                </button>
+              ))}
+            </div>
+            <div className="mt-3 text-xs text-slate-500 flex items-center gap-2">
+              <span>
+                {selectedUniverse.tickers.length}개 종목 · {selectedUniverse.custom ? '사용자 목록' : '기본 목록'} ({selectedUniverse.asOf})
+              </span>
+              <button
+                onClick={() => setEditingList(editingList === null ? selectedUniverse.tickers.join(', ') : null)}
+                className="ml-auto flex items-center gap-1 text-blue-600 hover:text-blue-800"
+              >
+                <Pencil className="h-3 w-3" />
+                목록 갱신
+              </button>
+              {selectedUniverse.custom && (
+                <button onClick={handleResetList} className="flex items-center gap-1 text-slate-500 hover:text-slate-800">
+                  <RotateCcw className="h-3 w-3" />
+                  기본값 복원
+                </button>
+              )}
+            </div>
+            {editingList !== null && (
+              <div className="mt-2 space-y-2">
+                <textarea
+                  value={editingList}
+                  onChange={(e) => setEditingList(e.target.value)}
+                  rows={5}
+                  placeholder="티커를 쉼표, 공백 또는 줄바꿈으로 구분해 붙여넣으세요."
+                  className="block w-full rounded-lg border border-slate-300 bg-slate-50 p-2 text-xs font-mono outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  onClick={handleApplyList}
+                  className="w-full bg-slate-800 hover:bg-slate-900 text-white py-2 rounded-lg text-xs font-medium"
+                >
+                  {parseTickerList(editingList).length}개 종목으로 목록 교체
+                </button>
+              </div>
+            )}
+          </div>
+
+          <InstrumentSettings instruments={instruments} onChange={setInstruments} />
+
+          <ThemeSettings themes={themes} onChange={setThemes} />
+        </div>
+
+        <div className="p-6 border-t border-slate-100 bg-slate-50 flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 text-slate-600 font-medium hover:bg-slate-200 rounded-lg transition-colors text-sm"
+          >
+            취소
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex-2 w-full bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium shadow-md hover:shadow-lg transition-all flex items-center justify-center gap-2"
+          >
+            <Check className="h-4 w-4" />
+            설정 저장
+          </button>
+        </div>
+
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-white/70 hover:text-white transition-colors"
+        >
+          <X className="h-6 w-6" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { Newspaper, Loader2, RefreshCw, ExternalLink, CalendarClock, Users, Sparkles } from 'lucide-react';
+import { StockAnalysis, StockItem } from '../types';
+import { getCachedAnalysis } from '../services/stockAnalysisService';
+import { formatPrice } from '../services/quotes';
+import { getModelLabel } from '../services/modelService';
+
+interface StockAnalysisPanelProps {
+  stock: StockItem;
+  stored?: StockAnalysis; // Analysis saved with the open report
+  onAnalyze?: (stock: StockItem, force: boolean) => Promise<StockAnalysis>; // Omitted where results can't be saved
+}
+
+export const StockAnalysisPanel: React.FC<StockAnalysisPanelProps> = ({ stock, stored, onAnalyze }) => {
+  const [analysis, setAnalysis] = useState<StockAnalysis | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The report's own copy wins; otherwise today's cached answer, if any
+  useEffect(() => {
+    setAnalysis(stored || getCachedAnalysis(stock.ticker));
+    setError(null);
+  }, [stock.ticker, stored]);
+
+  const run = async (force: boolean) => {
+    if (!onAnalyze) return;
+    setLoading(true);
+    setError(null);
+    try {
+      setAnalysis(await onAnalyze(stock, force));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-4 shadow-sm mb-6">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <h3 className="font-semibold text-slate-700 flex items-center gap-2">
+          <Sparkles className="h-4 w-4 text-indigo-500" />
+          왜 움직였나?
+        </h3>
+        {onAnalyze && (
+          <button
+            onClick={() => run(!!analysis)}
+            disabled={loading}
+            className="flex items-center gap-1.5 text-xs font-medium text-indigo-600 hover:bg-indigo-50 px-2.5 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {loading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : analysis ? <RefreshCw className="h-3.5 w-3.5" /> : <Sparkles className="h-3.5 w-3.5" />}
+            {loading ? '분석 중...' : analysis ? '다시 분석' : 'AI 분석 실행'}
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-rose-600 mb-2">{error}</p>}
+
+      {!analysis ? (
+        <p className="text-sm text-slate-500">
+          {onAnalyze
+            ? 'Google 검색으로 오늘 움직임의 원인, 관련 뉴스, 실적 발표일, 애널리스트 의견을 찾아 정리합니다.'
+            : '이 화면에서는 분석을 실행할 수 없습니다. 보고서 화면에서 종목을 열어주세요.'}
+        </p>
+      ) : (
+        <div className="space-y-4 text-sm">
+          <div className="prose prose-sm prose-slate max-w-none">
+            <ReactMarkdown>{analysis.catalyst || '원인을 특정하지 못했습니다.'}</ReactMarkdown>
+          </div>
+
+          {analysis.headlines.length > 0 && (
+            <div>
+              <p className="text-xs font-semibold text-slate-500 mb-1.5 flex items-center gap-1.5">
+                <Newspaper className="h-3.5 w-3.5" /> 관련 헤드라인
+              </p>
+              <ul className="space-y-1">
+                {analysis.headlines.map((h, i) => (
+                  <li key={i} className="flex items-start gap-2 text-slate-700">
+                    <span className="text-slate-300">•</span>
+                    <span>
+                      {h.url ? (
+                        <a href={h.url} target="_blank" rel="noopener noreferrer" className="hover:text-blue-600 hover:underline">{h.title}</a>
+                      ) : h.title}
+                      <span className="text-xs text-slate-400 ml-1.5">{h.source}{h.publishedAt ? ` · ${h.publishedAt}` : ''}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="bg-slate-50 rounded-lg p-3">
+              <p className="text-xs font-semibold text-slate-500 mb-1 flex items-center gap-1.5">
+                <CalendarClock className="h-3.5 w-3.5" /> 다음 실적 발표
+              </p>
+              {analysis.nextEarnings ? (
+                <p className="text-slate-800 font-medium">
+                  {analysis.nextEarnings.date}
+                  {analysis.nextEarnings.timing && <span className="text-slate-500 font-normal"> ({analysis.nextEarnings.timing})</span>}
+                  {analysis.nextEarnings.note && <span className="block text-xs text-slate-500 font-normal mt-0.5">{analysis.nextEarnings.note}</span>}
+                </p>
+              ) : (
+                <p className="text-slate-400">확인되지 않음</p>
+              )}
+            </div>
+            <div className="bg-slate-50 rounded-lg p-3">
+              <p className="text-xs font-semibold text-slate-500 mb-1 flex items-center gap-1.5">
+                <Users className="h-3.5 w-3.5" /> 애널리스트 의견 변화
+              </p>
+              {analysis.analystActions.length > 0 ? (
+                <ul className="space-y-0.5 text-xs text-slate-700">
+                  {analysis.analystActions.map((a, i) => (
+                    <li key={i}>
+                      <span className="font-semibold">{a.firm}</span> {a.action}
+                      {a.rating && ` · ${a.rating}`}
+                      {a.priceTarget ? ` · 목표가 ${formatPrice({ ...stock.quote, price: a.priceTarget, currency: 'USD' })}` : ''}
+                      {a.date && <span className="text-slate-400"> ({a.date})</span>}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-slate-400">최근 변경 없음</p>
+              )}
+            </div>
+          </div>
+
+          {analysis.citations.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {analysis.citations.map((c, i) => (
+                <a
+                  key={i}
+                  href={c.uri}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-[11px] text-slate-500 bg-slate-100 hover:bg-slate-200 px-2 py-0.5 rounded-full"
+                >
+                  <ExternalLink className="h-3 w-3" />
+                  {c.title || `출처 ${i + 1}`}
+                </a>
+              ))}
+            </div>
+          )}
+
+          <p className="text-[11px] text-slate-400">
+            {analysis.date} 분석 · {new Date(analysis.generatedAt).toLocaleString('ko-KR')}
+            {analysis.model && ` · ${getModelLabel(analysis.model)}`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
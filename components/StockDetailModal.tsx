@@ -1,74 +1,212 @@
-import React, { useMemo } from 'react';
-import { X, TrendingUp, TrendingDown, DollarSign, Calendar } from 'lucide-react';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { StockItem } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, Star, TrendingUp, TrendingDown, Calendar, CandlestickChart, LineChart, Upload, Loader2, Activity } from 'lucide-react';
+import { ComposedChart, Area, Bar, Cell, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, BarShapeProps, TooltipContentProps } from 'recharts';
+import { Candle, MarketDataSourceId, PriceHistory, PriceHistoryRange, StockAnalysis, StockItem, TechnicalSignals } from '../types';
+import { formatChange, formatChangePercent, formatPercent, formatPrice, isUp } from '../services/quotes';
+import {
+  PRICE_HISTORY_RANGES,
+  PRICE_HISTORY_SOURCE_LABELS,
+  hasImportedHistory,
+  getReportHistorySources,
+  importOhlcvCsv,
+  loadPriceHistory,
+  removeImportedHistory,
+} from '../services/priceHistoryService';
+import { IndicatorSeries, bollinger, ema, loadTechnicalSignals, macd, rsi, sma } from '../services/technicalIndicators';
+import { StockAnalysisPanel } from './StockAnalysisPanel';
 
 interface StockDetailModalProps {
   stock: StockItem | null;
   onClose: () => void;
+  analysis?: StockAnalysis; // "Why is it moving?" result saved with the open report
+  onAnalyze?: (stock: StockItem, force: boolean) => Promise<StockAnalysis>;
+  watched?: boolean; // On the user's watchlist
+  onToggleWatch?: (stock: StockItem) => void; // Star button is hidden when omitted
+  dataSource?: MarketDataSourceId; // Provider of the open report; sample history is only charted for fixture reports
 }
 
-// Helper to parse price string to number (e.g., "$150.23" -> 150.23)
-const parsePrice = (priceStr: string): number => {
-  return parseFloat(priceStr.replace(/[^0-9.-]/g, '')) || 0;
+type ChartType = 'candle' | 'line';
+
+type OverlayId = 'sma20' | 'sma50' | 'sma200' | 'ema20' | 'ema50' | 'ema200' | 'bollinger';
+
+type PanelId = 'rsi' | 'macd';
+
+type IndicatorValues = Record<Exclude<OverlayId, 'bollinger'> | 'bbUpper' | 'bbMiddle' | 'bbLower' | 'rsi' | 'macd' | 'macdSignal' | 'macdHistogram', number | null>;
+
+type ChartPoint = Candle & IndicatorValues & { label: string; range: [number, number] };
+
+const OVERLAYS: { id: OverlayId; label: string; color: string }[] = [
+  { id: 'sma20', label: 'SMA 20', color: '#f59e0b' },
+  { id: 'sma50', label: 'SMA 50', color: '#3b82f6' },
+  { id: 'sma200', label: 'SMA 200', color: '#8b5cf6' },
+  { id: 'ema20', label: 'EMA 20', color: '#f97316' },
+  { id: 'ema50', label: 'EMA 50', color: '#06b6d4' },
+  { id: 'ema200', label: 'EMA 200', color: '#a855f7' },
+  { id: 'bollinger', label: '볼린저', color: '#64748b' },
+];
+
+const PANELS: { id: PanelId; label: string }[] = [
+  { id: 'rsi', label: 'RSI 14' },
+  { id: 'macd', label: 'MACD 12/26/9' },
+];
+
+const UP_COLOR = '#10b981';
+const DOWN_COLOR = '#f43f5e';
+
+const axisLabel = (candle: Candle, history: PriceHistory) => {
+  if (history.interval === 'intraday') {
+    return new Date(candle.time).toLocaleString('ko-KR', {
+      timeZone: 'America/New_York',
+      ...(history.range === '1D' ? {} : { month: 'numeric', day: 'numeric' }),
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false,
+    });
+  }
+  const long = history.range === '1Y' || history.range === '5Y';
+  return new Date(`${candle.time}T00:00:00Z`).toLocaleDateString('ko-KR', {
+    timeZone: 'UTC',
+    ...(long ? { year: '2-digit', month: 'numeric' } : { month: 'numeric', day: 'numeric' }),
+  });
 };
 
-// Helper to parse change string to percentage (e.g., "+2.5%" -> 0.025)
-const parseChange = (changeStr: string): number => {
-  const isNegative = changeStr.includes('-');
-  const val = parseFloat(changeStr.replace(/[^0-9.]/g, ''));
-  return (isNegative ? -val : val) / 100;
+// Recharts draws the [low, high] range bar; the wick and body are scaled from that box
+const CandleShape = ({ x, y, width, height, payload }: BarShapeProps) => {
+  const { open, high, low, close } = payload as ChartPoint;
+  const color = close >= open ? UP_COLOR : DOWN_COLOR;
+  const ratio = high > low ? height / (high - low) : 0;
+  const bodyTop = y + (high - Math.max(open, close)) * ratio;
+  const bodyHeight = Math.max(1, Math.abs(close - open) * ratio);
+  const center = x + width / 2;
+  const bodyWidth = Math.max(1, width * 0.7);
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect x={center - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={bodyHeight} fill={color} />
+    </g>
+  );
 };
 
-export const StockDetailModal: React.FC<StockDetailModalProps> = ({ stock, onClose }) => {
+// Stretched readings are a warning either way; the rest read as bullish or bearish
+const noteTone = (note: string) =>
+  /과매수|과매도/.test(note) ? 'bg-amber-50 text-amber-700'
+    : /위|상향|상단|골든/.test(note) ? 'bg-emerald-50 text-emerald-700'
+    : /아래|하향|하단|데드/.test(note) ? 'bg-rose-50 text-rose-700'
+    : 'bg-slate-100 text-slate-600';
+
+const formatVolume = (volume: number) =>
+  new Intl.NumberFormat('ko-KR', { notation: 'compact', maximumFractionDigits: 1 }).format(volume);
+
+export const StockDetailModal: React.FC<StockDetailModalProps> = ({ stock, onClose, analysis, onAnalyze, watched = false, onToggleWatch, dataSource }) => {
+  const [range, setRange] = useState<PriceHistoryRange>('1M');
+  const [chartType, setChartType] = useState<ChartType>('candle');
+  const [history, setHistory] = useState<PriceHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [importVersion, setImportVersion] = useState(0);
+  const [overlays, setOverlays] = useState<OverlayId[]>([]);
+  const [panels, setPanels] = useState<PanelId[]>([]);
+  const [signals, setSignals] = useState<TechnicalSignals | null>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+
+  const ticker = stock?.ticker;
+
+  useEffect(() => {
+    if (!ticker) return;
+    let cancelled = false;
+    setLoading(true);
+    loadPriceHistory(ticker, range, getReportHistorySources(dataSource))
+      .then(result => { if (!cancelled) setHistory(result); })
+      .catch(error => {
+        console.error("Failed to load price history:", error);
+        if (!cancelled) setHistory(null);
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [ticker, range, importVersion, dataSource]);
+
+  useEffect(() => {
+    if (!ticker) return;
+    let cancelled = false;
+    setSignals(null);
+    loadTechnicalSignals(ticker, getReportHistorySources(dataSource))
+      .then(result => { if (!cancelled) setSignals(result); })
+      .catch(error => console.error("Failed to compute signals:", error));
+    return () => { cancelled = true; };
+  }, [ticker, importVersion, dataSource]);
+
+  // Indicators run over the lookback too, so long averages are defined from the first visible bar
+  const chartData = useMemo<ChartPoint[]>(() => {
+    if (!history) return [];
+    const closes = [...history.lookback, ...history.candles].map(c => c.close);
+    const offset = history.lookback.length;
+    const bands = bollinger(closes);
+    const macdLines = macd(closes);
+    const series: Record<keyof IndicatorValues, IndicatorSeries> = {
+      sma20: sma(closes, 20), sma50: sma(closes, 50), sma200: sma(closes, 200),
+      ema20: ema(closes, 20), ema50: ema(closes, 50), ema200: ema(closes, 200),
+      bbUpper: bands.upper, bbMiddle: bands.middle, bbLower: bands.lower,
+      rsi: rsi(closes),
+      macd: macdLines.macd, macdSignal: macdLines.signal, macdHistogram: macdLines.histogram,
+    };
+    return history.candles.map((c, i) => ({
+      ...c,
+      ...(Object.fromEntries(Object.entries(series).map(([key, values]) => [key, values[offset + i]])) as IndicatorValues),
+      label: axisLabel(c, history),
+      range: [c.low, c.high],
+    }));
+  }, [history]);
+
   if (!stock) return null;
 
-  const currentPrice = parsePrice(stock.price);
-  const changeRate = parseChange(stock.change);
-  const isPositive = !stock.change.includes('-');
-
-  // Generate 30 days of mock historical data based on current price and trend
-  const chartData = useMemo(() => {
-    const data = [];
-    const days = 30;
-    const volatility = 0.02; // 2% daily volatility
-    
-    // Estimate price 30 days ago based on the current change rate
-    // (Simplification: assuming the 'change' is reflective of recent trend)
-    let price = currentPrice / (1 + changeRate); 
-    
-    // If change is very small, add some variance so line isn't flat
-    if (Math.abs(changeRate) < 0.001) price = currentPrice * 0.95;
-
-    const today = new Date();
-
-    for (let i = 0; i < days; i++) {
-      const date = new Date(today);
-      date.setDate(date.getDate() - (days - 1 - i));
-      
-      // Random walk towards current price
-      const progress = i / (days - 1); // 0 to 1
-      const targetTrend = currentPrice * progress + price * (1 - progress);
-      const randomFluctuation = targetTrend * (Math.random() - 0.5) * volatility;
-      
-      let dailyPrice = targetTrend + randomFluctuation;
-      
-      // Force the last point to match current price exactly
-      if (i === days - 1) dailyPrice = currentPrice;
-
-      data.push({
-        date: date.toLocaleDateString('ko-KR', { month: 'numeric', day: 'numeric' }),
-        price: Number(dailyPrice.toFixed(2))
-      });
+  const isPositive = isUp(stock.quote);
+  const imported = hasImportedHistory(stock.ticker);
+  const first = chartData[0];
+  const last = chartData[chartData.length - 1];
+  const periodChange = first && last ? ((last.close - first.open) / first.open) * 100 : null;
+  const lineColor = periodChange === null || periodChange >= 0 ? UP_COLOR : DOWN_COLOR;
+  const priceOf = (value: number) => formatPrice({ ...stock.quote, price: value });
+
+  const handleImportCsv = async (file: File) => {
+    try {
+      const kept = importOhlcvCsv(stock.ticker, await file.text());
+      setImportVersion(v => v + 1);
+      alert(`${stock.ticker} 시세 ${kept}개 구간을 가져왔습니다.`);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
     }
-    return data;
-  }, [stock]);
+  };
+
+  const handleRemoveCsv = () => {
+    if (!confirm(`${stock.ticker}의 가져온 시세를 삭제할까요?`)) return;
+    removeImportedHistory(stock.ticker);
+    setImportVersion(v => v + 1);
+  };
+
+  const toggle = <T,>(list: T[], id: T) => list.includes(id) ? list.filter(x => x !== id) : [...list, id];
+
+  const renderTooltip = ({ active, payload }: TooltipContentProps<number, string>) => {
+    const point = active && payload?.[0]?.payload as ChartPoint | undefined;
+    if (!point) return null;
+    return (
+      <div className="bg-white rounded-lg shadow-md px-3 py-2 text-xs text-slate-600 space-y-0.5">
+        <p className="font-semibold text-slate-800 mb-1">{point.label}</p>
+        <p>시가 {priceOf(point.open)} · 종가 {priceOf(point.close)}</p>
+        <p>고가 {priceOf(point.high)} · 저가 {priceOf(point.low)}</p>
+        <p>거래량 {formatVolume(point.volume)}</p>
+        {overlays.filter(id => id !== 'bollinger' && point[id] !== null).map(id => (
+          <p key={id}>{OVERLAYS.find(o => o.id === id)!.label} {priceOf(point[id as Exclude<OverlayId, 'bollinger'>]!)}</p>
+        ))}
+        {panels.includes('rsi') && point.rsi !== null && <p>RSI {point.rsi.toFixed(1)}</p>}
+        {panels.includes('macd') && point.macd !== null && <p>MACD {point.macd.toFixed(2)} / 시그널 {point.macdSignal?.toFixed(2)}</p>}
+      </div>
+    );
+  };
 
   return (
     <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
       <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" onClick={onClose}></div>
       <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl relative z-10 overflow-hidden flex flex-col max-h-[90vh]">
-        
+
         {/* Header */}
         <div className={`px-6 py-5 border-b border-slate-100 flex items-start justify-between ${isPositive ? 'bg-emerald-50/50' : 'bg-rose-50/50'}`}>
           <div>
@@ -80,81 +218,289 @@ export const StockDetailModal: React.FC<StockDetailModalProps> = ({ stock, onClo
             </div>
             <h2 className="text-2xl font-bold text-slate-900">{stock.name}</h2>
           </div>
-          <button 
-            onClick={onClose}
-            className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-400 hover:text-slate-600"
-          >
-            <X className="h-6 w-6" />
-          </button>
+          <div className="flex items-center gap-1">
+            {onToggleWatch && (
+              <button
+                onClick={() => onToggleWatch(stock)}
+                className={`flex items-center gap-1.5 text-sm font-medium px-3 py-1.5 rounded-lg transition-colors ${watched ? 'text-amber-600 bg-amber-50 hover:bg-amber-100' : 'text-slate-500 hover:bg-slate-100'}`}
+              >
+                <Star className="h-4 w-4" fill={watched ? 'currentColor' : 'none'} />
+                {watched ? '관심종목' : '관심종목 추가'}
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-400 hover:text-slate-600"
+            >
+              <X className="h-6 w-6" />
+            </button>
+          </div>
         </div>
 
         {/* Content */}
         <div className="p-6 overflow-y-auto">
           {/* Price Info */}
           <div className="flex items-end gap-3 mb-8">
-            <span className="text-4xl font-bold text-slate-900">{stock.price}</span>
+            <span className="text-4xl font-bold text-slate-900">{formatPrice(stock.quote)}</span>
             <div className={`flex items-center gap-1 text-lg font-semibold mb-1.5 ${isPositive ? 'text-emerald-600' : 'text-rose-600'}`}>
               {isPositive ? <TrendingUp className="h-5 w-5" /> : <TrendingDown className="h-5 w-5" />}
-              <span>{stock.change}</span>
+              <span>{formatChange(stock.quote)} ({formatChangePercent(stock.quote)})</span>
             </div>
+            <span className="text-xs text-slate-400 mb-2 ml-auto">
+              {new Date(stock.quote.asOf).toLocaleString('ko-KR')} 기준
+            </span>
           </div>
 
           {/* Chart Section */}
           <div className="bg-white border border-slate-200 rounded-xl p-4 shadow-sm mb-6">
-            <div className="flex items-center justify-between mb-4">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
               <h3 className="font-semibold text-slate-700 flex items-center gap-2">
                 <Calendar className="h-4 w-4 text-blue-500" />
-                최근 1개월 추이 (30 Days)
+                가격 추이
+                {periodChange !== null && (
+                  <span className={`text-sm font-medium ${periodChange >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                    {formatPercent(periodChange)}
+                  </span>
+                )}
               </h3>
+              <div className="flex items-center gap-2">
+                <div className="flex bg-slate-100 rounded-lg p-0.5">
+                  {PRICE_HISTORY_RANGES.map(r => (
+                    <button
+                      key={r}
+                      onClick={() => setRange(r)}
+                      className={`px-2 py-1 text-xs font-semibold rounded-md transition-colors ${range === r ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                    >
+                      {r}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex bg-slate-100 rounded-lg p-0.5">
+                  <button
+                    onClick={() => setChartType('candle')}
+                    className={`p-1 rounded-md transition-colors ${chartType === 'candle' ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                    title="캔들 차트"
+                  >
+                    <CandlestickChart className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => setChartType('line')}
+                    className={`p-1 rounded-md transition-colors ${chartType === 'line' ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                    title="라인 차트"
+                  >
+                    <LineChart className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
             </div>
-            <div className="h-[250px] w-full">
-              <ResponsiveContainer width="100%" height="100%">
-                <AreaChart data={chartData}>
-                  <defs>
-                    <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
-                      <stop offset="5%" stopColor={isPositive ? "#10b981" : "#f43f5e"} stopOpacity={0.1}/>
-                      <stop offset="95%" stopColor={isPositive ? "#10b981" : "#f43f5e"} stopOpacity={0}/>
-                    </linearGradient>
-                  </defs>
-                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-                  <XAxis 
-                    dataKey="date" 
-                    tick={{fontSize: 10}} 
-                    stroke="#94a3b8" 
-                    axisLine={false} 
-                    tickLine={false}
-                    interval={6}
-                  />
-                  <YAxis 
-                    domain={['auto', 'auto']}
-                    tick={{fontSize: 11}}
-                    stroke="#94a3b8"
-                    axisLine={false}
-                    tickLine={false}
-                    width={40}
-                  />
-                  <Tooltip 
-                    contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
-                    formatter={(value: number) => [`$${value}`, 'Price']}
-                  />
-                  <Area 
-                    type="monotone" 
-                    dataKey="price" 
-                    stroke={isPositive ? "#10b981" : "#f43f5e"} 
-                    strokeWidth={2} 
-                    fillOpacity={1} 
-                    fill="url(#colorPrice)" 
-                  />
-                </AreaChart>
-              </ResponsiveContainer>
+
+            {/* Indicator toggles */}
+            <div className="flex flex-wrap items-center gap-1.5 mb-3">
+              {OVERLAYS.map(o => (
+                <button
+                  key={o.id}
+                  onClick={() => setOverlays(current => toggle(current, o.id))}
+                  className={`px-2 py-0.5 text-[11px] font-medium rounded-full border transition-colors ${overlays.includes(o.id) ? 'text-white border-transparent' : 'text-slate-500 border-slate-200 hover:border-slate-300'}`}
+                  style={overlays.includes(o.id) ? { backgroundColor: o.color } : undefined}
+                >
+                  {o.label}
+                </button>
+              ))}
+              <span className="w-px h-4 bg-slate-200 mx-1"></span>
+              {PANELS.map(p => (
+                <button
+                  key={p.id}
+                  onClick={() => setPanels(current => toggle(current, p.id))}
+                  className={`px-2 py-0.5 text-[11px] font-medium rounded-full border transition-colors ${panels.includes(p.id) ? 'bg-slate-800 text-white border-transparent' : 'text-slate-500 border-slate-200 hover:border-slate-300'}`}
+                >
+                  {p.label}
+                </button>
+              ))}
             </div>
-          </div>
 
-          <div className="bg-slate-50 p-4 rounded-xl text-xs text-slate-500 leading-relaxed">
-            * 본 차트는 현재가와 변동률을 기반으로 추정한 시뮬레이션 데이터입니다. 실제 과거 거래 데이터와 차이가 있을 수 있으며, 투자 참고용으로만 활용하시기 바랍니다.
+            {signals && signals.notes.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1.5 mb-3 text-xs" title={`${PRICE_HISTORY_SOURCE_LABELS[signals.source]} · ${signals.asOf} 일봉 기준`}>
+                <Activity className="h-3.5 w-3.5 text-blue-500" />
+                <span className="text-slate-500 font-medium">기술적 신호</span>
+                {signals.source === 'fixture' && (
+                  <span className="px-2 py-0.5 rounded-md bg-amber-50 text-amber-700 font-medium">샘플 데이터</span>
+                )}
+                {signals.notes.map(note => (
+                  <span
+                    key={note}
+                    className={`px-2 py-0.5 rounded-md ${noteTone(note)}`}
+                  >
+                    {note}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {loading ? (
+              <div className="h-[330px] flex items-center justify-center text-slate-400">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : chartData.length === 0 ? (
+              <div className="h-[330px] flex flex-col items-center justify-center text-center text-sm text-slate-500 gap-2">
+                <p>{range === '1D' ? '이 종목의 일중(분봉) 시세가 없습니다.' : '이 종목의 과거 시세가 없습니다.'}</p>
+                <p className="text-xs text-slate-400">Yahoo Finance 등에서 내려받은 OHLCV CSV를 가져오면 차트가 표시됩니다.</p>
+              </div>
+            ) : (
+              <>
+                <div className="h-[250px] w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={chartData} syncId="priceHistory">
+                      <defs>
+                        <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
+                          <stop offset="5%" stopColor={lineColor} stopOpacity={0.1}/>
+                          <stop offset="95%" stopColor={lineColor} stopOpacity={0}/>
+                        </linearGradient>
+                      </defs>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                      <XAxis dataKey="label" hide />
+                      <YAxis
+                        domain={['auto', 'auto']}
+                        tick={{fontSize: 11}}
+                        stroke="#94a3b8"
+                        axisLine={false}
+                        tickLine={false}
+                        width={48}
+                      />
+                      <Tooltip content={renderTooltip} />
+                      {chartType === 'candle' ? (
+                        <Bar dataKey="range" shape={CandleShape} isAnimationActive={false} />
+                      ) : (
+                        <Area
+                          type="monotone"
+                          dataKey="close"
+                          stroke={lineColor}
+                          strokeWidth={2}
+                          fillOpacity={1}
+                          fill="url(#colorPrice)"
+                          isAnimationActive={false}
+                        />
+                      )}
+                      {overlays.includes('bollinger') && ['bbUpper', 'bbMiddle', 'bbLower'].map(key => (
+                        <Line key={key} dataKey={key} stroke="#64748b" strokeWidth={1} strokeDasharray={key === 'bbMiddle' ? '4 3' : undefined} dot={false} isAnimationActive={false} />
+                      ))}
+                      {OVERLAYS.filter(o => o.id !== 'bollinger' && overlays.includes(o.id)).map(o => (
+                        <Line key={o.id} dataKey={o.id} stroke={o.color} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                      ))}
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+                {panels.includes('rsi') && (
+                  <div className="h-[80px] w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <ComposedChart data={chartData} syncId="priceHistory">
+                        <XAxis dataKey="label" hide />
+                        <YAxis domain={[0, 100]} ticks={[30, 70]} tick={{fontSize: 10}} stroke="#94a3b8" axisLine={false} tickLine={false} width={48} />
+                        <ReferenceLine y={70} stroke="#f43f5e" strokeDasharray="3 3" />
+                        <ReferenceLine y={30} stroke="#10b981" strokeDasharray="3 3" />
+                        <Tooltip content={() => null} />
+                        <Line dataKey="rsi" stroke="#8b5cf6" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+                {panels.includes('macd') && (
+                  <div className="h-[80px] w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <ComposedChart data={chartData} syncId="priceHistory">
+                        <XAxis dataKey="label" hide />
+                        <YAxis domain={['auto', 'auto']} tick={{fontSize: 10}} stroke="#94a3b8" axisLine={false} tickLine={false} width={48} tickFormatter={(v: number) => v.toFixed(1)} />
+                        <ReferenceLine y={0} stroke="#cbd5e1" />
+                        <Tooltip content={() => null} />
+                        <Bar dataKey="macdHistogram" isAnimationActive={false}>
+                          {chartData.map(point => (
+                            <Cell key={point.time} fill={(point.macdHistogram ?? 0) >= 0 ? UP_COLOR : DOWN_COLOR} fillOpacity={0.5} />
+                          ))}
+                        </Bar>
+                        <Line dataKey="macd" stroke="#3b82f6" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                        <Line dataKey="macdSignal" stroke="#f59e0b" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+                {/* Volume sub-chart */}
+                <div className="h-[80px] w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={chartData} syncId="priceHistory">
+                      <XAxis
+                        dataKey="label"
+                        tick={{fontSize: 10}}
+                        stroke="#94a3b8"
+                        axisLine={false}
+                        tickLine={false}
+                        minTickGap={24}
+                      />
+                      <YAxis
+                        tickFormatter={formatVolume}
+                        tick={{fontSize: 10}}
+                        stroke="#94a3b8"
+                        axisLine={false}
+                        tickLine={false}
+                        width={48}
+                      />
+                      <Tooltip content={() => null} />
+                      <Bar dataKey="volume" isAnimationActive={false}>
+                        {chartData.map(point => (
+                          <Cell key={point.time} fill={point.close >= point.open ? UP_COLOR : DOWN_COLOR} fillOpacity={0.4} />
+                        ))}
+                      </Bar>
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+              </>
+            )}
+
+            <div className="flex items-center justify-between gap-2 mt-3 text-xs text-slate-400">
+              <span>
+                {history
+                  ? `${PRICE_HISTORY_SOURCE_LABELS[history.source]} · ${history.interval === 'intraday' ? '분봉' : history.interval === 'weekly' ? '주봉' : '일봉'}`
+                  : '데이터 없음'}
+              </span>
+              <div className="flex items-center gap-1">
+                <input
+                  ref={csvInputRef}
+                  type="file"
+                  accept="text/csv,.csv"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImportCsv(file);
+                    e.target.value = '';
+                  }}
+                />
+                <button
+                  onClick={() => csvInputRef.current?.click()}
+                  className="flex items-center gap-1 text-slate-500 hover:bg-slate-100 px-2 py-1 rounded-lg transition-colors"
+                  title="Date,Open,High,Low,Close,Volume 열이 있는 CSV (Yahoo Finance, Stooq 형식)"
+                >
+                  <Upload className="h-3.5 w-3.5" />
+                  CSV 가져오기
+                </button>
+                {imported && (
+                  <button
+                    onClick={handleRemoveCsv}
+                    className="text-slate-400 hover:text-rose-500 px-1 py-1 transition-colors"
+                  >
+                    삭제
+                  </button>
+                )}
+              </div>
+            </div>
           </div>
+
+          <StockAnalysisPanel stock={stock} stored={analysis} onAnalyze={onAnalyze} />
+
+          {history?.source === 'fixture' && (
+            <div className="bg-slate-50 p-4 rounded-xl text-xs text-slate-500 leading-relaxed">
+              * 이 차트는 오프라인 샘플 스냅샷에 맞춰 생성한 예시 데이터로, 실제 거래 기록이 아닙니다. 실제 시세를 보려면 종목의 OHLCV CSV를 가져오세요.
+            </div>
+          )}
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,10 @@
+// FOMC policy decision days (second day of each meeting) as published by the Federal Reserve.
+// Statements come out at 2 p.m. New York time and minutes follow three weeks later.
+// Extend the list when the next year's schedule is announced.
+export const FOMC_DECISION_DATES: string[] = [
+  "2025-01-29", "2025-03-19", "2025-05-07", "2025-06-18",
+  "2025-07-30", "2025-09-17", "2025-10-29", "2025-12-10",
+
+  "2026-01-28", "2026-03-18", "2026-04-29", "2026-06-17",
+  "2026-07-29", "2026-09-16", "2026-10-28", "2026-12-09",
+];
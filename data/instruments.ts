@@ -0,0 +1,115 @@
+import { InstrumentCategory, InstrumentDefinition } from '../types';
+
+export const INSTRUMENT_CATEGORY_LABELS: Record<InstrumentCategory, string> = {
+  equity: "주가지수",
+  futures: "지수 선물",
+  rates: "금리",
+  fx: "환율·달러",
+  commodity: "원자재",
+  crypto: "가상자산",
+  volatility: "변동성",
+};
+
+// Every instrument the dashboard can show. The first five are the set reports had before
+// the list became configurable, so their names must stay as they are in saved reports.
+export const INSTRUMENTS: InstrumentDefinition[] = [
+  {
+    id: 'SPX',
+    name: "S&P 500",
+    category: 'equity',
+    searchHint: "S&P 500 지수",
+    aliases: ["S&P", "SPX"],
+  },
+  {
+    id: 'NASDAQ',
+    name: "NASDAQ",
+    category: 'equity',
+    searchHint: "나스닥 종합지수",
+    aliases: ["NASDAQ", "나스닥"],
+  },
+  {
+    id: 'DOW',
+    name: "Dow Jones",
+    category: 'equity',
+    searchHint: "다우존스 산업평균지수",
+    aliases: ["DOW", "다우"],
+  },
+  {
+    id: 'USDKRW',
+    name: "USD/KRW",
+    category: 'fx',
+    searchHint: "원/달러 환율 (원)",
+    aliases: ["USDKRW", "원/달러", "환율"],
+    pair: true,
+    usedBy: "포트폴리오 원화 평가와 환율 알림",
+  },
+  {
+    id: 'VIX',
+    name: "VIX",
+    category: 'volatility',
+    searchHint: "CBOE 변동성 지수 (VIX)",
+    aliases: ["VIX", "변동성"],
+    usedBy: "VIX 추이 차트, 변동성 인사이트와 VIX 알림",
+  },
+  {
+    id: 'NQ_FUTURES',
+    name: "NQ Futures",
+    category: 'futures',
+    searchHint: "나스닥100 E-mini 선물 (NQ) 근월물",
+    aliases: ["NQ", "나스닥100 선물"],
+  },
+  {
+    id: 'KOSPI200_NIGHT',
+    name: "KOSPI 200 야간선물",
+    category: 'futures',
+    searchHint: "코스피200 야간선물 (KRX 야간 파생상품시장) 최근 시세",
+    aliases: ["코스피 야간선물", "KOSPI NIGHT"],
+  },
+  {
+    id: 'US10Y',
+    name: "US 10Y",
+    category: 'rates',
+    searchHint: "미국 10년물 국채 금리 (%, change는 %p)",
+    aliases: ["미국 10년물", "10Y"],
+    yield: true,
+  },
+  {
+    id: 'US2Y',
+    name: "US 2Y",
+    category: 'rates',
+    searchHint: "미국 2년물 국채 금리 (%, change는 %p)",
+    aliases: ["미국 2년물", "2Y"],
+    yield: true,
+  },
+  {
+    id: 'DXY',
+    name: "DXY",
+    category: 'fx',
+    searchHint: "달러 인덱스 (ICE DXY)",
+    aliases: ["달러 인덱스", "달러인덱스"],
+  },
+  {
+    id: 'WTI',
+    name: "WTI",
+    category: 'commodity',
+    searchHint: "WTI 원유 선물 근월물 (USD/배럴)",
+    aliases: ["WTI 원유"],
+    currency: "USD",
+  },
+  {
+    id: 'GOLD',
+    name: "Gold",
+    category: 'commodity',
+    searchHint: "금 선물 근월물 (USD/온스)",
+    aliases: ["금 선물"],
+    currency: "USD",
+  },
+  {
+    id: 'BTC',
+    name: "BTC",
+    category: 'crypto',
+    searchHint: "비트코인 가격 (USD)",
+    aliases: ["비트코인", "Bitcoin"],
+    currency: "USD",
+  },
+];
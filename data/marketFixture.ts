@@ -0,0 +1,80 @@
+import { MarketSnapshot } from '../types';
+
+// Offline market snapshot used by the fixture data provider.
+// Values are a frozen post-close reading and are only meant for demos/offline runs.
+export const marketFixture: MarketSnapshot = {
+  asOf: "2026-10-16T16:00:00-04:00",
+  indices: [
+    { name: "S&P 500", value: 6712.45, changePercent: 0.84 },
+    { name: "NASDAQ", value: 22874.31, changePercent: 1.12 },
+    { name: "Dow Jones", value: 46288.9, changePercent: 0.31 },
+    { name: "VIX", value: 16.42, changePercent: -4.87 },
+    { name: "NQ Futures", value: 25012.5, changePercent: 1.05 },
+    { name: "KOSPI 200 야간선물", value: 512.35, changePercent: 0.62 },
+    { name: "US 10Y", value: 4.02, change: -0.035, changePercent: -0.86 },
+    { name: "US 2Y", value: 3.47, change: -0.052, changePercent: -1.48 },
+    { name: "DXY", value: 98.46, changePercent: -0.18 },
+    { name: "WTI", value: 57.54, changePercent: -1.34 },
+    { name: "Gold", value: 4326.8, changePercent: 0.92 },
+    { name: "BTC", value: 108420, changePercent: 2.16 },
+  ],
+  fx: [
+    { name: "USD/KRW", value: 1418.3, changePercent: 0.22 },
+  ],
+  quotes: [
+    // Gainers
+    { ticker: "SMCI", name: "슈퍼마이크로컴퓨터", price: 48.62, changePercent: 9.84 },
+    { ticker: "MU", name: "마이크론 테크놀로지", price: 187.35, changePercent: 7.12 },
+    { ticker: "ENPH", name: "엔페이즈 에너지", price: 41.18, changePercent: 6.45 },
+    { ticker: "TSLA", name: "테슬라", price: 438.77, changePercent: 5.38 },
+    { ticker: "PLTR", name: "팔란티어", price: 178.2, changePercent: 4.96 },
+    { ticker: "AMD", name: "AMD", price: 233.08, changePercent: 4.41 },
+    { ticker: "FSLR", name: "퍼스트 솔라", price: 241.6, changePercent: 3.87 },
+    { ticker: "NVDA", name: "엔비디아", price: 183.16, changePercent: 3.52 },
+    { ticker: "UBER", name: "우버", price: 97.44, changePercent: 3.18 },
+    { ticker: "AVGO", name: "브로드컴", price: 349.5, changePercent: 2.94 },
+    { ticker: "NFLX", name: "넷플릭스", price: 1198.4, changePercent: 2.61 },
+    { ticker: "META", name: "메타 플랫폼스", price: 717.02, changePercent: 1.88 },
+    { ticker: "GOOGL", name: "알파벳", price: 251.46, changePercent: 1.42 },
+    { ticker: "AAPL", name: "애플", price: 247.45, changePercent: 0.96 },
+    { ticker: "MSFT", name: "마이크로소프트", price: 513.58, changePercent: 0.71 },
+    { ticker: "AMZN", name: "아마존", price: 214.47, changePercent: 0.38 },
+    { ticker: "JPM", name: "JP모건 체이스", price: 298.11, changePercent: 0.12 },
+    // Losers
+    { ticker: "ORCL", name: "오라클", price: 291.31, changePercent: -0.54 },
+    { ticker: "KO", name: "코카콜라", price: 67.93, changePercent: -0.88 },
+    { ticker: "PG", name: "프록터 앤드 갬블", price: 151.2, changePercent: -1.21 },
+    { ticker: "UNH", name: "유나이티드헬스", price: 358.64, changePercent: -1.73 },
+    { ticker: "CVX", name: "셰브론", price: 151.02, changePercent: -2.05 },
+    { ticker: "NKE", name: "나이키", price: 67.15, changePercent: -2.48 },
+    { ticker: "BA", name: "보잉", price: 214.3, changePercent: -2.97 },
+    { ticker: "PFE", name: "화이자", price: 24.61, changePercent: -3.36 },
+    { ticker: "INTC", name: "인텔", price: 36.37, changePercent: -3.92 },
+    { ticker: "DG", name: "달러 제너럴", price: 99.88, changePercent: -4.55 },
+    { ticker: "LULU", name: "룰루레몬", price: 165.9, changePercent: -5.14 },
+    { ticker: "MRNA", name: "모더나", price: 25.07, changePercent: -6.02 },
+    { ticker: "ALB", name: "앨버말", price: 78.4, changePercent: -7.43 },
+    // Theme preset constituents (moves small enough to stay out of the Top 10 lists)
+    { ticker: "TSM", name: "TSMC", price: 297.84, changePercent: 1.95 },
+    { ticker: "ASML", name: "ASML", price: 1012.6, changePercent: 0.84 },
+    { ticker: "AMAT", name: "어플라이드 머티어리얼즈", price: 221.35, changePercent: 1.31 },
+    { ticker: "LRCX", name: "램리서치", price: 143.72, changePercent: 1.57 },
+    { ticker: "QCOM", name: "퀄컴", price: 163.9, changePercent: 1.12 },
+    { ticker: "LLY", name: "일라이 릴리", price: 812.4, changePercent: -0.62 },
+    { ticker: "NVO", name: "노보 노디스크", price: 54.18, changePercent: -1.15 },
+    { ticker: "AMGN", name: "암젠", price: 291.07, changePercent: 0.27 },
+    { ticker: "VKTX", name: "바이킹 테라퓨틱스", price: 33.46, changePercent: -1.38 },
+    { ticker: "REGN", name: "리제네론", price: 571.2, changePercent: 0.45 },
+    { ticker: "VRTX", name: "버텍스 파마슈티컬스", price: 421.88, changePercent: 0.58 },
+    { ticker: "XOM", name: "엑슨모빌", price: 112.64, changePercent: -1.02 },
+    { ticker: "COP", name: "코노코필립스", price: 87.31, changePercent: -1.44 },
+    { ticker: "SLB", name: "슐럼버거", price: 32.95, changePercent: -0.95 },
+    { ticker: "OXY", name: "옥시덴탈 페트롤리엄", price: 41.27, changePercent: -1.27 },
+    { ticker: "EOG", name: "EOG 리소시스", price: 107.9, changePercent: -0.81 },
+    { ticker: "LMT", name: "록히드 마틴", price: 497.55, changePercent: 0.64 },
+    { ticker: "RTX", name: "RTX", price: 158.42, changePercent: 0.93 },
+    { ticker: "NOC", name: "노스롭 그루먼", price: 588.1, changePercent: 0.41 },
+    { ticker: "GD", name: "제너럴 다이내믹스", price: 331.66, changePercent: 0.22 },
+    { ticker: "LHX", name: "L3해리스", price: 289.03, changePercent: 0.77 },
+  ],
+};
@@ -0,0 +1,56 @@
+import { TradingCalendar } from '../types';
+
+// NYSE full-day closures and 1 p.m. early closes as published by the exchange.
+// Extend `years` and the lists when a new year's schedule is announced; dates outside
+// the covered years fall back to a plain Mon–Fri calendar.
+export const nyseCalendar: TradingCalendar = {
+  exchange: "NYSE",
+  timeZone: "America/New_York",
+  regularOpen: "09:30",
+  regularClose: "16:00",
+  earlyClose: "13:00",
+  years: [2025, 2026, 2027],
+  holidays: {
+    "2025-01-01": "신정 (New Year's Day)",
+    "2025-01-09": "카터 전 대통령 추모일",
+    "2025-01-20": "마틴 루터 킹 데이",
+    "2025-02-17": "대통령의 날",
+    "2025-04-18": "성금요일 (Good Friday)",
+    "2025-05-26": "메모리얼 데이",
+    "2025-06-19": "준틴스 (Juneteenth)",
+    "2025-07-04": "독립기념일",
+    "2025-09-01": "노동절 (Labor Day)",
+    "2025-11-27": "추수감사절",
+    "2025-12-25": "크리스마스",
+
+    "2026-01-01": "신정 (New Year's Day)",
+    "2026-01-19": "마틴 루터 킹 데이",
+    "2026-02-16": "대통령의 날",
+    "2026-04-03": "성금요일 (Good Friday)",
+    "2026-05-25": "메모리얼 데이",
+    "2026-06-19": "준틴스 (Juneteenth)",
+    "2026-07-03": "독립기념일 (대체 휴장)",
+    "2026-09-07": "노동절 (Labor Day)",
+    "2026-11-26": "추수감사절",
+    "2026-12-25": "크리스마스",
+
+    "2027-01-01": "신정 (New Year's Day)",
+    "2027-01-18": "마틴 루터 킹 데이",
+    "2027-02-15": "대통령의 날",
+    "2027-03-26": "성금요일 (Good Friday)",
+    "2027-05-31": "메모리얼 데이",
+    "2027-06-18": "준틴스 (대체 휴장)",
+    "2027-07-05": "독립기념일 (대체 휴장)",
+    "2027-09-06": "노동절 (Labor Day)",
+    "2027-11-25": "추수감사절",
+    "2027-12-24": "크리스마스 (대체 휴장)",
+  },
+  earlyCloses: {
+    "2025-07-03": "독립기념일 전날",
+    "2025-11-28": "추수감사절 다음 날",
+    "2025-12-24": "크리스마스 이브",
+    "2026-11-27": "추수감사절 다음 날",
+    "2026-12-24": "크리스마스 이브",
+    "2027-11-26": "추수감사절 다음 날",
+  },
+};
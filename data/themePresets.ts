@@ -0,0 +1,36 @@
+import { ThemeDefinition } from '../types';
+
+// Ready-made themes offered in the settings. Seed tickers are the names most often used to
+// read the theme; users can edit or extend them once added.
+export const THEME_PRESETS: ThemeDefinition[] = [
+  {
+    id: 'ai',
+    name: "AI",
+    description: "AI 반도체·클라우드·플랫폼 대표주",
+    tickers: ["NVDA", "MSFT", "AMD", "GOOGL", "META", "AVGO", "ORCL", "PLTR"],
+  },
+  {
+    id: 'semiconductors',
+    name: "반도체",
+    description: "설계·파운드리·장비·메모리",
+    tickers: ["NVDA", "AVGO", "AMD", "TSM", "MU", "INTC", "QCOM", "ASML", "AMAT", "LRCX"],
+  },
+  {
+    id: 'glp1',
+    name: "GLP-1/바이오",
+    description: "비만·당뇨 치료제와 주요 바이오텍",
+    tickers: ["LLY", "NVO", "AMGN", "VKTX", "REGN", "VRTX", "MRNA"],
+  },
+  {
+    id: 'energy',
+    name: "에너지",
+    description: "석유·가스 메이저와 서비스",
+    tickers: ["XOM", "CVX", "COP", "SLB", "OXY", "EOG"],
+  },
+  {
+    id: 'defense',
+    name: "방산",
+    description: "미국 방위산업 대표주",
+    tickers: ["LMT", "RTX", "NOC", "GD", "LHX", "PLTR"],
+  },
+];
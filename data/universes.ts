@@ -0,0 +1,96 @@
+import { StockUniverse, StockUniverseId } from '../types';
+
+// Bundled constituent lists. Index membership changes at each rebalance, so users can
+// replace a list in the settings (stored as an override) without waiting for an app update.
+// Names moving in or out around the last rebalance are kept so they aren't rejected.
+const SP500_TICKERS = `
+A AAPL ABBV ABNB ABT ACGL ACN ADBE ADI ADM ADP ADSK AEE AEP AES AFL AIG AIZ AJG AKAM ALB ALGN ALL ALLE AMAT AMCR
+AMD AME AMGN AMP AMT AMZN ANET AON AOS APA APD APH APO APP APTV ARE ATO AVB AVGO AVY AWK AXON AXP AZO
+BA BAC BALL BAX BBY BDX BEN BF.B BG BIIB BK BKNG BKR BLDR BLK BMY BR BRK.B BRO BSX BWA BX BXP
+C CAG CAH CARR CAT CB CBOE CBRE CCI CCL CDNS CDW CE CEG CF CFG CHD CHRW CHTR CI CINF CL CLX CMCSA CME CMG CMI
+CMS CNC CNP COF COIN COO COP COR COST CPAY CPB CPRT CPT CRH CRL CRM CRWD CSCO CSGP CSX CTAS CTRA CTSH CTVA
+CVNA CVS CVX CZR
+D DAL DASH DAY DD DDOG DE DECK DELL DG DGX DHI DHR DIS DLR DLTR DOC DOV DOW DPZ DRI DTE DUK DVA DVN DXCM
+EA EBAY ECL ED EFX EG EIX EL ELV EME EMN EMR ENPH EOG EPAM EQIX EQR EQT ERIE ES ESS ETN ETR EVRG EW EXC
+EXE EXPD EXPE EXR
+F FANG FAST FCX FDS FDX FE FFIV FI FICO FIS FISV FITB FIX FMC FOX FOXA FRT FSLR FTNT FTV
+GD GDDY GE GEHC GEN GEV GILD GIS GL GLW GM GNRC GOOG GOOGL GPC GPN GRMN GS GWW
+HAL HAS HBAN HCA HD HIG HII HLT HOLX HON HOOD HPE HPQ HRL HSIC HST HSY HUBB HUM HWM
+IBKR IBM ICE IDXX IEX IFF INCY INTC INTU INVH IP IPG IQV IR IRM ISRG IT ITW IVZ
+J JBHT JBL JCI JKHY JNJ JPM
+K KDP KEY KEYS KHC KIM KKR KLAC KMB KMI KMX KO KR KVUE
+L LDOS LEN LH LHX LII LIN LKQ LLY LMT LNT LOW LRCX LULU LUV LVS LW LYB LYV
+MA MAA MAR MAS MCD MCHP MCK MCO MDLZ MDT MET META MGM MHK MKC MKTX MLM MMC MMM MNST MO MOH MOS MPC MPWR
+MRK MRNA MS MSCI MSFT MSI MTB MTCH MTD MU
+NCLH NDAQ NDSN NEE NEM NFLX NI NKE NOC NOW NRG NSC NTAP NTRS NUE NVDA NVR NWS NWSA NXPI
+O ODFL OKE OMC ON ORCL ORLY OTIS OXY
+PANW PAYC PAYX PCAR PCG PEG PEP PFE PFG PG PGR PH PHM PKG PLD PLTR PM PNC PNR PNW PODD POOL PPG PPL PRU
+PSA PSKY PSX PTC PWR PYPL
+QCOM QRVO
+RCL REG REGN RF RJF RL RMD ROK ROL ROP ROST RSG RTX RVTY
+SBAC SBUX SCHW SHW SJM SLB SMCI SNA SNPS SO SOLV SPG SPGI SRE STE STLD STT STX STZ SW SWK SWKS SYF SYK SYY
+T TAP TDG TDY TECH TEL TER TFC TFX TGT TJX TKO TMO TMUS TPL TPR TRGP TRMB TROW TRV TSCO TSLA TSN TT TTD
+TTWO TXN TXT TYL
+UAL UBER UDR UHS ULTA UNH UNP UPS URI USB
+V VICI VLO VLTO VMC VRSK VRSN VRTX VST VTR VTRS VZ
+WAB WAT WBD WDAY WDC WEC WELL WFC WM WMB WMT WRB WSM WST WTW WY WYNN
+XEL XOM XYL XYZ YUM ZBH ZBRA ZTS
+`;
+
+const NASDAQ100_TICKERS = `
+AAPL ABNB ADBE ADI ADP ADSK AEP ALNY AMAT AMD AMGN AMZN APP ARM ASML AVGO AXON AZN BIIB BKNG BKR CCEP CDNS
+CDW CEG CHTR CMCSA COST CPRT CRWD CSCO CSGP CSX CTAS CTSH DASH DDOG DXCM EA EXC FANG FAST FER FTNT GEHC
+GFS GILD GOOG GOOGL HON IDXX INSM INTC INTU ISRG KDP KHC KLAC LIN LRCX LULU MAR MCHP MDLZ MELI META MNST
+MPWR MRVL MSFT MSTR MU NFLX NVDA NXPI ODFL ON ORLY PANW PAYX PCAR PDD PEP PLTR PYPL QCOM REGN ROP ROST
+SBUX SHOP SNPS STX TEAM TMUS TRI TSLA TTD TTWO TXN VRSK VRTX WBD WDAY WDC XEL ZS
+`;
+
+const DOW30_TICKERS = `
+AAPL AMGN AMZN AXP BA CAT CRM CSCO CVX DIS GS HD HON IBM JNJ JPM KO MCD MMM MRK MSFT NKE NVDA PG SHW TRV
+UNH V VZ WMT
+`;
+
+// Liquid, larger Russell 2000 members; a screen rather than the full 2,000-name index
+const RUSSELL2000_SCREEN_TICKERS = `
+ABCB ACHR ACIW AEIS AEO ALKS AROC ASTS ATKR AVAV BCPC BOOT CALM CMC CORT CRS CVLT CWST ENSG ESNT FSS GATX
+GKOS HQY HIMS IDCC IONQ ITRI JXN KTB LNTH MARA MLI MOD NOVT OII PIPR QLYS RDNT RIOT RMBS SIGI SM SOUN SPSC
+TMHC UFPI VRNS
+`;
+
+const parseTickers = (list: string) => list.split(/\s+/).filter(Boolean);
+
+export const BUNDLED_UNIVERSES: Record<StockUniverseId, StockUniverse> = {
+  sp500: {
+    id: 'sp500',
+    name: "S&P 500",
+    label: "S&P500",
+    description: "미국 대형주 500개 (기본값)",
+    asOf: "2025-12",
+    tickers: parseTickers(SP500_TICKERS),
+  },
+  nasdaq100: {
+    id: 'nasdaq100',
+    name: "Nasdaq-100",
+    label: "나스닥100",
+    description: "나스닥 상장 비금융 대형주 100개",
+    asOf: "2025-12",
+    tickers: parseTickers(NASDAQ100_TICKERS),
+  },
+  dow30: {
+    id: 'dow30',
+    name: "Dow Jones Industrial Average",
+    label: "다우30",
+    description: "다우존스 산업평균지수 30개 종목",
+    asOf: "2024-11",
+    tickers: parseTickers(DOW30_TICKERS),
+  },
+  russell2000: {
+    id: 'russell2000',
+    name: "Russell 2000 (screen)",
+    label: "러셀2000",
+    description: "러셀2000 중 시가총액·거래대금 상위 스크린",
+    asOf: "2025-06",
+    screen: "러셀2000 편입 종목 중 시가총액과 거래대금이 큰 종목으로 구성한 스크린입니다.",
+    tickers: parseTickers(RUSSELL2000_SCREEN_TICKERS),
+  },
+};
@@ -0,0 +1,127 @@
+import { AlertCondition, AlertEvent, AlertRule, Quote, Report } from "../types";
+import { collectReportQuotes, findUsdKrw } from "./portfolioService";
+import { isVixIndex } from "./vixHistoryService";
+import { formatAmount, formatChangePercent, formatPrice } from "./quotes";
+
+const RULES_KEY = "marketMorning_alertRules";
+const HISTORY_KEY = "marketMorning_alertHistory";
+const HISTORY_LIMIT = 200;
+
+export const ALERT_CONDITIONS: Record<AlertCondition, { label: string; needsTicker: boolean; unit: string }> = {
+  priceAbove: { label: "종목 가격 이상", needsTicker: true, unit: "USD" },
+  priceBelow: { label: "종목 가격 이하", needsTicker: true, unit: "USD" },
+  moveBeyond: { label: "종목 일간 등락 ±", needsTicker: true, unit: "%" },
+  vixAbove: { label: "VIX 이상", needsTicker: false, unit: "pt" },
+  usdKrwAbove: { label: "USD/KRW 이상", needsTicker: false, unit: "원" },
+};
+
+export const loadAlertRules = (): AlertRule[] => {
+  try {
+    return JSON.parse(localStorage.getItem(RULES_KEY) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+export const saveAlertRules = (rules: AlertRule[]) => {
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+};
+
+// The random suffix keeps rules added within the same millisecond apart
+export const createAlertRuleId = () => `alert-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// "NVDA $200.00 이상", "VIX 25 이상"
+export const describeRule = (rule: AlertRule): string => {
+  const target = rule.ticker || (rule.condition === 'vixAbove' ? "VIX" : "USD/KRW");
+  switch (rule.condition) {
+    case 'priceAbove': return `${target} ${formatAmount(rule.threshold, "USD")} 이상`;
+    case 'priceBelow': return `${target} ${formatAmount(rule.threshold, "USD")} 이하`;
+    case 'moveBeyond': return `${target} 일간 등락 ±${rule.threshold}% 이상`;
+    case 'vixAbove': return `${target} ${rule.threshold} 이상`;
+    case 'usdKrwAbove': return `${target} ${formatAmount(rule.threshold, "KRW")} 이상`;
+  }
+};
+
+// Stocks that enabled rules need quoted, on top of the watchlist and holdings
+export const getAlertTickers = (rules: AlertRule[]): string[] =>
+  Array.from(new Set(rules.filter(r => r.enabled && r.ticker).map(r => r.ticker!.toUpperCase())));
+
+// The quote a rule looks at in a report, if the report has one
+const findRuleQuote = (rule: AlertRule, report: Report): Quote | undefined => {
+  if (rule.condition === 'vixAbove') return report.marketIndices.find(i => isVixIndex(i.name))?.quote;
+  if (rule.condition === 'usdKrwAbove') return findUsdKrw(report.marketIndices);
+  return collectReportQuotes(report).find(q => q.ticker === rule.ticker?.toUpperCase())?.quote;
+};
+
+const isMet = (rule: AlertRule, quote: Quote): boolean => {
+  switch (rule.condition) {
+    case 'priceBelow': return quote.price <= rule.threshold;
+    case 'moveBeyond': return Math.abs(quote.changePercent) >= rule.threshold;
+    default: return quote.price >= rule.threshold;
+  }
+};
+
+const alertMessage = (rule: AlertRule, quote: Quote) =>
+  `${describeRule(rule)} 도달: 현재 ${formatPrice(quote)} (${formatChangePercent(quote)})`;
+
+/**
+ * Checks every enabled rule against a freshly generated report.
+ * A rule fires when its condition starts to hold and stays quiet until a later report shows it cleared,
+ * so one crossing gives one alert. Rules the report has no reading for keep their state and are flagged `noReading`.
+ */
+export const evaluateAlerts = (rules: AlertRule[], report: Report, now = new Date()): { rules: AlertRule[]; events: AlertEvent[] } => {
+  const events: AlertEvent[] = [];
+  const updated = rules.map(rule => {
+    if (!rule.enabled) return rule;
+    const quote = findRuleQuote(rule, report);
+    if (!quote) return { ...rule, noReading: true };
+    const met = isMet(rule, quote);
+    if (met && !rule.triggered) {
+      events.push({
+        id: `${rule.id}-${now.getTime().toString(36)}`,
+        ruleId: rule.id,
+        message: alertMessage(rule, quote),
+        value: rule.condition === 'moveBeyond' ? quote.changePercent : quote.price,
+        firedAt: now.toISOString(),
+        dataAsOf: report.dataAsOf,
+        reportId: report.id,
+      });
+    }
+    return { ...rule, triggered: met, noReading: false };
+  });
+  return { rules: updated, events };
+};
+
+// --- History (newest first) ---
+
+export const loadAlertHistory = (): AlertEvent[] => {
+  try {
+    return JSON.parse(localStorage.getItem(HISTORY_KEY) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+// Prepends new events and returns the trimmed log
+export const appendAlertHistory = (events: AlertEvent[]): AlertEvent[] => {
+  const log = [...events, ...loadAlertHistory()].slice(0, HISTORY_LIMIT);
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(log));
+  return log;
+};
+
+export const clearAlertHistory = () => localStorage.removeItem(HISTORY_KEY);
+
+// One browser notification per event; tagged by rule so a repeat replaces the older one
+export const notifyAlerts = (events: AlertEvent[]) => {
+  if (!("Notification" in window) || Notification.permission !== "granted") return;
+  events.forEach(event => {
+    const notification = new Notification("MarketMorning 가격 알림", {
+      body: event.message,
+      tag: `marketMorning-alert-${event.ruleId}`,
+    });
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+  });
+};
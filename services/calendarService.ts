@@ -0,0 +1,251 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { CalendarEvent, MacroIndicator } from "../types";
+import { FOMC_DECISION_DATES } from "../data/fomcCalendar";
+import { nyseCalendar } from "../data/nyseCalendar";
+import { assertNotBlocked, GeminiError } from "./geminiErrors";
+import { getModelChain, withModelFallback } from "./modelService";
+import { addDays, toZonedDate } from "./marketCalendar";
+
+export const MACRO_LABELS: Record<MacroIndicator, string> = {
+  CPI: "CPI (전년 대비)",
+  CORE_CPI: "근원 CPI (전년 대비)",
+  PCE: "PCE 물가 (전년 대비)",
+  CORE_PCE: "근원 PCE (전년 대비)",
+  NFP: "비농업 고용 (NFP)",
+  FOMC_DECISION: "FOMC 금리 결정",
+  FOMC_MINUTES: "FOMC 의사록",
+};
+
+// NFP is a payroll change in thousands; everything else is a rate
+const MACRO_UNITS: Record<MacroIndicator, string> = {
+  CPI: "%", CORE_CPI: "%", PCE: "%", CORE_PCE: "%", NFP: "K", FOMC_DECISION: "%", FOMC_MINUTES: "",
+};
+
+// Releases from the past week are kept so the next report can read their actuals
+const LOOKBACK_DAYS = 7;
+const LOOKAHEAD_DAYS = 7;
+
+// Index heavyweights reporting in the window, on top of the user's own tickers
+const MAX_INDEX_EARNINGS = 15;
+
+const MINUTES_DELAY_DAYS = 21;
+
+// The calendar window in New York dates around `now`
+export const getCalendarWindow = (now = new Date()) => {
+  const today = toZonedDate(now, nyseCalendar.timeZone);
+  return { today, from: addDays(today, -LOOKBACK_DAYS), to: addDays(today, LOOKAHEAD_DAYS) };
+};
+
+const macroId = (indicator: MacroIndicator, date: string) => `${indicator}:${date}`;
+const earningsId = (ticker: string, date: string) => `EARN:${ticker.toUpperCase()}:${date}`;
+
+// Decision and minutes days from the bundled FOMC schedule; these never depend on search
+export const getFomcEvents = (from: string, to: string): CalendarEvent[] =>
+  FOMC_DECISION_DATES.flatMap(decision => [
+    { indicator: 'FOMC_DECISION' as const, date: decision },
+    { indicator: 'FOMC_MINUTES' as const, date: addDays(decision, MINUTES_DELAY_DAYS) },
+  ])
+    .filter(({ date }) => date >= from && date <= to)
+    .map(({ indicator, date }) => ({
+      id: macroId(indicator, date),
+      kind: 'macro' as const,
+      indicator,
+      title: MACRO_LABELS[indicator],
+      date,
+      time: "14:00 ET",
+      ...(MACRO_UNITS[indicator] && { unit: MACRO_UNITS[indicator] }),
+    }));
+
+const byDate = (a: CalendarEvent, b: CalendarEvent) =>
+  a.date.localeCompare(b.date) || (a.time || "").localeCompare(b.time || "") || a.title.localeCompare(b.title);
+
+/**
+ * Combines calendar lists by event id, later lists winning.
+ * The exception is the consensus of a figure that has just come out: sources tend to overwrite the
+ * forecast with the print, and the surprise must be measured against what was expected beforehand.
+ */
+export const mergeCalendar = (...lists: CalendarEvent[][]): CalendarEvent[] => {
+  const merged = new Map<string, CalendarEvent>();
+  lists.flat().forEach(event => {
+    const existing = merged.get(event.id);
+    if (!existing) {
+      merged.set(event.id, event);
+      return;
+    }
+    const justReleased = existing.actual === undefined && event.actual !== undefined;
+    merged.set(event.id, {
+      ...existing,
+      ...event,
+      consensus: justReleased ? existing.consensus ?? event.consensus : event.consensus ?? existing.consensus,
+      prior: event.prior ?? existing.prior,
+      actual: event.actual ?? existing.actual,
+      time: event.time || existing.time,
+    });
+  });
+  return Array.from(merged.values()).sort(byDate);
+};
+
+const inWindow = (events: CalendarEvent[], from: string, to: string) =>
+  events.filter(event => event.date >= from && event.date <= to);
+
+// Actual minus consensus, and relative to the consensus for EPS; null until both are known
+export const getSurprise = (event: CalendarEvent): { diff: number; percent?: number } | null => {
+  if (event.actual === undefined || event.consensus === undefined) return null;
+  const diff = event.actual - event.consensus;
+  return event.kind === 'earnings' && event.consensus !== 0
+    ? { diff, percent: (diff / Math.abs(event.consensus)) * 100 }
+    : { diff };
+};
+
+// Events with a figure out (or already past) vs. those still ahead
+export const splitCalendar = (events: CalendarEvent[], today: string) => ({
+  released: events.filter(e => e.actual !== undefined || e.date < today),
+  upcoming: events.filter(e => e.actual === undefined && e.date >= today),
+});
+
+const macroSchema = {
+  type: Type.OBJECT,
+  properties: {
+    indicator: { type: Type.STRING, enum: ["CPI", "CORE_CPI", "PCE", "CORE_PCE", "NFP", "FOMC_DECISION", "FOMC_MINUTES"] },
+    date: { type: Type.STRING, description: "발표일 YYYY-MM-DD (뉴욕 기준)" },
+    time: { type: Type.STRING, description: "발표 시각, 예: 08:30 ET" },
+    consensus: { type: Type.NUMBER, description: "발표 전 시장 예상치" },
+    prior: { type: Type.NUMBER, description: "직전 발표치" },
+    actual: { type: Type.NUMBER, description: "발표된 실제치 (발표 전이면 생략)" },
+  },
+  required: ["indicator", "date"],
+};
+
+const earningsSchema = {
+  type: Type.OBJECT,
+  properties: {
+    ticker: { type: Type.STRING },
+    name: { type: Type.STRING, description: "한글 종목명" },
+    date: { type: Type.STRING, description: "실적 발표일 YYYY-MM-DD (뉴욕 기준)" },
+    timing: { type: Type.STRING, description: "장전 / 장후 / 미정" },
+    consensus: { type: Type.NUMBER, description: "EPS 컨센서스 (USD)" },
+    prior: { type: Type.NUMBER, description: "전년 동기 EPS (USD)" },
+    actual: { type: Type.NUMBER, description: "발표된 EPS (USD, 발표 전이면 생략)" },
+  },
+  required: ["ticker", "date"],
+};
+
+interface RawMacro {
+  indicator: MacroIndicator;
+  date: string;
+  time?: string;
+  consensus?: number;
+  prior?: number;
+  actual?: number;
+}
+
+interface RawEarnings {
+  ticker: string;
+  name?: string;
+  date: string;
+  timing?: string;
+  consensus?: number;
+  prior?: number;
+  actual?: number;
+}
+
+// Drops the fields the model left out rather than keeping undefined/null keys
+const readings = ({ consensus, prior, actual }: { consensus?: number; prior?: number; actual?: number }) => ({
+  ...(typeof consensus === "number" && { consensus }),
+  ...(typeof prior === "number" && { prior }),
+  ...(typeof actual === "number" && { actual }),
+});
+
+const toMacroEvent = (raw: RawMacro): CalendarEvent => ({
+  id: macroId(raw.indicator, raw.date),
+  kind: 'macro',
+  indicator: raw.indicator,
+  title: MACRO_LABELS[raw.indicator],
+  date: raw.date,
+  ...(raw.time && { time: raw.time }),
+  ...(MACRO_UNITS[raw.indicator] && { unit: MACRO_UNITS[raw.indicator] }),
+  ...readings(raw),
+});
+
+const toEarningsEvent = (raw: RawEarnings): CalendarEvent => ({
+  id: earningsId(raw.ticker, raw.date),
+  kind: 'earnings',
+  ticker: raw.ticker.toUpperCase(),
+  title: `${raw.name || raw.ticker.toUpperCase()} 실적`,
+  date: raw.date,
+  ...(raw.timing && raw.timing !== "미정" && { time: raw.timing }),
+  unit: "USD",
+  ...readings(raw),
+});
+
+const isDay = (value: unknown): value is string => typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+export interface CalendarFetchOptions {
+  from: string;
+  to: string;
+  tickers?: string[]; // Watchlist and holdings, looked up on top of the index names
+  previous?: CalendarEvent[]; // Last report's calendar; keeps pre-release consensus and fills gaps
+  models?: string[];
+  signal?: AbortSignal;
+}
+
+// Macro releases and earnings in the window, from search, merged with the bundled FOMC schedule
+export const fetchCalendarEvents = async (
+  apiKey: string,
+  { from, to, tickers = [], previous = [], models = getModelChain(), signal }: CalendarFetchOptions
+): Promise<CalendarEvent[]> => {
+  if (!apiKey) {
+    throw new GeminiError('invalidKey', "API Key is missing");
+  }
+
+  const ai = new GoogleGenAI({ apiKey });
+  const nyTime = new Date().toLocaleString("en-US", { timeZone: "America/New_York" });
+  const prompt = `
+    Current System Time (New York): ${nyTime}
+
+    **반드시 Google Search 도구를 사용하여** ${from} ~ ${to} (뉴욕 기준) 기간의 미국 경제지표와 실적 발표 일정을 조사하고 JSON으로 반환하세요.
+
+    1. macro: 이 기간에 발표되었거나 발표 예정인 CPI, 근원 CPI, PCE, 근원 PCE(모두 전년 대비 %), 비농업 고용(NFP, 천 명 단위 증감), FOMC 금리 결정(상단 금리 %), FOMC 의사록.
+       consensus는 발표 전 시장 예상치, prior는 직전 발표치, actual은 이미 발표된 경우의 실제치입니다.
+    2. earnings: 이 기간에 실적을 발표했거나 발표 예정인 S&P 500 시가총액 상위 종목 최대 ${MAX_INDEX_EARNINGS}개${tickers.length > 0 ? `와 다음 종목: ${tickers.join(", ")}` : ""}.
+       EPS 컨센서스(consensus), 전년 동기 EPS(prior), 발표된 EPS(actual)를 USD로 적으세요. 기간 내 발표가 없는 종목은 제외하세요.
+
+    검색으로 확인하지 못한 수치는 생략하세요. 추정치를 만들지 마세요.
+  `;
+
+  const { result } = await withModelFallback(models, async (model) => {
+    const response = await ai.models.generateContent({
+      model,
+      contents: prompt,
+      config: {
+        tools: [{ googleSearch: {} }],
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            macro: { type: Type.ARRAY, items: macroSchema },
+            earnings: { type: Type.ARRAY, items: earningsSchema },
+          },
+          required: ["macro", "earnings"],
+        },
+        abortSignal: signal,
+      },
+    });
+    assertNotBlocked(response);
+    return JSON.parse(response.text || "{}");
+  }, { signal });
+
+  const macro = ((result.macro || []) as RawMacro[])
+    .filter(m => isDay(m.date) && m.indicator in MACRO_LABELS)
+    .map(toMacroEvent);
+  const earnings = ((result.earnings || []) as RawEarnings[])
+    .filter(e => isDay(e.date) && e.ticker)
+    .map(toEarningsEvent);
+
+  // Search supplies FOMC figures; the bundled schedule keeps the dates right if it misses them
+  return inWindow(mergeCalendar(previous, getFomcEvents(from, to), macro, earnings), from, to);
+};
+
+// The offline calendar: last report's events still in the window plus the FOMC schedule
+export const getFallbackCalendar = (from: string, to: string, previous: CalendarEvent[] = []): CalendarEvent[] =>
+  inWindow(mergeCalendar(previous, getFomcEvents(from, to)), from, to);
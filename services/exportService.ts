@@ -0,0 +1,369 @@
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import ReactMarkdown from "react-markdown";
+import { CalendarEvent, PortfolioSummary, Report, StockAnalysis, StockItem, WatchlistEntry } from "../types";
+import { SECTION_LABELS, formatSourcesText } from "./groundingService";
+import { getModelLabel } from "./modelService";
+import { DATA_SOURCE_LABELS } from "./marketDataService";
+import { SESSION_MODES } from "./sessionModes";
+import { getTopListTitle } from "./universeService";
+import { migrateReport } from "./reportMigration";
+import { formatAmount, formatChangePercent, formatPercent, formatPrice, formatReading, isUp } from "./quotes";
+import { pnlPercent } from "./portfolioService";
+import { getSurprise } from "./calendarService";
+import { formatInstrumentChange, formatInstrumentLevel, getDerivedMetrics } from "./instrumentService";
+
+// Identifies files written by exportReportJson so imports can reject arbitrary JSON
+const EXPORT_FORMAT = "market-morning-report";
+const EXPORT_VERSION = 2; // 2: numeric quotes and theme blocks
+
+interface ReportExportFile {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  report: Report;
+}
+
+const REQUIRED_FIELDS: (keyof Report)[] = [
+  "id", "date", "reportTitle", "marketOverview", "marketIndices", "gainers", "losers", "themes", "economicContext", "conclusion"
+];
+
+// "미국 증시 브리핑 - 2026-10-16" -> "미국-증시-브리핑-2026-10-16"
+export const getExportFileName = (report: Report, extension: string) =>
+  `${report.reportTitle.replace(/[\\/:*?"<>|]/g, "").replace(/\s+/g, "-").replace(/-+/g, "-")}.${extension}`;
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// --- Markdown ---
+
+// Free text in a table cell: a "|" or line break would otherwise split the row
+export const escapeTableCell = (text: string) => text.replace(/\|/g, "\\|").replace(/\s*\r?\n\s*/g, " ");
+
+const markdownTable = (title: string, items: StockItem[]) => {
+  if (items.length === 0) return `### ${title}\n\n데이터 없음\n`;
+  const rows = items.map(item => `| ${item.ticker} | ${item.name} | ${formatPrice(item.quote)} | ${formatChangePercent(item.quote)} |`);
+  return `### ${title}\n\n| 티커 | 종목명 | 현재가 | 등락률 |\n| --- | --- | ---: | ---: |\n${rows.join("\n")}\n`;
+};
+
+const markdownWatchlist = (entries: WatchlistEntry[]) => {
+  const rows = entries.map(e =>
+    `| ${e.ticker} | ${e.name} | ${e.quote ? formatPrice(e.quote) : "-"} | ${e.quote ? formatChangePercent(e.quote) : "-"} | ${escapeTableCell(e.comment)} |`
+  );
+  return `| 티커 | 종목명 | 현재가 | 등락률 | 코멘트 |\n| --- | --- | ---: | ---: | --- |\n${rows.join("\n")}`;
+};
+
+// One-line valuation shown above the portfolio review
+const portfolioSummaryLine = ({ valueKrw, daily, total, costKrw }: PortfolioSummary) =>
+  `평가 금액 ${formatAmount(valueKrw, "KRW")} · 오늘 ${formatAmount(daily.krw, "KRW", { signed: true })}` +
+  ` · 누적 ${formatAmount(total.krw, "KRW", { signed: true })} (주가 ${formatAmount(total.stockEffectKrw, "KRW", { signed: true })}, 환율 ${formatAmount(total.fxEffectKrw, "KRW", { signed: true })}, ${formatPercent(pnlPercent(total.krw, costKrw))})`;
+
+// Calendar row cells: date, event, actual, consensus, prior, surprise
+const calendarCells = (event: CalendarEvent): string[] => {
+  const read = (value?: number) => (value === undefined ? "-" : formatReading(value, event.unit));
+  const surprise = getSurprise(event);
+  return [
+    `${event.date}${event.time ? ` ${event.time}` : ""}`,
+    event.title,
+    read(event.actual),
+    read(event.consensus),
+    read(event.prior),
+    surprise ? formatReading(surprise.diff, event.unit, { signed: true }) : "-",
+  ];
+};
+
+const CALENDAR_HEADERS = ["일시 (뉴욕)", "일정", "실제", "예상", "이전", "서프라이즈"];
+
+const markdownCalendar = (events: CalendarEvent[]) =>
+  `| ${CALENDAR_HEADERS.join(" | ")} |\n| --- | --- | ---: | ---: | ---: | ---: |\n${events.map(e => `| ${calendarCells(e).join(" | ")} |`).join("\n")}`;
+
+const markdownAnalysis = (analysis: StockAnalysis) => [
+  `### ${analysis.ticker} (${analysis.date})`,
+  analysis.catalyst,
+  analysis.headlines.map(h => `- ${h.url ? `[${h.title}](${h.url})` : h.title} — ${h.source}`).join("\n"),
+  analysis.nextEarnings && `다음 실적 발표: ${analysis.nextEarnings.date}${analysis.nextEarnings.timing ? ` (${analysis.nextEarnings.timing})` : ""}`,
+  analysis.analystActions.length > 0 && `애널리스트: ${analysis.analystActions.map(a => `${a.firm} ${a.action}`).join(", ")}`,
+].filter(Boolean).join("\n\n");
+
+export const reportToMarkdown = (report: Report): string => {
+  const meta = [
+    `기준일: ${report.date}`,
+    report.sessionMode && `세션: ${SESSION_MODES[report.sessionMode].label}`,
+    report.model && `모델: ${getModelLabel(report.model)}`,
+    report.dataSource && `데이터: ${DATA_SOURCE_LABELS[report.dataSource]}`,
+  ].filter(Boolean).join(" · ");
+
+  const indices = [
+    ...report.marketIndices.map(i => `| ${i.name} | ${formatInstrumentLevel(i)} | ${formatInstrumentChange(i)} |`),
+    ...getDerivedMetrics(report.marketIndices).map(m =>
+      `| ${m.name} | ${formatReading(m.valueBp, "bp", { signed: true })} | ${formatReading(m.changeBp, "bp", { signed: true })} |`
+    ),
+  ].join("\n");
+
+  return [
+    `# ${report.reportTitle}`,
+    `_${meta}_`,
+    `## 주요 지표\n\n| 지표 | 값 | 등락 |\n| --- | ---: | ---: |\n${indices}`,
+    `## ${SECTION_LABELS.marketOverview}\n\n${report.marketOverview}${formatSourcesText(report.sources, 'marketOverview')}`,
+    report.sessionMode && report.sessionHighlights
+      ? `## ${SESSION_MODES[report.sessionMode].highlightsLabel}\n\n${report.sessionHighlights}${formatSourcesText(report.sources, 'sessionHighlights')}`
+      : "",
+    `## 상승/하락 종목\n\n${markdownTable(getTopListTitle(report.universe, 'gainers'), report.gainers)}\n${markdownTable(getTopListTitle(report.universe, 'losers'), report.losers)}`,
+    ...report.themes.map(theme =>
+      `## ${theme.name} ${SECTION_LABELS.themes}\n\n${theme.summary}\n\n${markdownTable(`${theme.name} 상승세`, theme.rising)}\n${markdownTable(`${theme.name} 하락세`, theme.falling)}`
+    ),
+    report.themes.length > 0 ? formatSourcesText(report.sources, 'themes').trim() : "",
+    report.watchlist?.length
+      ? `## ${SECTION_LABELS.watchlist}\n\n${markdownWatchlist(report.watchlist)}${formatSourcesText(report.sources, 'watchlist')}`
+      : "",
+    report.portfolio && report.portfolioReview
+      ? `## ${SECTION_LABELS.portfolio}\n\n_${portfolioSummaryLine(report.portfolio)}_\n\n${report.portfolioReview}${formatSourcesText(report.sources, 'portfolio')}`
+      : "",
+    report.calendar?.length ? `## ${SECTION_LABELS.calendar}\n\n${markdownCalendar(report.calendar)}` : "",
+    `## ${SECTION_LABELS.economicContext}\n\n${report.economicContext}${formatSourcesText(report.sources, 'economicContext')}`,
+    `## ${SECTION_LABELS.conclusion}\n\n${report.conclusion}${formatSourcesText(report.sources, 'conclusion')}`,
+    ...(report.pinnedSections || []).map(pinned => `## ${pinned.title}\n\n${pinned.content}`),
+    report.stockAnalyses && Object.keys(report.stockAnalyses).length > 0
+      ? `## 종목 분석\n\n${Object.values(report.stockAnalyses).map(markdownAnalysis).join("\n\n")}`
+      : "",
+    report.sources && report.sources.citations.length > 0 ? `## 전체 출처${formatSourcesText(report.sources)}` : "",
+  ].filter(Boolean).join("\n\n") + "\n";
+};
+
+// --- HTML / PDF ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const markdownToHtml = (markdown: string) => renderToStaticMarkup(createElement(ReactMarkdown, null, markdown));
+
+const htmlTable = (title: string, items: StockItem[], tone: "up" | "down" | "neutral") => `
+  <div class="table-card">
+    <h3 class="${tone}">${escapeHtml(title)}</h3>
+    <table>
+      <thead><tr><th>티커</th><th>종목명</th><th class="num">현재가</th><th class="num">등락률</th></tr></thead>
+      <tbody>
+        ${items.length === 0 ? `<tr><td colspan="4" class="empty">데이터 없음</td></tr>` : items.map(item => `
+          <tr>
+            <td><strong>${escapeHtml(item.ticker)}</strong></td>
+            <td>${escapeHtml(item.name)}</td>
+            <td class="num">${escapeHtml(formatPrice(item.quote))}</td>
+            <td class="num ${isUp(item.quote) ? "up" : "down"}">${escapeHtml(formatChangePercent(item.quote))}</td>
+          </tr>`).join("")}
+      </tbody>
+    </table>
+  </div>`;
+
+const htmlSources = (report: Report, section: keyof typeof SECTION_LABELS) => {
+  const indices = report.sources?.sections[section] || [];
+  if (!report.sources || indices.length === 0) return "";
+  return `<p class="sources">출처: ${indices.map(i =>
+    `<a href="${escapeHtml(report.sources!.citations[i].uri)}">[${i + 1}] ${escapeHtml(report.sources!.citations[i].title)}</a>`
+  ).join(" ")}</p>`;
+};
+
+const htmlSection = (
+  report: Report,
+  section: 'marketOverview' | 'sessionHighlights' | 'economicContext' | 'conclusion',
+  title: string = SECTION_LABELS[section]
+) => `
+  <section>
+    <h2>${escapeHtml(title)}</h2>
+    <div class="prose">${markdownToHtml(report[section] || "")}</div>
+    ${htmlSources(report, section)}
+  </section>`;
+
+// Self-contained, print-friendly document (no external CSS or scripts)
+export const reportToHtml = (report: Report): string => `<!DOCTYPE html>
+<html lang="ko">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(report.reportTitle)}</title>
+<style>
+  body { font-family: 'Inter', 'Apple SD Gothic Neo', 'Malgun Gothic', sans-serif; color: #0f172a; max-width: 960px; margin: 32px auto; padding: 0 24px; line-height: 1.6; }
+  h1 { font-size: 26px; margin-bottom: 4px; }
+  h2 { font-size: 18px; border-bottom: 1px solid #e2e8f0; padding-bottom: 6px; margin-top: 32px; }
+  h3 { font-size: 14px; margin: 0 0 8px; }
+  .meta { color: #64748b; font-size: 13px; }
+  .cards { display: grid; grid-template-columns: repeat(5, 1fr); gap: 12px; margin-top: 24px; }
+  .card { border: 1px solid #e2e8f0; border-radius: 12px; padding: 12px; }
+  .card .name { color: #64748b; font-size: 12px; font-weight: 600; }
+  .card .value { font-size: 20px; font-weight: 700; }
+  .tables { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; }
+  .table-card { border: 1px solid #e2e8f0; border-radius: 12px; padding: 12px; break-inside: avoid; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th { text-align: left; color: #64748b; font-size: 11px; border-bottom: 1px solid #e2e8f0; padding: 4px; }
+  td { border-bottom: 1px solid #f1f5f9; padding: 4px; }
+  .num { text-align: right; white-space: nowrap; }
+  .up { color: #059669; }
+  .down { color: #e11d48; }
+  .neutral { color: #7c3aed; }
+  .empty { text-align: center; color: #94a3b8; }
+  .summary { background: #f8fafc; border-radius: 8px; padding: 12px; font-size: 14px; }
+  .sources { font-size: 11px; color: #64748b; }
+  .sources a { color: #64748b; margin-right: 8px; }
+  section { break-inside: avoid-page; }
+  @media print { body { margin: 0; } a { text-decoration: none; } }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(report.reportTitle)}</h1>
+  <div class="meta">${escapeHtml(report.date)} 기준${report.sessionMode ? ` · ${SESSION_MODES[report.sessionMode].label}` : ""}${report.model ? ` · ${escapeHtml(getModelLabel(report.model))}` : ""}${report.dataSource ? ` · ${escapeHtml(DATA_SOURCE_LABELS[report.dataSource])}` : ""}</div>
+
+  <div class="cards">
+    ${report.marketIndices.map(i => `
+      <div class="card">
+        <div class="name">${escapeHtml(i.name)}</div>
+        <div class="value">${escapeHtml(formatInstrumentLevel(i))}</div>
+        <div class="${isUp(i.quote) ? "up" : "down"}">${escapeHtml(formatInstrumentChange(i))}</div>
+      </div>`).join("")}
+    ${getDerivedMetrics(report.marketIndices).map(m => `
+      <div class="card">
+        <div class="name">${escapeHtml(m.name)}</div>
+        <div class="value">${escapeHtml(formatReading(m.valueBp, "bp", { signed: true }))}</div>
+        <div class="${m.changeBp >= 0 ? "up" : "down"}">${escapeHtml(formatReading(m.changeBp, "bp", { signed: true }))}</div>
+      </div>`).join("")}
+  </div>
+
+  ${htmlSection(report, 'marketOverview')}
+  ${report.sessionMode && report.sessionHighlights ? htmlSection(report, 'sessionHighlights', SESSION_MODES[report.sessionMode].highlightsLabel) : ""}
+
+  <section>
+    <h2>상승/하락 종목</h2>
+    <div class="tables">
+      ${htmlTable(getTopListTitle(report.universe, 'gainers'), report.gainers, "up")}
+      ${htmlTable(getTopListTitle(report.universe, 'losers'), report.losers, "down")}
+    </div>
+  </section>
+
+  ${report.themes.map(theme => `
+  <section>
+    <h2>${escapeHtml(`${theme.name} ${SECTION_LABELS.themes}`)}</h2>
+    <p class="summary">${escapeHtml(theme.summary)}</p>
+    <div class="tables">
+      ${htmlTable(`${theme.name} 상승세`, theme.rising, "neutral")}
+      ${htmlTable(`${theme.name} 하락세`, theme.falling, "neutral")}
+    </div>
+  </section>`).join("")}
+  ${report.themes.length > 0 ? htmlSources(report, 'themes') : ""}
+
+  ${report.watchlist?.length ? `
+  <section>
+    <h2>${SECTION_LABELS.watchlist}</h2>
+    <table>
+      <thead><tr><th>티커</th><th>종목명</th><th class="num">현재가</th><th class="num">등락률</th><th>코멘트</th></tr></thead>
+      <tbody>
+        ${report.watchlist.map(e => `
+          <tr>
+            <td><strong>${escapeHtml(e.ticker)}</strong></td>
+            <td>${escapeHtml(e.name)}</td>
+            <td class="num">${e.quote ? escapeHtml(formatPrice(e.quote)) : "-"}</td>
+            <td class="num ${e.quote ? (isUp(e.quote) ? "up" : "down") : ""}">${e.quote ? escapeHtml(formatChangePercent(e.quote)) : "-"}</td>
+            <td>${escapeHtml(e.comment)}</td>
+          </tr>`).join("")}
+      </tbody>
+    </table>
+    ${htmlSources(report, 'watchlist')}
+  </section>` : ""}
+
+  ${report.portfolio && report.portfolioReview ? `
+  <section>
+    <h2>${SECTION_LABELS.portfolio}</h2>
+    <p class="summary">${escapeHtml(portfolioSummaryLine(report.portfolio))}</p>
+    <div class="prose">${markdownToHtml(report.portfolioReview)}</div>
+    ${htmlSources(report, 'portfolio')}
+  </section>` : ""}
+
+  ${report.calendar?.length ? `
+  <section>
+    <h2>${SECTION_LABELS.calendar}</h2>
+    <table>
+      <thead><tr>${CALENDAR_HEADERS.map((h, i) => `<th${i >= 2 ? ' class="num"' : ""}>${h}</th>`).join("")}</tr></thead>
+      <tbody>
+        ${report.calendar.map(e => `
+          <tr>${calendarCells(e).map((cell, i) => `<td${i >= 2 ? ' class="num"' : ""}>${escapeHtml(cell)}</td>`).join("")}</tr>`).join("")}
+      </tbody>
+    </table>
+  </section>` : ""}
+
+  ${htmlSection(report, 'economicContext')}
+  ${htmlSection(report, 'conclusion')}
+
+  ${(report.pinnedSections || []).map(pinned => `
+  <section>
+    <h2>${escapeHtml(pinned.title)}</h2>
+    <div class="prose">${markdownToHtml(pinned.content)}</div>
+  </section>`).join("")}
+
+  ${report.stockAnalyses && Object.keys(report.stockAnalyses).length > 0 ? `
+  <section>
+    <h2>종목 분석</h2>
+    ${Object.values(report.stockAnalyses).map(a => `
+    <h3>${escapeHtml(`${a.ticker} (${a.date})`)}</h3>
+    <div class="prose">${markdownToHtml(a.catalyst)}</div>
+    <ul class="sources">${a.headlines.map(h => `<li>${h.url ? `<a href="${escapeHtml(h.url)}">${escapeHtml(h.title)}</a>` : escapeHtml(h.title)} — ${escapeHtml(h.source)}</li>`).join("")}</ul>`).join("")}
+  </section>` : ""}
+</body>
+</html>
+`;
+
+// Opens the HTML layout in a new window and triggers the print dialog ("PDF로 저장")
+export const printReport = (report: Report) => {
+  const win = window.open("", "_blank");
+  if (!win) throw new Error("팝업이 차단되어 인쇄 창을 열 수 없습니다.");
+  win.document.write(reportToHtml(report));
+  win.document.close();
+  win.focus();
+  // Some browsers don't fire onload for document.write content, so fall back to a timer
+  let printed = false;
+  const print = () => {
+    if (printed) return;
+    printed = true;
+    win.print();
+  };
+  win.onload = print;
+  setTimeout(print, 500);
+};
+
+// --- JSON (lossless round-trip) ---
+
+export const exportReportJson = (report: Report): string => {
+  const file: ReportExportFile = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    report,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// Parses a file produced by exportReportJson. Throws with a user-facing message on bad input.
+export const importReportJson = (text: string): Report => {
+  let parsed: Partial<ReportExportFile>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("JSON 파일을 읽을 수 없습니다.");
+  }
+
+  if (parsed?.format !== EXPORT_FORMAT || !parsed.report) {
+    throw new Error("MarketMorning 보고서 파일이 아닙니다.");
+  }
+  if ((parsed.version ?? 0) > EXPORT_VERSION) {
+    throw new Error("더 최신 버전의 앱에서 내보낸 파일입니다.");
+  }
+
+  // Files exported before themes carry the old AI block, which is migrated first
+  const report = migrateReport(parsed.report);
+  const missing = REQUIRED_FIELDS.filter(field => report[field] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`보고서에 필수 항목이 없습니다: ${missing.join(", ")}`);
+  }
+  return report;
+};
@@ -0,0 +1,152 @@
+import { ApiError, FinishReason, GenerateContentResponse } from "@google/genai";
+
+export type GeminiErrorKind =
+  | 'invalidKey'
+  | 'quota'
+  | 'overloaded'
+  | 'safety'
+  | 'network'
+  | 'timeout'
+  | 'parse'
+  | 'cancelled'
+  | 'unknown';
+
+// Transient failures worth retrying automatically
+const RETRYABLE_KINDS: GeminiErrorKind[] = ['quota', 'overloaded', 'network', 'timeout', 'parse'];
+
+// Quota errors whose suggested delay is longer than this are treated as exhausted, not rate limited
+const MAX_AUTO_RETRY_DELAY_MS = 60_000;
+
+export class GeminiError extends Error {
+  kind: GeminiErrorKind;
+  retryable: boolean;
+  retryAfterMs?: number; // Server-suggested wait before retrying (quota errors)
+  cause?: unknown;
+
+  constructor(kind: GeminiErrorKind, message: string, options: { cause?: unknown; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'GeminiError';
+    this.kind = kind;
+    this.cause = options.cause;
+    this.retryAfterMs = options.retryAfterMs;
+    this.retryable = RETRYABLE_KINDS.includes(kind) &&
+      (kind !== 'quota' || (options.retryAfterMs ?? 0) <= MAX_AUTO_RETRY_DELAY_MS);
+  }
+}
+
+// Reads "retryDelay": "23s" or "Please retry in 23.4s" out of a quota error message
+const parseRetryAfterMs = (message: string): number | undefined => {
+  const match = message.match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/) || message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+// Maps anything thrown by the SDK, fetch or JSON.parse onto a GeminiError
+export const classifyError = (error: unknown): GeminiError => {
+  if (error instanceof GeminiError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const name = (error as { name?: string })?.name;
+
+  if (name === 'AbortError') {
+    return new GeminiError('cancelled', "요청이 취소되었습니다.", { cause: error });
+  }
+  if (error instanceof SyntaxError) {
+    return new GeminiError('parse', "모델 응답을 JSON으로 해석하지 못했습니다.", { cause: error });
+  }
+
+  const status = error instanceof ApiError ? error.status : undefined;
+
+  if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|PERMISSION_DENIED|API Key is missing/i.test(message)) {
+    return new GeminiError('invalidKey', "API Key가 유효하지 않습니다.", { cause: error });
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    return new GeminiError('quota', "API 사용 한도를 초과했습니다.", { cause: error, retryAfterMs: parseRetryAfterMs(message) });
+  }
+  if (status === 504 || /DEADLINE_EXCEEDED|timed? ?out/i.test(message)) {
+    return new GeminiError('timeout', "응답 시간이 초과되었습니다.", { cause: error });
+  }
+  if ((status !== undefined && status >= 500) || /UNAVAILABLE|overloaded/i.test(message)) {
+    return new GeminiError('overloaded', "모델 서버가 일시적으로 과부하 상태입니다.", { cause: error });
+  }
+  if (/SAFETY|blocked/i.test(message)) {
+    return new GeminiError('safety', "안전 정책에 의해 응답이 차단되었습니다.", { cause: error });
+  }
+  if (error instanceof TypeError || /Failed to fetch|NetworkError|fetch failed|ECONNRESET/i.test(message)) {
+    return new GeminiError('network', "네트워크 연결에 실패했습니다.", { cause: error });
+  }
+  return new GeminiError('unknown', message || "알 수 없는 오류가 발생했습니다.", { cause: error });
+};
+
+// Throws a safety error when the prompt or the candidate was blocked
+export const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || finishReason === FinishReason.SAFETY || finishReason === FinishReason.PROHIBITED_CONTENT) {
+    throw new GeminiError('safety', `안전 정책에 의해 응답이 차단되었습니다. (${blockReason || finishReason})`);
+  }
+};
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  shouldRetry?: (error: GeminiError) => boolean; // Extra veto on top of `retryable`
+  onRetry?: (error: GeminiError, attempt: number, delayMs: number) => void;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Retry wait was cancelled", "AbortError"));
+    };
+    // The listener goes when the wait ends, so retries on a long-lived signal don't pile them up
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs `task` and retries transient Gemini failures with exponential backoff and full jitter.
+ * Errors are always rethrown as GeminiError.
+ */
+export const withRetry = async <T,>(task: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { maxAttempts = 3, baseDelayMs = 1000, maxDelayMs = 15_000, signal, shouldRetry, onRetry } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (rawError) {
+      const error = classifyError(rawError);
+      if (signal?.aborted || !error.retryable || attempt >= maxAttempts || (shouldRetry && !shouldRetry(error))) {
+        throw error;
+      }
+
+      const backoff = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const delayMs = Math.max(error.retryAfterMs ?? 0, backoff);
+      onRetry?.(error, attempt, delayMs);
+      console.warn(`Gemini call failed (${error.kind}), retrying in ${Math.round(delayMs)}ms`, error.cause);
+      await sleep(delayMs, signal);
+    }
+  }
+};
+
+// When the UI should allow retrying a quota-limited request (undefined for other kinds)
+export const getRetryAt = (error: GeminiError): number | undefined =>
+  error.kind === 'quota' ? Date.now() + (error.retryAfterMs ?? 60_000) : undefined;
+
+// User-facing copy for each error kind
+export const ERROR_GUIDANCE: Record<GeminiErrorKind, { title: string; action: string }> = {
+  invalidKey: { title: "API Key 오류", action: "AI Studio에서 발급받은 올바른 Gemini API Key를 다시 입력해주세요." },
+  quota: { title: "사용 한도 초과", action: "요청 한도가 초기화된 뒤 다시 시도해주세요." },
+  overloaded: { title: "서버 과부하", action: "잠시 후 다시 시도하거나 다른 모델을 사용해주세요." },
+  safety: { title: "응답 차단됨", action: "안전 정책으로 응답이 차단되었습니다. 잠시 후 다시 생성해주세요." },
+  network: { title: "네트워크 오류", action: "인터넷 연결을 확인한 뒤 다시 시도해주세요." },
+  timeout: { title: "응답 시간 초과", action: "검색 요청이 오래 걸리고 있습니다. 다시 시도해주세요." },
+  parse: { title: "응답 형식 오류", action: "모델이 올바르지 않은 형식으로 응답했습니다. 다시 생성해주세요." },
+  cancelled: { title: "취소됨", action: "보고서 생성이 취소되었습니다." },
+  unknown: { title: "알 수 없는 오류", action: "잠시 후 다시 시도해주세요." },
+};
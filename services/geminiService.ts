@@ -1,9 +1,288 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { Report } from "../types";
+import { GenerateContentResponse, GoogleGenAI, Type } from "@google/genai";
+import { MarketDataSourceId, Quote, Report, ReportComparison, ReportProgress, ReportSection, SessionMode, StockUniverse, TechnicalSignals, ThemeDefinition, ThemeTrend, WatchlistEntry, WatchlistItem, PnlBreakdown, PortfolioHolding, PortfolioSummary, CalendarEvent, InstrumentId, MarketIndex } from "../types";
+import { DATA_SOURCE_LABELS, MarketData, MarketDataProvider, fetchMarketData, getProviderChain } from "./marketDataService";
+import { RepairableField, getRepairableFields, validateReport } from "./reportValidator";
+import { extractGroundingSources, mergeSources } from "./groundingService";
+import { GeminiError, assertNotBlocked, classifyError } from "./geminiErrors";
+import { getModelChain, withModelFallback } from "./modelService";
+import { DEFAULT_SESSION_MODE, SESSION_MODES, SessionModeDefinition } from "./sessionModes";
+import { describeUniverseForPrompt, getUniverse } from "./universeService";
+import { getThemeTickers, loadThemes } from "./themeService";
+import { getReportHistorySources } from "./priceHistoryService";
+import { loadTechnicalSignals } from "./technicalIndicators";
+import { buildWatchlistEntries, isWatched, loadWatchlist } from "./watchlistService";
+import { computePortfolio, findUsdKrw, loadPortfolio, pnlPercent } from "./portfolioService";
+import { getAlertTickers, loadAlertRules } from "./alertService";
+import { DEFAULT_INSTRUMENTS, findInstrument, getDerivedMetrics, getInstruments, loadInstruments } from "./instrumentService";
+import { fetchCalendarEvents, getCalendarWindow, getFallbackCalendar, getSurprise, splitCalendar } from "./calendarService";
 
-export const generateMarketReport = async (apiKey: string): Promise<Report> => {
+export interface GenerateReportOptions {
+  dataSource?: MarketDataSourceId; // Primary data provider (defaults to search-grounded)
+  providers?: MarketDataProvider[]; // Overrides the provider chain entirely
+  autoRepair?: boolean; // Re-prompt the model for lists that fail validation
+  weekendRecap?: boolean; // Write a weekly recap instead of a daily briefing (non-trading days)
+  sessionMode?: SessionMode; // Session the report covers; picks the prompt, schema and price basis
+  universe?: StockUniverse; // Stocks gainers/losers may come from; others are rejected after generation
+  themes?: ThemeDefinition[]; // Theme blocks to quote and summarize (defaults to the saved themes)
+  watchlist?: WatchlistItem[]; // Tickers for the 내 관심종목 table (defaults to the saved watchlist)
+  portfolio?: PortfolioHolding[]; // Holdings valued and reviewed in the report (defaults to the saved portfolio)
+  alertTickers?: string[]; // Quoted so price alerts can be checked (defaults to the saved enabled rules)
+  instruments?: InstrumentId[]; // Dashboard instruments to quote, in display order (defaults to the saved list)
+  previousCalendar?: CalendarEvent[]; // Last report's calendar; supplies pre-release consensus and a fallback
+  models?: string[]; // Model fallback chain, primary first
+  signal?: AbortSignal; // Cancels the data fetch and the narrative stream
+  onProgress?: (progress: ReportProgress) => void; // Called whenever another section becomes ready
+}
+
+// Narrative fields streamed by the model and the report section each one fills
+const NARRATIVE_FIELDS: { key: string; section: ReportSection }[] = [
+  { key: "marketOverview", section: 'marketOverview' },
+  { key: "sessionHighlights", section: 'sessionHighlights' },
+  { key: "economicContext", section: 'economicContext' },
+  { key: "conclusion", section: 'conclusion' },
+];
+
+// Each theme gets its own summary field so it can stream in like the other sections
+const themeSummaryKey = (index: number) => `themeSummary${index}`;
+
+// Same for the one-line comment on each watchlist ticker
+const watchlistCommentKey = (index: number) => `watchlistComment${index}`;
+
+const narrativeKeys = (themes: ThemeTrend[], watchlist: WatchlistEntry[], withPortfolio: boolean) => [
+  "reportTitle", "marketOverview", "sessionHighlights",
+  ...themes.map((_, i) => themeSummaryKey(i)),
+  ...watchlist.map((_, i) => watchlistCommentKey(i)),
+  ...(withPortfolio ? ["portfolioReview"] : []),
+  "economicContext", "conclusion"
+];
+
+// Response schema for one session mode, theme list, watchlist and portfolio; field descriptions carry the mode-specific instructions
+const narrativeSchema = (mode: SessionModeDefinition, themes: ThemeTrend[], watchlist: WatchlistEntry[], withPortfolio: boolean) => ({
+  type: Type.OBJECT,
+  properties: {
+    reportTitle: { type: Type.STRING },
+    marketOverview: { type: Type.STRING },
+    sessionHighlights: { type: Type.STRING, description: mode.highlightsInstruction },
+    ...Object.fromEntries(themes.map((theme, i) => [
+      themeSummaryKey(i),
+      { type: Type.STRING, description: `"${theme.name}" 테마 종목(themes[${i}]) 동향 요약` }
+    ])),
+    ...Object.fromEntries(watchlist.map((entry, i) => [
+      watchlistCommentKey(i),
+      { type: Type.STRING, description: `관심종목 ${entry.ticker} 한 줄 코멘트` }
+    ])),
+    ...(withPortfolio && { portfolioReview: { type: Type.STRING, description: "오늘의 내 포트폴리오 (마크다운)" } }),
+    economicContext: { type: Type.STRING },
+    conclusion: { type: Type.STRING }
+  },
+  required: narrativeKeys(themes, watchlist, withPortfolio),
+  propertyOrdering: narrativeKeys(themes, watchlist, withPortfolio)
+});
+
+// Pulls string fields whose closing quote has already arrived out of a partial JSON stream
+const extractCompletedFields = (partialJson: string, keys: string[]): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  keys.forEach(key => {
+    const match = partialJson.match(new RegExp(`"${key}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)"`));
+    if (!match) return;
+    try {
+      fields[key] = JSON.parse(`"${match[1]}"`);
+    } catch {
+      // Escape sequence cut mid-way; picked up on the next chunk
+    }
+  });
+  return fields;
+};
+
+// Flattens quotes for the prompt; the shared data timestamp is stated once instead of per row
+const toPromptRows = <T extends { quote: Quote }>(items: T[]) =>
+  items.map(({ quote: { asOf, ...quote }, ...rest }) => ({ ...rest, ...quote }));
+
+// Index rows for the prompt; yields are tagged so their change is read in %p rather than as a price move
+const toIndexPromptRows = (indices: MarketIndex[]) =>
+  toPromptRows(indices).map(row => (findInstrument(row.name)?.yield ? { ...row, unit: "yield %" } : row));
+
+// Indicator readings rounded for the prompt; the notes carry the interpretation
+const toSignalPromptRow = ({ source, notes, ...values }: TechnicalSignals) => ({
+  ...Object.fromEntries(Object.entries(values).map(([key, value]) => [key, typeof value === 'number' ? Math.round(value * 100) / 100 : value])),
+  summary: notes.join(", "),
+});
+
+const cents = (value: number) => Math.round(value * 100) / 100;
+
+const toPnlPromptRow = ({ usd, krw, stockEffectKrw, fxEffectKrw }: PnlBreakdown) => ({
+  usd: cents(usd), krw: Math.round(krw), stockEffectKrw: Math.round(stockEffectKrw), fxEffectKrw: Math.round(fxEffectKrw),
+});
+
+// Portfolio valuation for the prompt: USD to the cent, KRW to the won
+const toPortfolioPrompt = (portfolio: PortfolioSummary) => ({
+  usdKrw: portfolio.fx.price,
+  usdKrwChange: cents(portfolio.fx.change),
+  valueUsd: cents(portfolio.valueUsd),
+  valueKrw: Math.round(portfolio.valueKrw),
+  daily: toPnlPromptRow(portfolio.daily),
+  total: { ...toPnlPromptRow(portfolio.total), returnPercentKrw: cents(pnlPercent(portfolio.total.krw, portfolio.costKrw)) },
+  positions: portfolio.positions.map(p => ({
+    ticker: p.ticker,
+    name: p.name,
+    shares: p.shares,
+    avgCost: p.avgCost,
+    purchaseFx: p.purchaseFx,
+    price: p.quote.price,
+    changePercent: p.quote.changePercent,
+    valueKrw: Math.round(p.valueKrw),
+    daily: toPnlPromptRow(p.daily),
+    total: toPnlPromptRow(p.total),
+  })),
+  unquoted: portfolio.unquoted,
+  noPurchaseFx: portfolio.noPurchaseFx,
+});
+
+// Calendar entries for the prompt; surprise is actual minus consensus, in the entry's unit
+const toCalendarPromptRow = (event: CalendarEvent) => {
+  const surprise = getSurprise(event);
+  return {
+    date: event.date,
+    time: event.time,
+    event: event.title,
+    ticker: event.ticker,
+    unit: event.unit,
+    consensus: event.consensus,
+    prior: event.prior,
+    actual: event.actual,
+    ...(surprise && { surprise: cents(surprise.diff), surprisePercent: surprise.percent === undefined ? undefined : cents(surprise.percent) }),
+  };
+};
+
+// Sample bars never back real quotes, so fixture history is only used for fixture reports
+const loadMoverSignals = async (data: MarketData): Promise<TechnicalSignals[]> => {
+  const sources = getReportHistorySources(data.source);
+  const signals = await Promise.all([...data.gainers, ...data.losers, ...data.quotes].map(stock =>
+    loadTechnicalSignals(stock.ticker, sources).catch(() => null)
+  ));
+  return signals.filter((s): s is TechnicalSignals => !!s);
+};
+
+const abortError = () => new DOMException("Report generation was cancelled", "AbortError");
+
+// Numbers only; the validator stamps asOf and the UI formats them
+const quoteSchema = {
+  type: Type.OBJECT,
+  properties: {
+    price: { type: Type.NUMBER, description: "가격 또는 지수 값" },
+    change: { type: Type.NUMBER, description: "전일 종가 대비 절대 변동폭" },
+    changePercent: { type: Type.NUMBER, description: "전일 종가 대비 등락률 (%), 예: -1.25" },
+    currency: { type: Type.STRING, description: "ISO 4217 통화 코드 (예: USD, KRW). 지수는 생략" }
+  },
+  required: ["price", "change", "changePercent"]
+};
+
+const stockItemSchema = {
+  type: Type.OBJECT,
+  properties: {
+    ticker: { type: Type.STRING },
+    name: { type: Type.STRING },
+    quote: quoteSchema
+  },
+  required: ["ticker", "name", "quote"]
+};
+
+const marketIndexSchema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    quote: quoteSchema
+  },
+  required: ["name", "quote"]
+};
+
+const THEME_FIELD = /^themes\[(\d+)\]\.(rising|falling)$/;
+
+// Key used in the repair response schema (dots and brackets are not allowed there), e.g. "theme0Rising"
+const repairKey = (field: RepairableField): string => {
+  const theme = field.match(THEME_FIELD);
+  return theme ? `theme${theme[1]}${theme[2] === 'rising' ? "Rising" : "Falling"}` : field;
+};
+
+const readField = (report: Report, field: RepairableField): unknown => {
+  const theme = field.match(THEME_FIELD);
+  return theme
+    ? report.themes[Number(theme[1])]?.[theme[2] as 'rising' | 'falling']
+    : report[field as 'marketIndices' | 'gainers' | 'losers'];
+};
+
+// Asks the model to correct only the lists that failed validation, then re-validates.
+export const repairReport = async (
+  apiKey: string,
+  report: Report,
+  fields: RepairableField[],
+  models: string[] = getModelChain(),
+  universe: StockUniverse = getUniverse(report.universe)
+): Promise<Report> => {
+  if (fields.length === 0) return report;
+
+  const ai = new GoogleGenAI({ apiKey });
+  const issues = (report.issues || []).filter(i => i.severity === 'error' && !i.fixed);
+
+  const prompt = `
+    아래는 미국 증시 보고서의 데이터 중 검증에 실패한 항목입니다.
+    **Google Search 도구로 확인하여** 문제가 있는 필드만 수정한 전체 목록을 JSON으로 다시 반환하세요.
+
+    **검증 오류:**
+    ${issues.map(i => `- ${i.path}: ${i.message}`).join("\n    ")}
+
+    **현재 데이터:**
+    ${JSON.stringify(Object.fromEntries(fields.map(f => [repairKey(f), readField(report, f)])))}
+
+    **규칙:**
+    - ticker는 대문자 미국 티커(예: AAPL, BRK.B)입니다. quote의 price, change, changePercent는 기호 없는 숫자이며, 종목 price는 USD입니다.
+    - gainers와 theme*Rising은 양수, losers와 theme*Falling은 음수 등락률만 포함합니다.
+    - gainers/losers는 중복 없이 정확히 10개 종목이어야 하며, ${describeUniverseForPrompt(universe)}만 포함합니다.
+    - marketIndices는 다음 ${getInstruments(report.instruments || DEFAULT_INSTRUMENTS).length}개 지표를 모두 포함해야 하며, name은 그대로 표기합니다: ${getInstruments(report.instruments || DEFAULT_INSTRUMENTS).map(i => i.name).join(", ")}
+  `;
+
+  const { result: { response, fixedData } } = await withModelFallback(models, async (model) => {
+    const response = await ai.models.generateContent({
+      model,
+      contents: prompt,
+      config: {
+        tools: [{ googleSearch: {} }],
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: Object.fromEntries(fields.map(f => [
+            repairKey(f),
+            { type: Type.ARRAY, items: f === 'marketIndices' ? marketIndexSchema : stockItemSchema }
+          ])),
+          required: fields.map(repairKey)
+        }
+      },
+    });
+    assertNotBlocked(response);
+    return { response, fixedData: JSON.parse(response.text || "{}") };
+  });
+
+  const pick = <T,>(field: RepairableField, fallback: T): T =>
+    fields.includes(field) && Array.isArray(fixedData[repairKey(field)]) ? fixedData[repairKey(field)] : fallback;
+
+  return validateReport({
+    ...report,
+    sources: mergeSources(report.sources, extractGroundingSources(response, {}, 'marketData')),
+    marketIndices: pick('marketIndices', report.marketIndices),
+    gainers: pick('gainers', report.gainers),
+    losers: pick('losers', report.losers),
+    themes: report.themes.map((theme, i) => ({
+      ...theme,
+      rising: pick(`themes[${i}].rising`, theme.rising),
+      falling: pick(`themes[${i}].falling`, theme.falling),
+    })),
+  }, universe);
+};
+
+// Numbers come from the market data layer; Gemini only writes the narrative around them.
+export const generateMarketReport = async (apiKey: string, options: GenerateReportOptions = {}): Promise<Report> => {
   if (!apiKey) {
-    throw new Error("API Key is missing");
+    throw new GeminiError('invalidKey', "API Key is missing");
   }
 
   const ai = new GoogleGenAI({ apiKey });
@@ -13,152 +292,315 @@ export const generateMarketReport = async (apiKey: string): Promise<Report> => {
   const nyTime = now.toLocaleString("en-US", { timeZone: "America/New_York" });
   const krTime = now.toLocaleString("ko-KR", { timeZone: "Asia/Seoul" });
 
-  const prompt = `
+  const models = options.models || getModelChain();
+  const sessionMode = options.sessionMode || DEFAULT_SESSION_MODE;
+  const mode = SESSION_MODES[sessionMode];
+  const universe = options.universe || getUniverse();
+  const themes = options.themes || loadThemes();
+  const watchlist = options.watchlist || loadWatchlist();
+  const holdings = options.portfolio || loadPortfolio();
+  const instruments = options.instruments || loadInstruments();
+  const ownTickers = Array.from(new Set([...watchlist.map(item => item.ticker), ...holdings.map(h => h.ticker.toUpperCase())]));
+  const alertTickers = options.alertTickers || getAlertTickers(loadAlertRules());
+  const extraTickers = Array.from(new Set([...ownTickers, ...alertTickers]));
+  const sections: ReportProgress['sections'] = {
+    marketData: 'pending',
+    marketOverview: 'pending',
+    sessionHighlights: 'pending',
+    themes: 'pending',
+    watchlist: 'pending',
+    portfolio: 'pending',
+    calendar: 'pending',
+    economicContext: 'pending',
+    conclusion: 'pending',
+  };
+  let partial: Partial<Report> = {};
+  const emit = (update: Partial<Report>) => {
+    partial = { ...partial, ...update };
+    options.onProgress?.({ report: partial, sections: { ...sections } });
+  };
+
+  // Runs alongside the market data; a failed lookup falls back to the FOMC schedule and the last report's entries
+  const calendarWindow = getCalendarWindow(now);
+  const calendarPromise = fetchCalendarEvents(apiKey, {
+    ...calendarWindow, tickers: ownTickers, previous: options.previousCalendar, models, signal: options.signal
+  }).catch(calendarError => {
+    console.warn("Calendar lookup failed:", calendarError);
+    return getFallbackCalendar(calendarWindow.from, calendarWindow.to, options.previousCalendar);
+  }).then(calendar => {
+    // Not shown once the report has failed or been cancelled
+    if (sections.calendar !== 'pending' || options.signal?.aborted) return calendar;
+    sections.calendar = 'ready';
+    emit({ calendar });
+    return calendar;
+  });
+
+  try {
+    const data = await fetchMarketData(
+      options.providers || getProviderChain(options.dataSource || 'search', apiKey, {
+        signal: options.signal, models, sessionMode, universe, instruments,
+        quoteTickers: [...getThemeTickers(themes), ...extraTickers]
+      }),
+      themes,
+      universe,
+      extraTickers,
+      instruments
+    );
+    if (options.signal?.aborted) throw abortError();
+
+    sections.marketData = 'ready';
+    if (data.themes.length === 0) sections.themes = 'ready';
+    const watchlistEntries = buildWatchlistEntries(watchlist, data.quotes);
+    if (watchlistEntries.length === 0) sections.watchlist = 'ready';
+    // Reviewed only when at least one holding could be valued
+    const portfolio = computePortfolio(holdings, data.quotes, findUsdKrw(data.indices));
+    const withPortfolio = !!portfolio && portfolio.positions.length > 0;
+    if (!withPortfolio) sections.portfolio = 'ready';
+    emit({
+      marketIndices: data.indices,
+      gainers: data.gainers,
+      losers: data.losers,
+      themes: data.themes,
+      ...(watchlistEntries.length > 0 && { watchlist: watchlistEntries }),
+      ...(portfolio && { portfolio }),
+      ...(alertTickers.length > 0 && { alertQuotes: data.quotes.filter(q => alertTickers.includes(q.ticker)) }),
+      dataSource: data.source,
+      dataAsOf: data.asOf,
+      sessionMode,
+      universe: universe.id,
+      instruments,
+    });
+
+    const [signals, calendar] = await Promise.all([loadMoverSignals(data), calendarPromise]);
+    if (options.signal?.aborted) throw abortError();
+    const { released, upcoming } = splitCalendar(calendar, calendarWindow.today);
+
+    const prompt = `
     Current System Time (New York): ${nyTime}
     Current System Time (Seoul): ${krTime}
 
     당신은 월가 수석 금융 분석가입니다.
-    **반드시 Google Search 도구를 사용하여** 아래의 데이터를 **실시간(Live)**으로 검색한 후 보고서를 작성하세요.
-    
-    **데이터 검색 및 추출 지침:**
-    1. **Live Data Only**: "Yesterday's close"나 과거 데이터를 사용하지 마세요. 현재 거래 중이라면 **현재가(Current Price)**를, 장 마감 직후라면 **최종 종가(Last Close)**를 사용하세요.
-    2. **Language**: 모든 종목명(Company Name)은 반드시 **한글**로 표기하세요. (예: Apple Inc. -> 애플, Microsoft -> 마이크로소프트, Tesla -> 테슬라)
-    3. **S&P 500 Only**: '상승/하락 Top 10' 리스트는 반드시 **S&P 500 지수에 포함된 기업**들 중에서만 선정하세요. 소형주나 페니스톡(Penny stocks)은 제외합니다.
-    4. **Stock Lists**: 리스트 작성 시 반드시 **현재 주식 가격(Price)**을 포함해야 합니다.
-
-    **필수 검색 쿼리(Search Queries):**
-    - "S&P 500 NASDAQ Dow Jones VIX live price"
-    - "USD KRW exchange rate live"
-    - "S&P 500 top gainers today live price"
-    - "S&P 500 top losers today live price"
-    - "AI stocks nvda msft amd goog current price live trend"
+    아래 **시장 데이터(Market Data)**는 데이터 제공자(${DATA_SOURCE_LABELS[data.source]}, 기준 시각 ${data.asOf})로부터 받은 확정 수치입니다.
     
-    **보고서 작성 요구사항 (JSON 포맷):**
-    1. reportTitle: "미국 증시 브리핑 - [YYYY-MM-DD (현지시간 기준)]"
-    2. marketIndices: 5개 지표(S&P500, NASDAQ, Dow, USD/KRW, VIX)의 실시간 수치.
-    3. marketOverview: 시장 전반적인 분위기 및 주요 이슈 (마크다운).
-    4. gainers: S&P 500 내 실시간 상승률 상위 10개 종목.
-       - ticker, name (한글 표기), price(현재가, 예: "$150.23"), change(등락률)
-    5. losers: S&P 500 내 실시간 하락률 상위 10개 종목.
-       - ticker, name (한글 표기), price(현재가), change(등락률)
-    6. aiTrend: AI 관련주 동향.
-       - rising: 상승 중인 AI 종목 (티커, 이름(한글), **현재가**, 변동률)
-       - falling: 하락 중인 AI 종목 (티커, 이름(한글), **현재가**, 변동률)
-       - summary: AI 섹터 요약.
-    7. economicContext: 경제 지표 연관성 분석 (마크다운).
-    8. conclusion: 결론 및 전망 (마크다운).
+    **작성 지침:**
+    1. **Numbers**: 지수, 주가, 등락률, 환율, 경제지표 등 모든 수치는 **아래 데이터에 있는 값만** 인용하세요. 새로운 수치를 만들거나 검색된 수치로 덮어쓰지 마세요.
+    2. **Context**: Google Search 도구는 뉴스, 이벤트, 경제 지표 등 **배경 설명**을 찾는 용도로만 사용하세요.
+    3. **Language**: 종목명은 한글로 표기하세요. gainers/losers는 ${universe.name} ${universe.screen ? "스크린" : "구성 종목"} 기준 상위/하위 종목입니다.
+    4. **Session (${mode.label})**: ${mode.narrativeFocus}
+    ${options.weekendRecap ? `5. **Weekly Recap**: 오늘은 뉴욕증시 휴장일입니다. 하루 브리핑 대신 **지난 한 주(최근 5거래일)를 정리하는 주간 리뷰**로 작성하고, 다음 주에 주목할 일정과 변수를 전망에 포함하세요.` : ""}
+
+    **시장 데이터 (JSON):**
+    ${JSON.stringify({
+      marketIndices: toIndexPromptRows(data.indices),
+      derived: getDerivedMetrics(data.indices).map(({ name, valueBp, changeBp }) => ({ name, valueBp: cents(valueBp), changeBp: cents(changeBp) })),
+      gainers: toPromptRows(data.gainers),
+      losers: toPromptRows(data.losers),
+      themes: data.themes.map(({ name, description, rising, falling }) => ({
+        name, description, rising: toPromptRows(rising), falling: toPromptRows(falling)
+      })),
+      watchlist: toPromptRows(data.quotes.filter(q => isWatched(watchlist, q.ticker))),
+    })}
+    ${data.indices.some(i => findInstrument(i.name)?.yield) ? "marketIndices 중 unit이 \"yield %\"인 항목은 국채 금리(%)이며 change는 %p 변동입니다. derived의 2s10s는 10년물 - 2년물 금리차(bp)로, 음수면 장단기 금리 역전입니다." : ""}
+    ${withPortfolio ? `
+    **내 포트폴리오 (JSON, 앱에서 계산):**
+    ${JSON.stringify(toPortfolioPrompt(portfolio!))}
+    daily는 오늘 하루, total은 매수 이후 손익입니다. krw = stockEffectKrw(주가 변동 효과) + fxEffectKrw(환율 변동 효과)이며, noPurchaseFx 종목은 매수 환율을 몰라 환율 효과를 0으로 계산했습니다.
+    ` : ""}
+    ${signals.length ? `
+    **기술적 지표 (JSON, 일봉 기준으로 앱에서 계산, asOf = 마지막 봉 날짜):**
+    ${JSON.stringify(signals.map(toSignalPromptRow))}
+    gainers/losers, 관심종목(watchlist), 보유 종목을 설명할 때 위 이동평균, RSI, MACD, 볼린저 밴드 값을 인용할 수 있습니다. 목록에 없는 종목의 기술적 지표는 만들어내지 마세요.
+    ` : ""}
+    ${calendar.length ? `
+    **경제지표·실적 일정 (JSON, 뉴욕 기준 날짜):**
+    ${JSON.stringify({ released: released.map(toCalendarPromptRow), upcoming: upcoming.map(toCalendarPromptRow) })}
+    released는 지난 1주일간 발표된 지표와 실적으로, surprise는 실제치(actual) - 예상치(consensus)입니다 (unit: % 는 %p, K 는 천 명, USD 는 EPS 달러). upcoming은 앞으로 1주일 예정 일정입니다.
+    ` : ""}
+    **보고서 작성 요구사항 (JSON 포맷, 아래 순서대로 작성):**
+    ${[
+      `reportTitle: "${options.weekendRecap ? "미국 증시 주간 정리" : mode.titlePrefix} - [YYYY-MM-DD (현지시간 기준)]"`,
+      "marketOverview: 시장 전반적인 분위기 및 주요 이슈 (마크다운).",
+      `sessionHighlights: ${mode.highlightsInstruction}`,
+      ...data.themes.map((theme, i) =>
+        `${themeSummaryKey(i)}: "${theme.name}" 테마${theme.description ? ` (${theme.description})` : ""} 종목(themes[${i}]의 rising, falling) 동향 요약.`
+      ),
+      ...watchlistEntries.map((entry, i) =>
+        `${watchlistCommentKey(i)}: 사용자 관심종목 ${entry.ticker} (${entry.quote ? "watchlist 데이터 참고" : "시세 데이터 없음 - 수치 없이 최근 이슈만"})에 대한 한 줄 코멘트 (등락 배경과 관전 포인트, 1문장).`
+      ),
+      ...(withPortfolio ? ["portfolioReview: 오늘의 내 포트폴리오 (마크다운). 원화 기준 일간/누적 손익을 주가 효과와 환율 효과로 나눠 설명하고, 손익에 크게 기여한 종목과 내일 점검할 위험 요인을 짚으세요. 수치는 위 포트폴리오 데이터만 인용하세요."] : []),
+      `economicContext: 경제 지표 연관성 분석 (마크다운).${released.length ? " 일정 데이터의 released 항목 중 실제치가 나온 지표와 실적은 예상 대비 서프라이즈(surprise)의 방향과 크기, 시장 반응을 해석하세요." : ""}`,
+      `conclusion: 결론 및 전망 (마크다운).${upcoming.length ? " 일정 데이터의 upcoming 항목 중 시장에 중요한 발표를 짚어 다음 주 관전 포인트로 반영하세요." : ""}`,
+    ].map((line, i) => `${i + 1}. ${line}`).join("\n    ")}
   `;
+    const keys = narrativeKeys(data.themes, watchlistEntries, withPortfolio);
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-pro-preview",
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            reportTitle: { type: Type.STRING },
-            marketIndices: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  name: { type: Type.STRING },
-                  value: { type: Type.STRING },
-                  change: { type: Type.STRING },
-                  isPositive: { type: Type.BOOLEAN }
-                },
-                required: ["name", "value", "change", "isPositive"]
-              }
-            },
-            marketOverview: { type: Type.STRING },
-            gainers: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  ticker: { type: Type.STRING },
-                  name: { type: Type.STRING },
-                  price: { type: Type.STRING },
-                  change: { type: Type.STRING }
-                },
-                required: ["ticker", "name", "price", "change"]
-              }
-            },
-            losers: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  ticker: { type: Type.STRING },
-                  name: { type: Type.STRING },
-                  price: { type: Type.STRING },
-                  change: { type: Type.STRING }
-                },
-                required: ["ticker", "name", "price", "change"]
-              }
-            },
-            aiTrend: {
-              type: Type.OBJECT,
-              properties: {
-                rising: {
-                  type: Type.ARRAY,
-                  items: {
-                    type: Type.OBJECT,
-                    properties: {
-                      ticker: { type: Type.STRING },
-                      name: { type: Type.STRING },
-                      price: { type: Type.STRING },
-                      change: { type: Type.STRING }
-                    },
-                    required: ["ticker", "name", "price", "change"]
-                  }
-                },
-                falling: {
-                  type: Type.ARRAY,
-                  items: {
-                    type: Type.OBJECT,
-                    properties: {
-                      ticker: { type: Type.STRING },
-                      name: { type: Type.STRING },
-                      price: { type: Type.STRING },
-                      change: { type: Type.STRING }
-                    },
-                    required: ["ticker", "name", "price", "change"]
-                  }
-                },
-                summary: { type: Type.STRING }
-              },
-              required: ["rising", "falling", "summary"]
-            },
-            economicContext: { type: Type.STRING },
-            conclusion: { type: Type.STRING }
-          },
-          required: ["reportTitle", "marketIndices", "marketOverview", "gainers", "losers", "aiTrend", "economicContext", "conclusion"]
+    // Retried (and moved to a fallback model) as a whole, but only while no section has been shown yet
+    const { result: { narrative, groundedChunks }, model: usedModel } = await withModelFallback(models, async (model) => {
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: prompt,
+        config: {
+          tools: [{ googleSearch: {} }],
+          responseMimeType: "application/json",
+          responseSchema: narrativeSchema(mode, data.themes, watchlistEntries, withPortfolio),
+          abortSignal: options.signal
+        },
+      });
+
+      let jsonText = "";
+      const groundedChunks: GenerateContentResponse[] = [];
+      for await (const chunk of stream) {
+        if (options.signal?.aborted) throw abortError();
+        assertNotBlocked(chunk);
+        jsonText += chunk.text || "";
+        if (chunk.candidates?.[0]?.groundingMetadata) groundedChunks.push(chunk);
+
+        const fields = extractCompletedFields(jsonText, keys);
+        const update: Partial<Report> = {};
+        if (fields.reportTitle && !partial.reportTitle) update.reportTitle = fields.reportTitle;
+        NARRATIVE_FIELDS.forEach(({ key, section }) => {
+          if (fields[key] === undefined || sections[section] === 'ready') return;
+          sections[section] = 'ready';
+          (update as Record<string, string>)[section] = fields[key];
+        });
+        // Theme summaries show up one by one; the section counts as ready once all have arrived
+        if (sections.themes !== 'ready') {
+          const summaries = data.themes.map((_, i) => fields[themeSummaryKey(i)]);
+          if (summaries.some((summary, i) => summary !== undefined && !partial.themes![i].summary)) {
+            update.themes = partial.themes!.map((theme, i) => ({ ...theme, summary: summaries[i] ?? theme.summary }));
+          }
+          if (summaries.every(summary => summary !== undefined)) sections.themes = 'ready';
         }
-      },
+        if (sections.watchlist !== 'ready') {
+          const comments = watchlistEntries.map((_, i) => fields[watchlistCommentKey(i)]);
+          if (comments.some((comment, i) => comment !== undefined && !partial.watchlist![i].comment)) {
+            update.watchlist = partial.watchlist!.map((entry, i) => ({ ...entry, comment: comments[i] ?? entry.comment }));
+          }
+          if (comments.every(comment => comment !== undefined)) sections.watchlist = 'ready';
+        }
+        if (sections.portfolio !== 'ready' && fields.portfolioReview !== undefined) {
+          sections.portfolio = 'ready';
+          update.portfolioReview = fields.portfolioReview;
+        }
+        if (Object.keys(update).length > 0) emit(update);
+      }
+
+      let parsed: Record<string, string>;
+      try {
+        parsed = JSON.parse(jsonText || "{}");
+      } catch (parseError) {
+        // Truncated stream: keep whatever sections completed
+        parsed = extractCompletedFields(jsonText, keys);
+        if (Object.keys(parsed).length === 0) throw parseError;
+      }
+      return { narrative: parsed, groundedChunks };
+    }, {
+      signal: options.signal,
+      shouldRetry: () =>
+        NARRATIVE_FIELDS.every(({ section }) => sections[section] !== 'ready')
+        && !partial.themes?.some(theme => theme.summary) && !partial.watchlist?.some(entry => entry.comment)
+        && !partial.portfolioReview,
     });
 
-    const jsonText = response.text || "{}";
-    const data = JSON.parse(jsonText);
+    const narrativeSources = mergeSources(...groundedChunks.map(chunk => extractGroundingSources(chunk, {
+      marketOverview: narrative.marketOverview,
+      sessionHighlights: narrative.sessionHighlights,
+      themes: data.themes.map((_, i) => narrative[themeSummaryKey(i)] || "").join("\n"),
+      watchlist: watchlistEntries.map((_, i) => narrative[watchlistCommentKey(i)] || "").join("\n"),
+      portfolio: narrative.portfolioReview,
+      economicContext: narrative.economicContext,
+      conclusion: narrative.conclusion,
+    })));
 
-    return {
+    const report = validateReport({
       id: Date.now().toString(),
       date: new Date().toLocaleDateString('ko-KR'),
-      reportTitle: data.reportTitle || "시장 분석 보고서",
-      marketIndices: data.marketIndices || [],
-      marketOverview: data.marketOverview || "데이터를 불러올 수 없습니다.",
-      gainers: data.gainers || [],
-      losers: data.losers || [],
-      aiTrend: data.aiTrend || { rising: [], falling: [], summary: "데이터 없음" },
-      economicContext: data.economicContext || "",
-      conclusion: data.conclusion || ""
-    };
+      reportTitle: narrative.reportTitle || "시장 분석 보고서",
+      marketIndices: data.indices,
+      marketOverview: narrative.marketOverview || "데이터를 불러올 수 없습니다.",
+      gainers: data.gainers,
+      losers: data.losers,
+      themes: data.themes.map((theme, i) => ({ ...theme, summary: narrative[themeSummaryKey(i)] || "데이터 없음" })),
+      ...(watchlistEntries.length > 0 && {
+        watchlist: watchlistEntries.map((entry, i) => ({ ...entry, comment: narrative[watchlistCommentKey(i)] || "" }))
+      }),
+      ...(portfolio && { portfolio }),
+      ...(alertTickers.length > 0 && { alertQuotes: data.quotes.filter(q => alertTickers.includes(q.ticker)) }),
+      ...(withPortfolio && { portfolioReview: narrative.portfolioReview || "" }),
+      economicContext: narrative.economicContext || "",
+      conclusion: narrative.conclusion || "",
+      ...(calendar.length > 0 && { calendar }),
+      dataSource: data.source,
+      dataAsOf: data.asOf,
+      sources: mergeSources(data.sources, narrativeSources),
+      model: usedModel,
+      weekendRecap: options.weekendRecap || undefined,
+      sessionMode,
+      sessionHighlights: narrative.sessionHighlights || "",
+      universe: universe.id,
+      instruments
+    }, universe);
+
+    const repairable = getRepairableFields(report.issues || []);
+    if (options.autoRepair && repairable.length > 0) {
+      try {
+        return await repairReport(apiKey, report, repairable, models, universe);
+      } catch (repairError) {
+        // Keep the validated report; its issues are still shown to the user
+        console.warn("Report repair failed:", repairError);
+      }
+    }
+    return report;
 
   } catch (error) {
+    // Sections that never arrived are shown as failed while the rest stay visible
+    (Object.keys(sections) as ReportSection[]).forEach(key => {
+      if (sections[key] === 'pending') sections[key] = 'error';
+    });
+    emit({});
     console.error("Error generating report:", error);
-    throw error;
+    throw classifyError(error);
+  }
+};
+// Short "what changed since the previous briefing" narrative for the comparison view.
+export const generateComparisonNarrative = async (
+  apiKey: string,
+  comparison: ReportComparison,
+  models: string[] = getModelChain()
+): Promise<string> => {
+  if (!apiKey) {
+    throw new GeminiError('invalidKey', "API Key is missing");
   }
-};
\ No newline at end of file
+
+  const ai = new GoogleGenAI({ apiKey });
+  const { base, target } = comparison;
+
+  const prompt = `
+    당신은 월가 수석 금융 분석가입니다. 두 개의 미국 증시 브리핑을 비교하여 "이전 브리핑 이후 무엇이 달라졌는지"를 한국어 마크다운으로 5~8문장 이내로 요약하세요.
+    수치는 아래 데이터에 있는 값만 인용하고, 이전 보고서의 전망(conclusion)이 실제로 맞았는지 평가하세요.
+
+    **이전 보고서 (${base.date}):** ${base.reportTitle}
+    - 결론: ${base.conclusion}
+
+    **최신 보고서 (${target.date}):** ${target.reportTitle}
+    - 결론: ${target.conclusion}
+
+    **비교 데이터 (JSON):**
+    ${JSON.stringify({
+      indexMoves: comparison.indexMoves.map(m => ({ name: m.name, from: m.from?.quote.price, to: m.to?.quote.price, deltaPercent: m.deltaPercent })),
+      listChanges: comparison.listDiffs.map(d => ({
+        list: d.label,
+        entered: d.entered.map(s => s.ticker),
+        dropped: d.dropped.map(s => s.ticker),
+      })),
+      streaks: comparison.streaks.map(s => ({ ticker: s.ticker, list: s.label, days: s.days })),
+    })}
+  `;
+
+  const { result } = await withModelFallback(models, async (model) => {
+    const response = await ai.models.generateContent({ model, contents: prompt });
+    assertNotBlocked(response);
+    return response.text || "";
+  });
+  return result;
+};
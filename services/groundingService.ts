@@ -0,0 +1,100 @@
+import { GenerateContentResponse } from "@google/genai";
+import { ReportSection, ReportSources } from "../types";
+
+export const SECTION_LABELS: Record<ReportSection, string> = {
+  marketData: "시장 데이터",
+  marketOverview: "시장 동향 분석",
+  sessionHighlights: "세션 하이라이트",
+  themes: "테마 동향",
+  watchlist: "내 관심종목",
+  portfolio: "오늘의 내 포트폴리오",
+  calendar: "주간 경제·실적 일정",
+  economicContext: "글로벌 경제 연관성 분석",
+  conclusion: "핵심 요약 및 전망",
+};
+
+export const emptySources = (): ReportSources => ({ queries: [], citations: [], sections: {} });
+
+/**
+ * Reads the Google Search grounding metadata off a Gemini response.
+ * Each grounding support is attributed to the section whose text contains the supported segment;
+ * supports that cannot be matched fall back to `defaultSection` when given.
+ */
+export const extractGroundingSources = (
+  response: GenerateContentResponse,
+  sectionTexts: Partial<Record<ReportSection, string>>,
+  defaultSection?: ReportSection
+): ReportSources => {
+  const metadata = response.candidates?.[0]?.groundingMetadata;
+  if (!metadata) return emptySources();
+
+  const citations = (metadata.groundingChunks || []).map(chunk => ({
+    uri: chunk.web?.uri || "",
+    title: chunk.web?.title || chunk.web?.domain || chunk.web?.uri || "",
+  }));
+
+  const sections: ReportSources['sections'] = {};
+  const attribute = (section: ReportSection, indices: number[]) => {
+    const current = new Set(sections[section] || []);
+    indices.filter(i => citations[i]?.uri).forEach(i => current.add(i));
+    sections[section] = Array.from(current).sort((a, b) => a - b);
+  };
+
+  (metadata.groundingSupports || []).forEach(support => {
+    const segment = support.segment?.text?.trim();
+    const indices = support.groundingChunkIndices || [];
+    if (!segment || indices.length === 0) return;
+
+    const section = (Object.keys(sectionTexts) as ReportSection[]).find(key => sectionTexts[key]?.includes(segment));
+    if (section) {
+      attribute(section, indices);
+    } else if (defaultSection) {
+      attribute(defaultSection, indices);
+    }
+  });
+
+  // Without supports we still know the whole response was grounded on these chunks
+  if (!metadata.groundingSupports?.length && defaultSection) {
+    attribute(defaultSection, citations.map((_, i) => i));
+  }
+
+  return { queries: metadata.webSearchQueries || [], citations, sections };
+};
+
+// Combines grounding from several calls, de-duplicating citations by URI and re-numbering section references.
+export const mergeSources = (...all: (ReportSources | undefined)[]): ReportSources => {
+  const merged = emptySources();
+
+  all.forEach(sources => {
+    if (!sources) return;
+    sources.queries.forEach(q => {
+      if (!merged.queries.includes(q)) merged.queries.push(q);
+    });
+
+    const remap = sources.citations.map(citation => {
+      const existing = merged.citations.findIndex(c => c.uri === citation.uri);
+      if (existing >= 0) return existing;
+      merged.citations.push(citation);
+      return merged.citations.length - 1;
+    });
+
+    (Object.keys(sources.sections) as ReportSection[]).forEach(section => {
+      const indices = new Set(merged.sections[section] || []);
+      (sources.sections[section] || []).forEach(i => {
+        if (remap[i] !== undefined) indices.add(remap[i]);
+      });
+      merged.sections[section] = Array.from(indices).sort((a, b) => a - b);
+    });
+  });
+
+  return merged;
+};
+
+// Plain-text footnotes for copy/share
+export const formatSourcesText = (sources: ReportSources | undefined, section?: ReportSection): string => {
+  if (!sources) return "";
+  const indices = section ? sources.sections[section] || [] : sources.citations.map((_, i) => i);
+  if (indices.length === 0) return "";
+  const lines = indices.map(i => `[${i + 1}] ${sources.citations[i].title} - ${sources.citations[i].uri}`);
+  return `\n\n출처:\n${lines.join("\n")}`;
+};
@@ -0,0 +1,83 @@
+import { DerivedMetric, InstrumentCategory, InstrumentDefinition, InstrumentId, MarketIndex } from "../types";
+import { INSTRUMENTS } from "../data/instruments";
+import { currencyOfIndex, formatChangePercent, formatPrice, formatReading } from "./quotes";
+
+const INSTRUMENTS_KEY = "marketMorning_instruments";
+
+// The five cards every report had before the list became configurable
+export const DEFAULT_INSTRUMENTS: InstrumentId[] = ['SPX', 'NASDAQ', 'DOW', 'USDKRW', 'VIX'];
+
+const isKnown = (id: string): id is InstrumentId => INSTRUMENTS.some(i => i.id === id);
+
+export const loadInstruments = (): InstrumentId[] => {
+  try {
+    const saved = localStorage.getItem(INSTRUMENTS_KEY);
+    return saved ? JSON.parse(saved).filter(isKnown) : DEFAULT_INSTRUMENTS;
+  } catch {
+    return DEFAULT_INSTRUMENTS;
+  }
+};
+
+export const saveInstruments = (ids: InstrumentId[]) => {
+  localStorage.setItem(INSTRUMENTS_KEY, JSON.stringify(ids));
+};
+
+export const getInstrument = (id: InstrumentId): InstrumentDefinition => INSTRUMENTS.find(i => i.id === id)!;
+
+export const getInstruments = (ids: InstrumentId[]): InstrumentDefinition[] => ids.filter(isKnown).map(getInstrument);
+
+// Exact names win; otherwise the longest alias contained in the name, as model-written names vary
+// ("S&P 500 지수", and "나스닥100 선물" must not be read as the 나스닥 composite)
+export const findInstrument = (name: string): InstrumentDefinition | undefined => {
+  const upper = name.trim().toUpperCase();
+  const exact = INSTRUMENTS.find(i => i.name.toUpperCase() === upper);
+  if (exact) return exact;
+  const matches = INSTRUMENTS.flatMap(i => (i.aliases || []).filter(a => upper.includes(a.toUpperCase())).map(alias => ({ i, alias })));
+  return matches.sort((a, b) => b.alias.length - a.alias.length)[0]?.i;
+};
+
+// Quote currency for a reading: commodities and crypto are USD prices, pairs their quote currency
+export const instrumentCurrency = (name: string): string | undefined =>
+  findInstrument(name)?.currency ?? currencyOfIndex(name);
+
+// Readings for the selected instruments, in the user's order; anything else the provider sent is dropped
+export const orderIndices = (indices: MarketIndex[], ids: InstrumentId[]): MarketIndex[] =>
+  ids.flatMap(id => indices.filter(index => findInstrument(index.name)?.id === id).slice(0, 1));
+
+// Categories in the order their first instrument appears, each with its instruments in list order
+export const groupByCategory = (ids: InstrumentId[]): { category: InstrumentCategory; ids: InstrumentId[] }[] => {
+  const groups: { category: InstrumentCategory; ids: InstrumentId[] }[] = [];
+  getInstruments(ids).forEach(({ id, category }) => {
+    const group = groups.find(g => g.category === category);
+    if (group) group.ids.push(id);
+    else groups.push({ category, ids: [id] });
+  });
+  return groups;
+};
+
+const findReading = (indices: MarketIndex[], id: InstrumentId) =>
+  indices.find(index => findInstrument(index.name)?.id === id)?.quote;
+
+// 2s10s: 10-year minus 2-year yield, in basis points; negative means the curve is inverted
+export const getDerivedMetrics = (indices: MarketIndex[] = []): DerivedMetric[] => {
+  const tenYear = findReading(indices, 'US10Y');
+  const twoYear = findReading(indices, 'US2Y');
+  if (!tenYear || !twoYear) return [];
+  return [{
+    id: '2s10s',
+    name: "2s10s 스프레드",
+    category: 'rates',
+    valueBp: (tenYear.price - twoYear.price) * 100,
+    changeBp: (tenYear.change - twoYear.change) * 100,
+  }];
+};
+
+// "4.12%" for yields; the usual price formatting otherwise
+export const formatInstrumentLevel = (index: MarketIndex, locale?: string) =>
+  findInstrument(index.name)?.yield ? formatReading(index.quote.price, "%", {}, locale) : formatPrice(index.quote, locale);
+
+// "-3.5bp" for yields, where a percent change of the rate would mislead; "+1.20%" otherwise
+export const formatInstrumentChange = (index: MarketIndex, locale?: string) =>
+  findInstrument(index.name)?.yield
+    ? formatReading(index.quote.change * 100, "bp", { signed: true }, locale)
+    : formatChangePercent(index.quote, locale);
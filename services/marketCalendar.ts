@@ -0,0 +1,99 @@
+import { TradingCalendar, TradingSession } from "../types";
+import { nyseCalendar } from "../data/nyseCalendar";
+
+export const DAY_IDS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const getLocalTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// --- Time zone helpers (Intl only, no tz database bundled) ---
+
+const zonedParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric", month: "2-digit", day: "2-digit",
+    hour: "2-digit", minute: "2-digit", second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  return { year: get("year"), month: get("month"), day: get("day"), hour: get("hour"), minute: get("minute"), second: get("second") };
+};
+
+// Milliseconds the zone is ahead of UTC at `date` (e.g. +9h for Asia/Seoul)
+const zoneOffset = (date: Date, timeZone: string) => {
+  const p = zonedParts(date, timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// "YYYY-MM-DD" calendar date of `date` in the zone
+export const toZonedDate = (date: Date, timeZone: string): string => {
+  const p = zonedParts(date, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+};
+
+// Instant of a wall-clock time ("HH:MM") on a calendar date in the zone.
+// The second pass corrects the offset when the guess lands on the other side of a DST change.
+export const fromZonedTime = (day: string, time: string, timeZone: string): Date => {
+  const [year, month, date] = day.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, date, hours, minutes);
+  const first = wallClock - zoneOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - zoneOffset(new Date(first), timeZone));
+};
+
+export const addDays = (day: string, days: number): string => {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, date + days)).toISOString().slice(0, 10);
+};
+
+export const getWeekday = (day: string): string => DAY_IDS[new Date(`${day}T00:00:00Z`).getUTCDay()];
+
+// --- Trading calendar ---
+
+const isWeekend = (day: string) => ["Sat", "Sun"].includes(getWeekday(day));
+
+// Holiday name, "주말", or null on a trading day
+export const getClosureReason = (day: string, calendar: TradingCalendar = nyseCalendar): string | null => {
+  if (isWeekend(day)) return "주말";
+  return calendar.holidays[day] || null;
+};
+
+export const isTradingDay = (day: string, calendar: TradingCalendar = nyseCalendar): boolean => !getClosureReason(day, calendar);
+
+export const getTradingSession = (day: string, calendar: TradingCalendar = nyseCalendar): TradingSession | null => {
+  if (getClosureReason(day, calendar)) return null;
+  const earlyClose = calendar.earlyCloses[day];
+  return {
+    date: day,
+    open: fromZonedTime(day, calendar.regularOpen, calendar.timeZone),
+    close: fromZonedTime(day, earlyClose ? calendar.earlyClose : calendar.regularClose, calendar.timeZone),
+    earlyClose,
+  };
+};
+
+// Close of the most recent session that ended at or before `at`, or null if none in the past fortnight
+export const getLastSessionClose = (at: Date, calendar: TradingCalendar = nyseCalendar): Date | null => {
+  const exchangeDay = toZonedDate(at, calendar.timeZone);
+  for (let offset = 0; offset < 14; offset++) {
+    const session = getTradingSession(addDays(exchangeDay, -offset), calendar);
+    if (session && session.close <= at) return session.close;
+  }
+  return null;
+};
+
+// Closures and early closes from `from` on, for display
+export const getUpcomingClosures = (
+  from: Date,
+  limit: number,
+  calendar: TradingCalendar = nyseCalendar
+): { date: string; name: string; earlyClose: boolean }[] => {
+  const today = toZonedDate(from, calendar.timeZone);
+  const closures = Object.entries(calendar.holidays).map(([date, name]) => ({ date, name, earlyClose: false }));
+  const early = Object.entries(calendar.earlyCloses).map(([date, name]) => ({ date, name, earlyClose: true }));
+  return [...closures, ...early]
+    .filter(c => c.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(0, limit);
+};
+
+export const isCalendarCovered = (day: string, calendar: TradingCalendar = nyseCalendar) =>
+  calendar.years.includes(Number(day.slice(0, 4)));
@@ -0,0 +1,287 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { InstrumentDefinition, InstrumentId, MarketDataSourceId, MarketIndex, MarketSnapshot, ReportSources, SessionMode, SnapshotIndex, SnapshotQuote, StockItem, StockUniverse, ThemeDefinition, ThemeTrend } from "../types";
+import { marketFixture } from "../data/marketFixture";
+import { extractGroundingSources } from "./groundingService";
+import { assertNotBlocked, classifyError } from "./geminiErrors";
+import { withModelFallback } from "./modelService";
+import { DEFAULT_SESSION_MODE, SESSION_MODES } from "./sessionModes";
+import { describeUniverseForPrompt, getUniverse } from "./universeService";
+import { DEFAULT_THEMES, getThemeTickers, loadThemes } from "./themeService";
+import { loadWatchlist } from "./watchlistService";
+import { loadPortfolio } from "./portfolioService";
+import { getAlertTickers, loadAlertRules } from "./alertService";
+import { isUp, makeQuote } from "./quotes";
+import { DEFAULT_INSTRUMENTS, getInstruments, instrumentCurrency, loadInstruments, orderIndices } from "./instrumentService";
+
+export interface MarketDataProvider {
+  id: MarketDataSourceId;
+  label: string;
+  getAsOf(): Promise<string>;
+  getIndexLevels(): Promise<MarketIndex[]>;
+  getQuotes(tickers: string[]): Promise<StockItem[]>;
+  // universe omitted = the provider's default universe (S&P 500)
+  getTopMovers(direction: 'gainers' | 'losers', limit: number, universe?: string[]): Promise<StockItem[]>;
+  getFxRate(pair: string): Promise<MarketIndex | null>;
+  getSources?(): Promise<ReportSources | undefined>; // Where the numbers came from, if known
+}
+
+export interface MarketData {
+  source: MarketDataSourceId;
+  asOf: string;
+  indices: MarketIndex[]; // The requested instruments the provider had, in the user's order
+  gainers: StockItem[];
+  losers: StockItem[];
+  themes: ThemeTrend[]; // Quotes split per theme; summaries are left empty for the narrative
+  quotes: StockItem[]; // Quotes for the requested extra tickers (watchlist, holdings) the provider knows
+  sources?: ReportSources;
+}
+
+export const DATA_SOURCE_LABELS: Record<MarketDataSourceId, string> = {
+  fixture: "오프라인 샘플 데이터",
+  search: "Google 검색 (Gemini)",
+};
+
+// --- Snapshot readings -> report quotes ---
+
+const toStockItem = (q: SnapshotQuote, asOf: string): StockItem => ({
+  ticker: q.ticker,
+  name: q.name,
+  quote: makeQuote(q.price, q.changePercent, { change: q.change, currency: "USD", asOf }),
+});
+
+const toMarketIndex = (i: SnapshotIndex, asOf: string): MarketIndex => ({
+  name: i.name,
+  quote: makeQuote(i.value, i.changePercent, { change: i.change, currency: instrumentCurrency(i.name), asOf }),
+});
+
+// Builds a provider on top of any snapshot loader; the loader is called at most once per provider.
+const createSnapshotProvider = (
+  id: MarketDataSourceId,
+  loadSnapshot: () => Promise<MarketSnapshot>
+): MarketDataProvider => {
+  let pending: Promise<MarketSnapshot> | null = null;
+  const snapshot = () => {
+    if (!pending) pending = loadSnapshot();
+    return pending;
+  };
+
+  return {
+    id,
+    label: DATA_SOURCE_LABELS[id],
+    getAsOf: async () => (await snapshot()).asOf,
+    getIndexLevels: async () => {
+      const { indices, asOf } = await snapshot();
+      return indices.map(i => toMarketIndex(i, asOf));
+    },
+    getQuotes: async (tickers) => {
+      const { quotes, movers = [], asOf } = await snapshot();
+      return tickers
+        .map(t => [...quotes, ...movers].find(q => q.ticker === t.toUpperCase()))
+        .filter((q): q is SnapshotQuote => !!q)
+        .map(q => toStockItem(q, asOf));
+    },
+    // Ranked over constituents only, so theme, watchlist and holding quotes can't crowd out real movers
+    getTopMovers: async (direction, limit, universe = getUniverse().tickers) => {
+      const { quotes, movers = quotes, asOf } = await snapshot();
+      const inUniverse = movers.filter(q => universe.includes(q.ticker));
+      const sorted = direction === 'gainers'
+        ? inUniverse.filter(q => q.changePercent > 0).sort((a, b) => b.changePercent - a.changePercent)
+        : inUniverse.filter(q => q.changePercent < 0).sort((a, b) => a.changePercent - b.changePercent);
+      return sorted.slice(0, limit).map(q => toStockItem(q, asOf));
+    },
+    getFxRate: async (pair) => {
+      const { fx, asOf } = await snapshot();
+      const rate = fx.find(f => f.name.toUpperCase() === pair.toUpperCase());
+      return rate ? toMarketIndex(rate, asOf) : null;
+    },
+    getSources: async () => (await snapshot()).sources,
+  };
+};
+
+// Fixture-backed provider: no network access, always returns the bundled snapshot.
+export const createFixtureProvider = (snapshot: MarketSnapshot = marketFixture): MarketDataProvider =>
+  createSnapshotProvider('fixture', async () => snapshot);
+
+const snapshotIndexSchema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    value: { type: Type.NUMBER },
+    change: { type: Type.NUMBER, description: "전일 종가 대비 절대 변동폭" },
+    changePercent: { type: Type.NUMBER, description: "전일 종가 대비 등락률 (%), 예: -1.25" }
+  },
+  required: ["name", "value", "change", "changePercent"]
+};
+
+const upperTicker = (q: SnapshotQuote): SnapshotQuote => ({ ...q, ticker: q.ticker.toUpperCase() });
+
+const snapshotQuoteSchema = {
+  type: Type.OBJECT,
+  properties: {
+    ticker: { type: Type.STRING },
+    name: { type: Type.STRING },
+    price: { type: Type.NUMBER, description: "USD 가격" },
+    change: { type: Type.NUMBER, description: "전일 종가 대비 절대 변동폭 (USD)" },
+    changePercent: { type: Type.NUMBER, description: "전일 종가 대비 등락률 (%), 예: -1.25" }
+  },
+  required: ["ticker", "name", "price", "change", "changePercent"]
+};
+
+// Search-grounded provider: the previous behaviour, where Gemini looks the numbers up with Google Search.
+// Kept as a fallback when the primary provider fails.
+export interface SearchProviderOptions {
+  quoteTickers?: string[]; // Extra tickers to quote besides the top movers (defaults to the saved themes, watchlist, holdings and alert tickers)
+  signal?: AbortSignal;
+  models?: string[]; // Model fallback chain
+  sessionMode?: SessionMode; // Pre-market, live or closing prices
+  universe?: StockUniverse; // Stocks the top movers are picked from (defaults to the S&P 500)
+  instruments?: InstrumentId[]; // Dashboard instruments to look up (defaults to the saved list)
+}
+
+export const createSearchGroundedProvider = (
+  apiKey: string,
+  { quoteTickers = [...getThemeTickers(loadThemes()), ...loadWatchlist().map(item => item.ticker), ...loadPortfolio().map(h => h.ticker), ...getAlertTickers(loadAlertRules())], signal, models = [], sessionMode = DEFAULT_SESSION_MODE, universe = getUniverse(), instruments = loadInstruments() }: SearchProviderOptions = {}
+): MarketDataProvider =>
+  createSnapshotProvider('search', async () => {
+    const ai = new GoogleGenAI({ apiKey });
+    const nyTime = new Date().toLocaleString("en-US", { timeZone: "America/New_York" });
+    const levels = getInstruments(instruments).filter(i => !i.pair);
+    const pairs = getInstruments(instruments).filter(i => i.pair);
+    const describe = (list: InstrumentDefinition[]) => list.map(i => `- ${i.name}: ${i.searchHint}`).join("\n         ");
+    // Names are pinned by the schema so readings can be matched back to the instrument list
+    const namedSchema = (list: InstrumentDefinition[]) => ({
+      ...snapshotIndexSchema,
+      properties: { ...snapshotIndexSchema.properties, name: { type: Type.STRING, enum: list.map(i => i.name) } },
+    });
+
+    const prompt = `
+      Current System Time (New York): ${nyTime}
+
+      **반드시 Google Search 도구를 사용하여** 아래 시장 데이터를 실시간으로 검색하고, 숫자만 JSON으로 반환하세요.
+      ${SESSION_MODES[sessionMode].dataInstruction} 종목명(name)은 한글로 표기하세요.
+
+      1. indices: 아래 지표의 현재 값(value), 변동폭(change)과 등락률(changePercent, %). name은 아래 표기 그대로 쓰세요.
+         ${describe(levels)}
+      2. fx: ${pairs.length > 0 ? `아래 환율의 값(value), 변동폭(change)과 등락률(changePercent, %)\n         ${describe(pairs)}` : "빈 배열"}
+      3. movers: 유니버스 종목 중 상승률 상위 10개와 하락률 상위 10개의 현재가(price, USD), 변동폭(change, USD)과 등락률(changePercent, %)
+      4. quotes: ${quoteTickers.length > 0 ? `다음 종목들의 현재가, 변동폭과 등락률: ${quoteTickers.join(", ")}` : "빈 배열"}
+
+      유니버스: ${describeUniverseForPrompt(universe)}
+    `;
+
+    const { result } = await withModelFallback(models, async (model) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          tools: [{ googleSearch: {} }],
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              indices: { type: Type.ARRAY, items: levels.length > 0 ? namedSchema(levels) : snapshotIndexSchema },
+              fx: { type: Type.ARRAY, items: pairs.length > 0 ? namedSchema(pairs) : snapshotIndexSchema },
+              movers: { type: Type.ARRAY, items: snapshotQuoteSchema },
+              quotes: { type: Type.ARRAY, items: snapshotQuoteSchema }
+            },
+            required: ["indices", "fx", "movers", "quotes"]
+          },
+          abortSignal: signal
+        },
+      });
+      assertNotBlocked(response);
+
+      const data = JSON.parse(response.text || "{}");
+      return {
+        asOf: new Date().toISOString(),
+        indices: data.indices || [],
+        fx: data.fx || [],
+        quotes: (data.quotes || []).map(upperTicker),
+        movers: (data.movers || []).map(upperTicker),
+        sources: extractGroundingSources(response, {}, 'marketData'),
+      };
+    }, { signal });
+    return result;
+  });
+
+const toThemeTrend = (theme: ThemeDefinition, quotes: StockItem[]): ThemeTrend => {
+  const themeQuotes = theme.tickers
+    .map(t => quotes.find(q => q.ticker === t.toUpperCase()))
+    .filter((q): q is StockItem => !!q);
+  return {
+    themeId: theme.id,
+    name: theme.name,
+    description: theme.description,
+    rising: themeQuotes.filter(q => isUp(q.quote)),
+    falling: themeQuotes.filter(q => !isUp(q.quote)),
+    summary: "",
+  };
+};
+
+const collectMarketData = async (
+  provider: MarketDataProvider,
+  themes: ThemeDefinition[],
+  universe?: StockUniverse,
+  extraTickers: string[] = [],
+  instruments: InstrumentId[] = DEFAULT_INSTRUMENTS
+): Promise<MarketData> => {
+  const pairs = getInstruments(instruments).filter(i => i.pair);
+  const [asOf, indexLevels, fxRates, gainers, losers, quotes, sources] = await Promise.all([
+    provider.getAsOf(),
+    provider.getIndexLevels(),
+    Promise.all(pairs.map(pair => provider.getFxRate(pair.name))),
+    provider.getTopMovers('gainers', 10, universe?.tickers),
+    provider.getTopMovers('losers', 10, universe?.tickers),
+    provider.getQuotes(Array.from(new Set([...getThemeTickers(themes), ...extraTickers]))),
+    provider.getSources?.(),
+  ]);
+
+  const indices = orderIndices([...indexLevels, ...fxRates.filter((r): r is MarketIndex => !!r)], instruments);
+
+  if (indices.length === 0 && gainers.length === 0 && losers.length === 0) {
+    throw new Error(`Market data provider "${provider.id}" returned no data`);
+  }
+
+  return {
+    source: provider.id,
+    asOf,
+    indices,
+    gainers,
+    losers,
+    themes: themes.map(theme => toThemeTrend(theme, quotes)),
+    quotes: quotes.filter(q => extraTickers.includes(q.ticker)),
+    sources,
+  };
+};
+
+// Tries each provider in order and returns the first successful result.
+export const fetchMarketData = async (
+  providers: MarketDataProvider[],
+  themes: ThemeDefinition[] = DEFAULT_THEMES,
+  universe?: StockUniverse,
+  extraTickers: string[] = [], // Quoted besides the themes, e.g. for the watchlist and portfolio
+  instruments: InstrumentId[] = DEFAULT_INSTRUMENTS // Dashboard instruments, in display order
+): Promise<MarketData> => {
+  let lastError: unknown = new Error("No market data provider configured");
+  for (const provider of providers) {
+    try {
+      return await collectMarketData(provider, themes, universe, extraTickers, instruments);
+    } catch (error) {
+      // A cancelled request must not fall through to the next provider
+      if (classifyError(error).kind === 'cancelled') throw error;
+      console.warn(`Market data provider "${provider.id}" failed, trying next`, error);
+      lastError = error;
+    }
+  }
+  throw lastError;
+};
+
+// Primary provider for the selected source, followed by the search-grounded fallback.
+export const getProviderChain = (
+  source: MarketDataSourceId,
+  apiKey: string,
+  options: SearchProviderOptions = {}
+): MarketDataProvider[] => {
+  const search = createSearchGroundedProvider(apiKey, options);
+  return source === 'search' ? [search] : [createFixtureProvider(), search];
+};
@@ -0,0 +1,58 @@
+import { ModelSettings } from "../types";
+import { GeminiError, RetryOptions, withRetry } from "./geminiErrors";
+
+export const AVAILABLE_MODELS: { id: string; label: string; description: string }[] = [
+  { id: "gemini-3-pro-preview", label: "Gemini 3 Pro", description: "가장 정교한 분석, 느리고 한도가 낮음" },
+  { id: "gemini-3-flash-preview", label: "Gemini 3 Flash", description: "빠른 응답, 균형 잡힌 품질" },
+  { id: "gemini-2.5-pro", label: "Gemini 2.5 Pro", description: "안정 버전 Pro 모델" },
+  { id: "gemini-2.5-flash", label: "Gemini 2.5 Flash", description: "안정 버전, 높은 사용 한도" },
+];
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  primaryModel: "gemini-3-pro-preview",
+  fallbackModels: ["gemini-3-flash-preview"],
+};
+
+// Errors that mean "this model can't serve us right now" rather than "the request is bad"
+const FALLBACK_KINDS: GeminiError['kind'][] = ['quota', 'overloaded'];
+
+export const getModelLabel = (modelId: string) =>
+  AVAILABLE_MODELS.find(m => m.id === modelId)?.label || modelId;
+
+// Primary model followed by its fallbacks, without duplicates
+export const getModelChain = (settings: ModelSettings = DEFAULT_MODEL_SETTINGS): string[] =>
+  Array.from(new Set([settings.primaryModel, ...settings.fallbackModels]));
+
+export interface ModelFallbackOptions extends RetryOptions {
+  onFallback?: (failedModel: string, nextModel: string, error: GeminiError) => void;
+}
+
+/**
+ * Runs `task` against each model in turn. Every model gets the usual retry/backoff first;
+ * only quota and overload errors move on to the next model.
+ */
+export const withModelFallback = async <T,>(
+  models: string[],
+  task: (model: string) => Promise<T>,
+  options: ModelFallbackOptions = {}
+): Promise<{ result: T; model: string }> => {
+  const { onFallback, ...retryOptions } = options;
+  const chain = models.length > 0 ? models : getModelChain();
+
+  for (let i = 0; ; i++) {
+    const model = chain[i];
+    try {
+      const result = await withRetry(() => task(model), retryOptions);
+      return { result, model };
+    } catch (rawError) {
+      const error = rawError as GeminiError;
+      const next = chain[i + 1];
+      const canFallback = next && FALLBACK_KINDS.includes(error.kind) && !retryOptions.signal?.aborted &&
+        (!retryOptions.shouldRetry || retryOptions.shouldRetry(error));
+      if (!canFallback) throw error;
+
+      console.warn(`Model ${model} unavailable (${error.kind}), falling back to ${next}`);
+      onFallback?.(model, next, error);
+    }
+  }
+};
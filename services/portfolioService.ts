@@ -0,0 +1,100 @@
+import { MarketIndex, PnlBreakdown, PortfolioHolding, PortfolioPosition, PortfolioSummary, Quote, Report, StockItem } from "../types";
+
+const PORTFOLIO_KEY = "marketMorning_portfolio";
+
+export const loadPortfolio = (): PortfolioHolding[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PORTFOLIO_KEY) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+export const savePortfolio = (holdings: PortfolioHolding[]) => {
+  localStorage.setItem(PORTFOLIO_KEY, JSON.stringify(holdings));
+};
+
+export const createHoldingId = () => `holding-${Date.now().toString(36)}`;
+
+export const findUsdKrw = (indices: MarketIndex[] = []): Quote | undefined =>
+  indices.find(i => i.name.toUpperCase() === "USD/KRW")?.quote;
+
+// Every stock quote a report carries, so holdings can be valued without a new data request
+export const collectReportQuotes = (report: Partial<Report>): StockItem[] => [
+  ...(report.portfolio?.positions || []).map(({ ticker, name, quote }) => ({ ticker, name, quote })),
+  ...(report.watchlist || []).flatMap(({ ticker, name, quote }) => (quote ? [{ ticker, name, quote }] : [])),
+  ...(report.alertQuotes || []),
+  ...(report.gainers || []),
+  ...(report.losers || []),
+  ...(report.themes || []).flatMap(theme => [...theme.rising, ...theme.falling]),
+];
+
+// --- P&L ---
+
+const ZERO_PNL: PnlBreakdown = { usd: 0, krw: 0, stockEffectKrw: 0, fxEffectKrw: 0 };
+
+// Change in value between two (price, FX) points. stock + fx effects add up to the KRW change exactly.
+const pnlBetween = (shares: number, from: { price: number; fx: number }, to: { price: number; fx: number }): PnlBreakdown => ({
+  usd: shares * (to.price - from.price),
+  krw: shares * (to.price * to.fx - from.price * from.fx),
+  stockEffectKrw: shares * (to.price - from.price) * from.fx,
+  fxEffectKrw: shares * to.price * (to.fx - from.fx),
+});
+
+const addPnl = (a: PnlBreakdown, b: PnlBreakdown): PnlBreakdown => ({
+  usd: a.usd + b.usd,
+  krw: a.krw + b.krw,
+  stockEffectKrw: a.stockEffectKrw + b.stockEffectKrw,
+  fxEffectKrw: a.fxEffectKrw + b.fxEffectKrw,
+});
+
+// Percent of `base`; 0 when there is nothing to compare against
+export const pnlPercent = (amount: number, base: number) => (base ? (amount / base) * 100 : 0);
+
+const valuePosition = (holding: PortfolioHolding, stock: StockItem, fx: Quote): PortfolioPosition => {
+  const { shares, avgCost, purchaseFx } = holding;
+  const now = { price: stock.quote.price, fx: fx.price };
+  const costFx = purchaseFx || fx.price;
+  return {
+    ticker: holding.ticker,
+    name: stock.name,
+    shares,
+    avgCost,
+    ...(purchaseFx && { purchaseFx }),
+    quote: stock.quote,
+    valueUsd: shares * now.price,
+    valueKrw: shares * now.price * now.fx,
+    costUsd: shares * avgCost,
+    costKrw: shares * avgCost * costFx,
+    daily: pnlBetween(shares, { price: now.price - stock.quote.change, fx: now.fx - fx.change }, now),
+    total: pnlBetween(shares, { price: avgCost, fx: costFx }, now),
+  };
+};
+
+// Values the holdings at the given quotes. Null without holdings or a USD/KRW reading.
+export const computePortfolio = (holdings: PortfolioHolding[], quotes: StockItem[], fx: Quote | undefined): PortfolioSummary | null => {
+  if (holdings.length === 0 || !fx) return null;
+
+  const positions: PortfolioPosition[] = [];
+  const unquoted: string[] = [];
+  holdings.forEach(holding => {
+    const stock = quotes.find(q => q.ticker === holding.ticker.toUpperCase());
+    if (stock) positions.push(valuePosition(holding, stock, fx));
+    else unquoted.push(holding.ticker);
+  });
+
+  const sum = (pick: (p: PortfolioPosition) => number) => positions.reduce((total, p) => total + pick(p), 0);
+  return {
+    asOf: positions.length > 0 ? positions[0].quote.asOf : fx.asOf,
+    fx,
+    positions,
+    unquoted,
+    noPurchaseFx: positions.filter(p => !p.purchaseFx).map(p => p.ticker),
+    valueUsd: sum(p => p.valueUsd),
+    valueKrw: sum(p => p.valueKrw),
+    costUsd: sum(p => p.costUsd),
+    costKrw: sum(p => p.costKrw),
+    daily: positions.reduce((total, p) => addPnl(total, p.daily), ZERO_PNL),
+    total: positions.reduce((total, p) => addPnl(total, p.total), ZERO_PNL),
+  };
+};
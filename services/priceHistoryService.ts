@@ -0,0 +1,264 @@
+import { Candle, MarketDataSourceId, MarketSnapshot, PriceHistory, PriceHistoryRange, PriceHistorySourceId } from "../types";
+import { marketFixture } from "../data/marketFixture";
+import { nyseCalendar } from "../data/nyseCalendar";
+import { addDays, getTradingSession, toZonedDate } from "./marketCalendar";
+
+const IMPORTED_PREFIX = "marketMorning_priceHistory_";
+
+export const PRICE_HISTORY_RANGES: PriceHistoryRange[] = ['1D', '5D', '1M', '6M', '1Y', '5Y'];
+
+// Calendar days of daily bars per range; 1D/5D are counted in sessions instead
+const RANGE_DAYS: Partial<Record<PriceHistoryRange, number>> = { '1M': 31, '6M': 183, '1Y': 366, '5Y': 1827 };
+
+const INTRADAY_SESSIONS: Partial<Record<PriceHistoryRange, number>> = { '1D': 1, '5D': 5 };
+
+// Enough for a 200-bar moving average to be defined from the first visible bar
+const LOOKBACK_BARS = 200;
+
+// Source of OHLCV bars for a ticker. getHistory returns null when it has nothing for the range.
+export interface PriceHistorySource {
+  id: PriceHistorySourceId;
+  label: string;
+  hasTicker(ticker: string): boolean;
+  getHistory(ticker: string, range: PriceHistoryRange): Promise<PriceHistory | null>;
+}
+
+export const PRICE_HISTORY_SOURCE_LABELS: Record<PriceHistorySourceId, string> = {
+  csv: "가져온 CSV 시세",
+  fixture: "오프라인 샘플 데이터 (실제 시세 아님)",
+};
+
+const isIntraday = (candle: Candle) => candle.time.length > 10;
+
+const sessionDate = (candle: Candle) =>
+  isIntraday(candle) ? toZonedDate(new Date(candle.time), nyseCalendar.timeZone) : candle.time;
+
+// Folds daily bars into Monday-keyed weekly bars so 5Y stays readable as candles
+const toWeekly = (candles: Candle[]): Candle[] => {
+  const weeks = new Map<string, Candle>();
+  for (const c of candles) {
+    const day = new Date(`${c.time}T00:00:00Z`).getUTCDay();
+    const week = addDays(c.time, -((day + 6) % 7));
+    const current = weeks.get(week);
+    weeks.set(week, current
+      ? { ...current, high: Math.max(current.high, c.high), low: Math.min(current.low, c.low), close: c.close, volume: current.volume + c.volume }
+      : { ...c, time: week });
+  }
+  return Array.from(weeks.values());
+};
+
+type RangeSelection = Pick<PriceHistory, 'interval' | 'candles' | 'lookback'>;
+
+// The last `count` bars of a series, with the bars before them kept as lookback
+const takeLast = (series: Candle[], count: number, interval: PriceHistory['interval']): RangeSelection => {
+  const start = Math.max(0, series.length - count);
+  return { interval, candles: series.slice(start), lookback: series.slice(Math.max(0, start - LOOKBACK_BARS), start) };
+};
+
+// Cuts a full series down to a range. 1D/5D need intraday bars and fall back to daily ones for 5D.
+const selectRange = (candles: Candle[], range: PriceHistoryRange): RangeSelection | null => {
+  if (candles.length === 0) return null;
+  const sessions = INTRADAY_SESSIONS[range];
+  const intraday = candles.filter(isIntraday);
+  const daily = candles.filter(c => !isIntraday(c));
+
+  if (sessions) {
+    if (intraday.length) {
+      const dates = Array.from(new Set(intraday.map(sessionDate))).slice(-sessions);
+      return takeLast(intraday, intraday.filter(c => dates.includes(sessionDate(c))).length, 'intraday');
+    }
+    return range === '5D' && daily.length ? takeLast(daily, 5, 'daily') : null;
+  }
+
+  if (!daily.length) return null;
+  const cutoff = addDays(daily[daily.length - 1].time, -RANGE_DAYS[range]!);
+  const inRange = daily.filter(c => c.time > cutoff).length;
+  return range === '5Y' ? takeLast(toWeekly(daily), toWeekly(daily.slice(-inRange)).length, 'weekly') : takeLast(daily, inRange, 'daily');
+};
+
+// --- CSV source ---
+
+// Normalises "2024-05-01", "05/01/2024" and intraday "2024-05-01 09:30:00-04:00" style stamps
+const parseTime = (text: string): string | null => {
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) return `${us[3]}-${us[1].padStart(2, "0")}-${us[2].padStart(2, "0")}`;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+  const stamp = new Date(text.replace(" ", "T"));
+  return /^\d{4}-\d{2}-\d{2}[ T]\d/.test(text) && !isNaN(stamp.getTime()) ? stamp.toISOString() : null;
+};
+
+// Reads Yahoo Finance / Stooq style exports: Date(time),Open,High,Low,Close[,Adj Close],Volume
+export const parseOhlcvCsv = (text: string): Candle[] => {
+  const [headerLine, ...lines] = text.trim().split(/\r?\n/);
+  const header = (headerLine || "").split(",").map(cell => cell.trim().replace(/^"|"$/g, "").toLowerCase());
+  const column = (name: string) => header.findIndex(cell => cell === name || cell.startsWith(name));
+  const columns = {
+    time: header.findIndex(cell => /^(date|datetime|time|timestamp)/.test(cell)),
+    open: column("open"), high: column("high"), low: column("low"), close: column("close"), volume: column("vol"),
+  };
+  if (Object.entries(columns).some(([key, index]) => key !== 'volume' && index < 0)) {
+    throw new Error("CSV 머리글에서 Date, Open, High, Low, Close 열을 찾지 못했습니다.");
+  }
+
+  const candles = new Map<string, Candle>();
+  for (const line of lines) {
+    const cells = line.split(",").map(cell => cell.trim().replace(/^"|"$/g, ""));
+    const time = parseTime(cells[columns.time] || "");
+    const [open, high, low, close] = [columns.open, columns.high, columns.low, columns.close].map(i => Number(cells[i]));
+    const volume = columns.volume >= 0 ? Number(cells[columns.volume]) || 0 : 0;
+    // Yahoo writes "null" rows for halted sessions
+    if (!time || ![open, high, low, close].every(v => Number.isFinite(v) && v > 0)) continue;
+    candles.set(time, { time, open, high: Math.max(high, open, close), low: Math.min(low, open, close), close, volume });
+  }
+  if (candles.size === 0) throw new Error("CSV에서 유효한 OHLC 행을 찾지 못했습니다.");
+  return Array.from(candles.values()).sort((a, b) => a.time.localeCompare(b.time));
+};
+
+type StoredCandle = [string, number, number, number, number, number];
+
+const importedKey = (ticker: string) => `${IMPORTED_PREFIX}${ticker.toUpperCase()}`;
+
+const loadImported = (ticker: string): Candle[] => {
+  try {
+    const rows: StoredCandle[] = JSON.parse(localStorage.getItem(importedKey(ticker)) || "[]");
+    return rows.map(([time, open, high, low, close, volume]) => ({ time, open, high, low, close, volume }));
+  } catch {
+    return [];
+  }
+};
+
+export const hasImportedHistory = (ticker: string) => localStorage.getItem(importedKey(ticker)) !== null;
+
+// Replaces the ticker's imported bars; only the longest chart range is kept. Returns the number of bars stored.
+export const importOhlcvCsv = (ticker: string, text: string): number => {
+  const candles = parseOhlcvCsv(text);
+  const last = sessionDate(candles[candles.length - 1]);
+  const cutoff = addDays(last, -RANGE_DAYS['5Y']!);
+  const kept = candles.filter(c => sessionDate(c) > cutoff);
+  const rows: StoredCandle[] = kept.map(c => [c.time, c.open, c.high, c.low, c.close, c.volume]);
+  try {
+    localStorage.setItem(importedKey(ticker), JSON.stringify(rows));
+  } catch {
+    throw new Error("브라우저 저장 공간이 부족합니다. 다른 종목의 가져온 시세를 삭제한 뒤 다시 시도해주세요.");
+  }
+  return kept.length;
+};
+
+export const removeImportedHistory = (ticker: string) => localStorage.removeItem(importedKey(ticker));
+
+export const createCsvHistorySource = (): PriceHistorySource => ({
+  id: 'csv',
+  label: PRICE_HISTORY_SOURCE_LABELS.csv,
+  hasTicker: hasImportedHistory,
+  getHistory: async (ticker, range) => {
+    const selected = selectRange(loadImported(ticker), range);
+    return selected && { ticker: ticker.toUpperCase(), range, source: 'csv', ...selected };
+  },
+});
+
+// --- Fixture source ---
+
+// Deterministic PRNG so a ticker's sample chart is the same on every open
+const seededRandom = (seed: string) => {
+  let state = Array.from(seed).reduce((h, ch) => Math.imul(h ^ ch.charCodeAt(0), 16777619), 2166136261) >>> 0;
+  return () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state / 2 ** 32;
+  };
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Five years of sessions ending at the snapshot close, walked backwards from the fixture quote.
+// Intraday bars bridge the last five sessions' opens to their closes.
+const buildFixtureCandles = (ticker: string, snapshot: MarketSnapshot): Candle[] => {
+  const quote = snapshot.quotes.find(q => q.ticker === ticker);
+  if (!quote) return [];
+  const random = seededRandom(ticker);
+  const lastDate = toZonedDate(new Date(snapshot.asOf), nyseCalendar.timeZone);
+  const baseVolume = 2e6 + random() * 4e7;
+
+  const dates: string[] = [];
+  for (let day = lastDate; dates.length < 1260; day = addDays(day, -1)) {
+    if (getTradingSession(day)) dates.unshift(day);
+  }
+
+  const closes = new Array<number>(dates.length);
+  closes[dates.length - 1] = quote.price;
+  closes[dates.length - 2] = quote.price / (1 + quote.changePercent / 100);
+  for (let i = dates.length - 3; i >= 0; i--) {
+    closes[i] = closes[i + 1] / (1 + (random() - 0.49) * 0.04);
+  }
+
+  const daily: Candle[] = dates.map((time, i) => {
+    const close = closes[i];
+    const open = i === 0 ? close : closes[i - 1] * (1 + (random() - 0.5) * 0.01);
+    return {
+      time,
+      open: round(open),
+      high: round(Math.max(open, close) * (1 + random() * 0.012)),
+      low: round(Math.min(open, close) * (1 - random() * 0.012)),
+      close: round(close),
+      volume: Math.round(baseVolume * (0.5 + random())),
+    };
+  });
+
+  const intraday: Candle[] = [];
+  for (const day of daily.slice(-5)) {
+    const session = getTradingSession(day.time)!;
+    const bars = Math.round((session.close.getTime() - session.open.getTime()) / 300000);
+    let previous = day.open;
+    for (let b = 0; b < bars; b++) {
+      const target = day.open + (day.close - day.open) * ((b + 1) / bars);
+      const close = b === bars - 1 ? day.close : Math.min(day.high, Math.max(day.low, target * (1 + (random() - 0.5) * 0.006)));
+      intraday.push({
+        time: new Date(session.open.getTime() + b * 300000).toISOString(),
+        open: round(previous),
+        high: round(Math.min(day.high, Math.max(previous, close) * (1 + random() * 0.002))),
+        low: round(Math.max(day.low, Math.min(previous, close) * (1 - random() * 0.002))),
+        close: round(close),
+        volume: Math.round((day.volume / bars) * (0.4 + random() * 1.2)),
+      });
+      previous = close;
+    }
+  }
+  return [...daily, ...intraday];
+};
+
+// Offline source for demos: synthetic bars consistent with the fixture snapshot's quotes
+export const createFixtureHistorySource = (snapshot: MarketSnapshot = marketFixture): PriceHistorySource => {
+  const cache = new Map<string, Candle[]>();
+  return {
+    id: 'fixture',
+    label: PRICE_HISTORY_SOURCE_LABELS.fixture,
+    hasTicker: (ticker) => snapshot.quotes.some(q => q.ticker === ticker.toUpperCase()),
+    getHistory: async (ticker, range) => {
+      const key = ticker.toUpperCase();
+      if (!cache.has(key)) cache.set(key, buildFixtureCandles(key, snapshot));
+      const selected = selectRange(cache.get(key)!, range);
+      return selected && { ticker: key, range, source: 'fixture', ...selected };
+    },
+  };
+};
+
+// --- Lookup ---
+
+// Imported real data first, then the offline sample
+export const getHistorySources = (): PriceHistorySource[] => [createCsvHistorySource(), createFixtureHistorySource()];
+
+// Sources for a report's stocks: sample bars only back fixture reports, never live numbers
+export const getReportHistorySources = (dataSource?: MarketDataSourceId): PriceHistorySource[] =>
+  dataSource === 'fixture' ? getHistorySources() : [createCsvHistorySource()];
+
+// Bars from the first source that knows the ticker. Ranges it can't serve stay empty rather than
+// mixing in another source's bars.
+export const loadPriceHistory = async (
+  ticker: string,
+  range: PriceHistoryRange,
+  sources: PriceHistorySource[] = getHistorySources()
+): Promise<PriceHistory | null> => {
+  const source = sources.find(s => s.hasTicker(ticker));
+  const history = source && await source.getHistory(ticker, range);
+  return history && history.candles.length > 0 ? history : null;
+};
+
@@ -0,0 +1,81 @@
+import { Quote } from "../types";
+
+// --- Building quotes ---
+
+// Absolute change implied by a price and its percent change vs the previous close
+export const deriveChange = (price: number, changePercent: number): number =>
+  price - price / (1 + changePercent / 100);
+
+export const makeQuote = (
+  price: number,
+  changePercent: number,
+  { change, currency, asOf }: { change?: number; currency?: string; asOf: string }
+): Quote => ({
+  price,
+  change: change ?? deriveChange(price, changePercent),
+  changePercent,
+  ...(currency && { currency }),
+  asOf,
+});
+
+// "USD/KRW" is quoted in KRW; index levels have no currency
+export const currencyOfIndex = (name: string): string | undefined => {
+  const pair = name.toUpperCase().match(/^[A-Z]{3}\/([A-Z]{3})$/);
+  return pair ? pair[1] : undefined;
+};
+
+export const isUp = (quote: Quote) => quote.changePercent >= 0;
+
+// --- Display (all number formatting for the UI and exports goes through here) ---
+
+export const getDisplayLocale = (): string =>
+  (typeof navigator !== "undefined" && navigator.language) || "ko-KR";
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+const formatter = (locale: string, options: Intl.NumberFormatOptions) => {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  if (!formatters.has(key)) formatters.set(key, new Intl.NumberFormat(locale, options));
+  return formatters.get(key)!;
+};
+
+const amountOptions = (currency?: string): Intl.NumberFormatOptions => ({
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+  ...(currency && { style: "currency", currency, currencyDisplay: "narrowSymbol" }),
+});
+
+// "$150.23", "₩1,418.30", "6,712.45"
+export const formatPrice = (quote: Quote, locale = getDisplayLocale()) =>
+  formatter(locale, amountOptions(quote.currency)).format(quote.price);
+
+// "+$1.23", "-0.42"
+export const formatChange = (quote: Quote, locale = getDisplayLocale()) =>
+  formatter(locale, { ...amountOptions(quote.currency), signDisplay: "exceptZero" }).format(quote.change);
+
+// "+2.50%"
+export const formatPercent = (percent: number, locale = getDisplayLocale()) =>
+  formatter(locale, { style: "percent", minimumFractionDigits: 2, maximumFractionDigits: 2, signDisplay: "exceptZero" })
+    .format(percent / 100);
+
+export const formatChangePercent = (quote: Quote, locale = getDisplayLocale()) =>
+  formatPercent(quote.changePercent, locale);
+
+// Money amounts without a quote, e.g. portfolio P&L: "₩1,234,567", "+$12.30"
+export const formatAmount = (amount: number, currency: string, { signed = false } = {}, locale = getDisplayLocale()) =>
+  formatter(locale, {
+    ...amountOptions(currency),
+    ...(currency === "KRW" && { minimumFractionDigits: 0, maximumFractionDigits: 0 }),
+    ...(signed && { signDisplay: "exceptZero" as const }),
+  }).format(amount);
+
+// Economic readings and EPS in their own unit: "3.1%", "175K", "$1.23", "-3.5bp".
+// `signed` is for surprises, where a difference of percent readings is in points ("+0.2%p").
+export const formatReading = (value: number, unit?: string, { signed = false } = {}, locale = getDisplayLocale()) => {
+  const sign = signed ? { signDisplay: "exceptZero" as const } : {};
+  if (unit === "USD") return formatAmount(value, "USD", { signed }, locale);
+  if (unit === "bp") return `${formatter(locale, { maximumFractionDigits: 1, ...sign }).format(value)}bp`;
+  if (unit === "K") return `${formatter(locale, { maximumFractionDigits: 0, ...sign }).format(value)}K`;
+  const text = formatter(locale, { minimumFractionDigits: 1, maximumFractionDigits: 2, ...sign }).format(value);
+  return unit === "%" ? `${text}%${signed ? "p" : ""}` : text;
+};
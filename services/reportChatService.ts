@@ -0,0 +1,100 @@
+import { Content, GoogleGenAI } from "@google/genai";
+import { ChatMessage, PinnedSection, Report } from "../types";
+import { extractGroundingSources } from "./groundingService";
+import { GeminiError, assertNotBlocked } from "./geminiErrors";
+import { getModelChain, withModelFallback } from "./modelService";
+
+// Pinned section titles come from the question; long ones are cut at a word boundary
+const PIN_TITLE_LENGTH = 40;
+
+export const createMessageId = () => `msg-${Date.now().toString(36)}`;
+
+// The report as the model sees it: the chat itself and bookkeeping fields are left out
+const reportContext = ({ chat, pinnedSections, issues, sources, ...report }: Report) => ({
+  ...report,
+  pinnedSections: pinnedSections?.map(({ title, content }) => ({ title, content })),
+});
+
+const systemInstruction = (report: Report) => `
+당신은 아래 미국 증시 브리핑을 작성한 월가 수석 금융 분석가입니다. 사용자가 이 보고서에 대해 후속 질문을 합니다.
+- 한국어 마크다운으로 간결하게 답하세요.
+- 지수, 주가, 등락률 등 수치는 보고서 JSON에 있는 값을 우선 인용하세요. 보고서에 없는 수치는 검색 결과에서 확인한 경우에만 쓰고 출처를 밝히세요.
+- 보고서 데이터로 답할 수 없는 질문이면 그렇다고 말하세요.
+
+**보고서 (JSON):**
+${JSON.stringify(reportContext(report))}
+`;
+
+const toContents = (messages: ChatMessage[]): Content[] =>
+  messages.map(m => ({ role: m.role, parts: [{ text: m.text }] }));
+
+export interface ChatOptions {
+  useSearch?: boolean; // Let the model ground answers with Google Search
+  models?: string[];
+  signal?: AbortSignal;
+}
+
+// One turn of the report Q&A. The session is rebuilt from the saved history on every call,
+// so a reloaded report can be continued and a fallback model sees the whole conversation.
+export const sendChatMessage = async (
+  apiKey: string,
+  report: Report,
+  history: ChatMessage[],
+  question: string,
+  { useSearch = false, models = getModelChain(), signal }: ChatOptions = {}
+): Promise<ChatMessage> => {
+  if (!apiKey) {
+    throw new GeminiError('invalidKey', "API Key is missing");
+  }
+
+  const ai = new GoogleGenAI({ apiKey });
+  const { result: response, model } = await withModelFallback(models, async (model) => {
+    const chat = ai.chats.create({
+      model,
+      history: toContents(history),
+      config: {
+        systemInstruction: systemInstruction(report),
+        ...(useSearch && { tools: [{ googleSearch: {} }] }),
+      },
+    });
+    const response = await chat.sendMessage({ message: question, config: { abortSignal: signal } });
+    assertNotBlocked(response);
+    return response;
+  }, { signal });
+
+  const citations = extractGroundingSources(response, {}).citations.filter(c => c.uri);
+  return {
+    id: createMessageId(),
+    role: 'model',
+    text: response.text || "",
+    createdAt: new Date().toISOString(),
+    ...(useSearch && { grounded: true }),
+    ...(citations.length > 0 && { citations }),
+    model,
+  };
+};
+
+const pinTitle = (question: string) => {
+  const text = question.trim().replace(/\s+/g, " ");
+  if (text.length <= PIN_TITLE_LENGTH) return text;
+  const cut = text.slice(0, PIN_TITLE_LENGTH);
+  return `${cut.slice(0, cut.lastIndexOf(" ") > 0 ? cut.lastIndexOf(" ") : PIN_TITLE_LENGTH)}…`;
+};
+
+// The answer becomes a section titled after the question that prompted it
+export const pinAnswer = (chat: ChatMessage[], messageId: string): PinnedSection | null => {
+  const index = chat.findIndex(m => m.id === messageId);
+  const answer = chat[index];
+  if (!answer || answer.role !== 'model') return null;
+  const question = chat.slice(0, index).reverse().find(m => m.role === 'user');
+  const sources = answer.citations?.length
+    ? `\n\n출처: ${answer.citations.map((c, i) => `[${i + 1}] [${c.title || c.uri}](${c.uri})`).join(" ")}`
+    : "";
+  return {
+    id: `pin-${Date.now().toString(36)}`,
+    title: question ? pinTitle(question.text) : "Q&A",
+    content: `${answer.text}${sources}`,
+    messageId,
+    pinnedAt: new Date().toISOString(),
+  };
+};
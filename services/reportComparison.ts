@@ -0,0 +1,107 @@
+import { ListStreak, MarketIndex, Report, ReportComparison, StockItem, StockListDiff, StockListKey } from "../types";
+
+// A list that can be followed across reports; theme lists are matched by theme id
+interface ListRef {
+  list: StockListKey;
+  themeId?: string;
+  label: string;
+}
+
+// Top lists plus both lists of every theme in the given reports (names from the first report that has the theme)
+const listRefs = (...reports: Report[]): ListRef[] => {
+  const themes = new Map<string, string>();
+  reports.forEach(report => (report.themes || []).forEach(theme => {
+    if (!themes.has(theme.themeId)) themes.set(theme.themeId, theme.name);
+  }));
+  return [
+    { list: 'gainers', label: "상승 Top 10" },
+    { list: 'losers', label: "하락 Top 10" },
+    ...Array.from(themes).flatMap(([themeId, name]): ListRef[] => [
+      { list: 'themeRising', themeId, label: `${name} 상승세` },
+      { list: 'themeFalling', themeId, label: `${name} 하락세` },
+    ]),
+  ];
+};
+
+const getList = (report: Report, { list, themeId }: ListRef): StockItem[] => {
+  const theme = report.themes?.find(t => t.themeId === themeId);
+  switch (list) {
+    case 'gainers': return report.gainers || [];
+    case 'losers': return report.losers || [];
+    case 'themeRising': return theme?.rising || [];
+    case 'themeFalling': return theme?.falling || [];
+  }
+};
+
+const reportTime = (report: Report) => Number(report.id) || new Date(report.dataAsOf || 0).getTime();
+
+// Orders a pair so that `base` is the older report
+export const orderReports = (a: Report, b: Report): [Report, Report] =>
+  reportTime(a) <= reportTime(b) ? [a, b] : [b, a];
+
+const diffIndices = (base: MarketIndex[], target: MarketIndex[]) => {
+  const names = Array.from(new Set([...target.map(i => i.name), ...base.map(i => i.name)]));
+  return names.map(name => {
+    const from = base.find(i => i.name === name);
+    const to = target.find(i => i.name === name);
+    const fromValue = from ? from.quote.price : NaN;
+    const toValue = to ? to.quote.price : NaN;
+    const deltaPercent = !isNaN(fromValue) && !isNaN(toValue) && fromValue !== 0
+      ? ((toValue - fromValue) / fromValue) * 100
+      : null;
+    return { name, from, to, deltaPercent };
+  });
+};
+
+const diffList = (base: Report, target: Report, ref: ListRef): StockListDiff => {
+  const before = getList(base, ref);
+  const after = getList(target, ref);
+  const beforeTickers = new Set(before.map(s => s.ticker));
+  const afterTickers = new Set(after.map(s => s.ticker));
+  return {
+    ...ref,
+    entered: after.filter(s => !beforeTickers.has(s.ticker)),
+    dropped: before.filter(s => !afterTickers.has(s.ticker)),
+    stayed: after.filter(s => beforeTickers.has(s.ticker)),
+  };
+};
+
+/**
+ * Counts how many consecutive report days each ticker of `target` has been on the same list.
+ * Only the last report of each day counts, so several runs on one day don't inflate a streak.
+ */
+export const findStreaks = (target: Report, history: Report[], minDays = 2): ListStreak[] => {
+  const latestPerDay = new Map<string, Report>();
+  history
+    .filter(r => reportTime(r) <= reportTime(target))
+    .sort((a, b) => reportTime(a) - reportTime(b))
+    .forEach(r => latestPerDay.set(r.date, r));
+  latestPerDay.set(target.date, target);
+
+  const days = Array.from(latestPerDay.values()).sort((a, b) => reportTime(b) - reportTime(a));
+  const streaks: ListStreak[] = [];
+
+  listRefs(target).forEach(ref => {
+    getList(target, ref).forEach(stock => {
+      let count = 0;
+      for (const day of days) {
+        if (!getList(day, ref).some(s => s.ticker === stock.ticker)) break;
+        count++;
+      }
+      if (count >= minDays) streaks.push({ ticker: stock.ticker, name: stock.name, ...ref, days: count });
+    });
+  });
+
+  return streaks.sort((a, b) => b.days - a.days);
+};
+
+export const compareReports = (a: Report, b: Report, history: Report[] = []): ReportComparison => {
+  const [base, target] = orderReports(a, b);
+  return {
+    base,
+    target,
+    indexMoves: diffIndices(base.marketIndices || [], target.marketIndices || []),
+    listDiffs: listRefs(target, base).map(ref => diffList(base, target, ref)),
+    streaks: findStreaks(target, history),
+  };
+};
@@ -0,0 +1,116 @@
+import { Report, ReportHistoryEntry } from "../types";
+import { migrateReport } from "./reportMigration";
+
+const DB_NAME = "marketMorning";
+const DB_VERSION = 1;
+const STORE = "reports";
+
+export const DEFAULT_RETENTION_LIMIT = 50;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          const store = db.createObjectStore(STORE, { keyPath: "id" });
+          store.createIndex("date", "date");
+          store.createIndex("savedAt", "savedAt");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Wraps a single-store transaction; resolves with the request result once the transaction commits
+const runTransaction = async <T,>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = action(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Entries keep the shape they were saved with; reports are upgraded on read
+const migrateEntry = (entry: ReportHistoryEntry): ReportHistoryEntry => ({ ...entry, report: migrateReport(entry.report) });
+
+// Newest first, pinned entries included in their chronological place
+export const listReports = async (): Promise<ReportHistoryEntry[]> => {
+  const entries = (await runTransaction<ReportHistoryEntry[]>("readonly", store => store.getAll())) || [];
+  return entries.map(migrateEntry).sort((a, b) => b.savedAt - a.savedAt);
+};
+
+export const getReport = async (id: string): Promise<ReportHistoryEntry | undefined> => {
+  const entry = await runTransaction<ReportHistoryEntry>("readonly", store => store.get(id));
+  return entry && migrateEntry(entry);
+};
+
+export const getLatestReport = async (): Promise<Report | null> => {
+  const [latest] = await listReports();
+  return latest ? latest.report : null;
+};
+
+// Inserts or updates a report, keeping its pin state, then applies the retention limit
+export const saveReport = async (report: Report, retentionLimit = DEFAULT_RETENTION_LIMIT): Promise<void> => {
+  const existing = await getReport(report.id);
+  const entry: ReportHistoryEntry = {
+    id: report.id,
+    date: report.date,
+    savedAt: existing?.savedAt ?? Date.now(),
+    pinned: existing?.pinned ?? false,
+    report,
+  };
+  await runTransaction("readwrite", store => { store.put(entry); });
+  await enforceRetention(retentionLimit);
+};
+
+export const deleteReport = async (id: string): Promise<void> => {
+  await runTransaction("readwrite", store => { store.delete(id); });
+};
+
+export const setReportPinned = async (id: string, pinned: boolean): Promise<void> => {
+  const existing = await getReport(id);
+  if (!existing) return;
+  await runTransaction("readwrite", store => { store.put({ ...existing, pinned }); });
+};
+
+// Deletes the oldest unpinned reports beyond `limit`. A limit of 0 keeps everything.
+export const enforceRetention = async (limit: number): Promise<number> => {
+  if (limit <= 0) return 0;
+  const unpinned = (await listReports()).filter(entry => !entry.pinned);
+  const expired = unpinned.slice(limit);
+  if (expired.length === 0) return 0;
+  await runTransaction("readwrite", store => {
+    expired.forEach(entry => store.delete(entry.id));
+  });
+  return expired.length;
+};
+
+// Case-insensitive match on title, date and any ticker or company name in the report
+export const matchesHistoryQuery = (entry: ReportHistoryEntry, query: string): boolean => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  const { report } = entry;
+  const stocks = [...report.gainers, ...report.losers, ...report.themes.flatMap(t => [...t.rising, ...t.falling])];
+  return (
+    report.reportTitle.toLowerCase().includes(q) ||
+    report.themes.some(t => t.name.toLowerCase().includes(q)) ||
+    report.date.toLowerCase().includes(q) ||
+    stocks.some(s => s.ticker.toLowerCase().startsWith(q) || s.name.toLowerCase().includes(q))
+  );
+};
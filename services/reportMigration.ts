@@ -0,0 +1,91 @@
+import { MarketIndex, Report, ReportSection, StockItem } from "../types";
+import { DEFAULT_THEMES } from "./themeService";
+import { currencyOfIndex, makeQuote } from "./quotes";
+
+// Quote shapes saved before prices became numbers: "$150.23", "+2.5%", "1,345.50원"
+interface LegacyStockItem {
+  ticker: string;
+  name: string;
+  price: string;
+  change: string;
+}
+
+interface LegacyMarketIndex {
+  name: string;
+  value: string;
+  change: string;
+  isPositive: boolean;
+}
+
+// Shape of reports saved before themes replaced the fixed AI block
+interface LegacyReport extends Omit<Report, 'themes'> {
+  themes?: Report['themes'];
+  aiTrend?: { rising: StockItem[]; falling: StockItem[]; summary: string };
+}
+
+// Returns NaN when the string holds no number (e.g. "N/A")
+const parseNumber = (value: string): number => {
+  if (typeof value !== 'string') return NaN;
+  const cleaned = value.replace(/,/g, '').match(/[-+]?\d*\.?\d+/);
+  if (!cleaned) return NaN;
+  const num = parseFloat(cleaned[0]);
+  // "-$1.2" style strings keep the sign in front of the currency symbol
+  return /^\s*-/.test(value) && num > 0 ? -num : num;
+};
+
+const detectCurrency = (text: string, fallback?: string) =>
+  /원|₩|KRW/.test(text) ? "KRW" : /\$|USD/.test(text) ? "USD" : fallback;
+
+const migrateStockItem = (item: StockItem | LegacyStockItem, asOf: string): StockItem => {
+  if ('quote' in item) return item;
+  const { ticker, name, price, change } = item;
+  return { ticker, name, quote: makeQuote(parseNumber(price), parseNumber(change), { currency: detectCurrency(price, "USD"), asOf }) };
+};
+
+const migrateMarketIndex = (index: MarketIndex | LegacyMarketIndex, asOf: string): MarketIndex => {
+  if ('quote' in index) return index;
+  const { name, value, change } = index;
+  return { name, quote: makeQuote(parseNumber(value), parseNumber(change), { currency: detectCurrency(value, currencyOfIndex(name)), asOf }) };
+};
+
+const migrateQuotes = (report: Report): Report => {
+  const asOf = report.dataAsOf || new Date(Number(report.id) || Date.now()).toISOString();
+  const items = (list: (StockItem | LegacyStockItem)[] = []) => list.map(item => migrateStockItem(item, asOf));
+  return {
+    ...report,
+    marketIndices: (report.marketIndices || []).map(index => migrateMarketIndex(index, asOf)),
+    gainers: items(report.gainers),
+    losers: items(report.losers),
+    themes: report.themes.map(theme => ({ ...theme, rising: items(theme.rising), falling: items(theme.falling) })),
+  };
+};
+
+const migrateThemes = (stored: Report | LegacyReport): Report => {
+  const { aiTrend, ...report } = stored as LegacyReport;
+  if (report.themes) return report as Report;
+
+  const [aiTheme] = DEFAULT_THEMES;
+  const sections = report.sources?.sections as Partial<Record<ReportSection | 'aiTrend', number[]>> | undefined;
+  const { aiTrend: aiSources, ...otherSections } = sections || {};
+
+  return {
+    ...report,
+    themes: aiTrend ? [{
+      themeId: aiTheme.id,
+      name: aiTheme.name,
+      description: aiTheme.description,
+      rising: aiTrend.rising || [],
+      falling: aiTrend.falling || [],
+      summary: aiTrend.summary || "",
+    }] : [],
+    sources: report.sources && {
+      ...report.sources,
+      sections: aiSources ? { ...otherSections, themes: aiSources } : otherSections,
+    },
+    // Validator paths were renamed along with the block
+    issues: report.issues?.map(issue => ({ ...issue, path: issue.path.replace(/^aiTrend\./, "themes[0].") })),
+  };
+};
+
+// Brings a stored or imported report up to the current shape. Current reports pass through unchanged.
+export const migrateReport = (stored: Report | LegacyReport): Report => migrateQuotes(migrateThemes(stored));
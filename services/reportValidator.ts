@@ -0,0 +1,169 @@
+import { InstrumentId, MarketIndex, Quote, Report, ReportIssue, StockItem, StockUniverse } from "../types";
+import { currencyOfIndex, deriveChange } from "./quotes";
+import { DEFAULT_INSTRUMENTS, findInstrument, getInstruments } from "./instrumentService";
+
+const TICKER_PATTERN = /^[A-Z]{1,5}(\.[A-Z]{1,2})?$/;
+const TOP_LIST_SIZE = 10;
+
+// Lists that can be re-requested from the model when they contain errors
+export type RepairableField = 'marketIndices' | 'gainers' | 'losers' | `themes[${number}].${'rising' | 'falling'}`;
+
+const THEME_LIST_PATH = /^themes\[\d+\]\.(rising|falling)/;
+
+type ListKind = 'gainer' | 'loser' | 'rising' | 'falling';
+
+// Model output is schema-typed, but a missing or non-numeric field still has to be caught here
+const toNumber = (value: unknown): number => typeof value === 'number' && isFinite(value) ? value : NaN;
+
+const sanitizeQuote = (raw: Partial<Quote> | undefined, asOf: string, currency?: string): Quote => ({
+  price: toNumber(raw?.price),
+  change: toNumber(raw?.change),
+  changePercent: toNumber(raw?.changePercent),
+  ...((raw?.currency || currency) && { currency: String(raw?.currency || currency).toUpperCase() }),
+  asOf: raw?.asOf || asOf,
+});
+
+// Fills in or corrects the absolute change when it is missing or disagrees with the percent change
+const reconcileChange = (quote: Quote, label: string, path: string, issues: ReportIssue[]): Quote => {
+  if (isNaN(quote.price) || isNaN(quote.changePercent)) return quote;
+  const derived = deriveChange(quote.price, quote.changePercent);
+  if (isNaN(quote.change)) {
+    issues.push({ severity: 'warning', path: `${path}.change`, message: `${label}: 변동폭이 없어 등락률로 계산했습니다.`, fixed: true });
+    return { ...quote, change: derived };
+  }
+  if (quote.change !== 0 && quote.changePercent !== 0 && quote.change > 0 !== quote.changePercent > 0) {
+    issues.push({ severity: 'warning', path: `${path}.change`, message: `${label}: 변동폭 부호를 등락률(${quote.changePercent}%)에 맞게 수정했습니다.`, fixed: true });
+    return { ...quote, change: derived };
+  }
+  return quote;
+};
+
+const validateStockList = (
+  items: StockItem[] | undefined,
+  path: string,
+  kind: ListKind,
+  issues: ReportIssue[],
+  asOf: string,
+  universe?: StockUniverse
+): StockItem[] => {
+  if (!Array.isArray(items)) {
+    issues.push({ severity: 'error', path, message: "목록이 비어 있거나 형식이 잘못되었습니다." });
+    return [];
+  }
+
+  const seen = new Set<string>();
+  const sanitized: StockItem[] = [];
+
+  items.forEach((raw, idx) => {
+    const itemPath = `${path}[${idx}]`;
+    const item: StockItem = {
+      ticker: String(raw?.ticker ?? '').trim().toUpperCase(),
+      name: String(raw?.name ?? '').trim(),
+      quote: sanitizeQuote(raw?.quote, asOf, "USD"),
+    };
+    const quotePath = `${itemPath}.quote`;
+
+    if (seen.has(item.ticker)) {
+      issues.push({ severity: 'warning', path: `${itemPath}.ticker`, message: `중복 종목 ${item.ticker}을(를) 제거했습니다.`, fixed: true });
+      return;
+    }
+    seen.add(item.ticker);
+
+    if (!TICKER_PATTERN.test(item.ticker)) {
+      issues.push({ severity: 'error', path: `${itemPath}.ticker`, message: `잘못된 티커 형식입니다: "${item.ticker}"` });
+    } else if (universe && !universe.tickers.includes(item.ticker)) {
+      // Left unfixed so the list can be refilled from the right universe by a repair
+      issues.push({ severity: 'error', path: `${itemPath}.ticker`, message: `${item.ticker}은(는) ${universe.label} 구성 종목이 아니어서 제외했습니다.` });
+      return;
+    }
+
+    const { price, changePercent } = item.quote;
+    if (isNaN(price) || price <= 0) {
+      issues.push({ severity: 'error', path: `${quotePath}.price`, message: `${item.ticker}: 현재가가 없거나 잘못되었습니다 (${raw?.quote?.price}).` });
+    }
+
+    if (isNaN(changePercent)) {
+      issues.push({ severity: 'error', path: `${quotePath}.changePercent`, message: `${item.ticker}: 등락률이 없거나 잘못되었습니다 (${raw?.quote?.changePercent}).` });
+    } else if ((kind === 'gainer' || kind === 'rising') && changePercent < 0) {
+      issues.push({ severity: 'error', path: `${quotePath}.changePercent`, message: `${item.ticker}: 상승 목록에 하락 종목이 포함되어 있습니다 (${changePercent}%).` });
+    } else if ((kind === 'loser' || kind === 'falling') && changePercent > 0) {
+      issues.push({ severity: 'error', path: `${quotePath}.changePercent`, message: `${item.ticker}: 하락 목록에 상승 종목이 포함되어 있습니다 (${changePercent}%).` });
+    }
+
+    sanitized.push({ ...item, quote: reconcileChange(item.quote, item.ticker, quotePath, issues) });
+  });
+
+  if ((kind === 'gainer' || kind === 'loser') && sanitized.length !== TOP_LIST_SIZE) {
+    issues.push({ severity: 'warning', path, message: `Top ${TOP_LIST_SIZE} 목록에 ${sanitized.length}개 종목만 있습니다.` });
+  }
+
+  return sanitized;
+};
+
+// Every instrument the report asked for must be there; reports from before the list was configurable expect the original five
+const validateIndices = (indices: MarketIndex[] | undefined, issues: ReportIssue[], asOf: string, expected: InstrumentId[]): MarketIndex[] => {
+  if (!Array.isArray(indices)) {
+    issues.push({ severity: 'error', path: 'marketIndices', message: "시장 지표 목록이 없습니다." });
+    return [];
+  }
+
+  getInstruments(expected).forEach(({ id, name }) => {
+    const found = indices.some(i => findInstrument(String(i?.name ?? ''))?.id === id);
+    if (!found) {
+      issues.push({ severity: 'error', path: 'marketIndices', message: `${name} 지표가 누락되었습니다.` });
+    }
+  });
+
+  return indices.map((raw, i) => {
+    const path = `marketIndices[${i}].quote`;
+    const name = String(raw?.name ?? '').trim();
+    const quote = sanitizeQuote(raw?.quote, asOf, currencyOfIndex(name));
+    if (isNaN(quote.price)) {
+      issues.push({ severity: 'error', path: `${path}.price`, message: `${name}: 지표 값이 없거나 잘못되었습니다 (${raw?.quote?.price}).` });
+    }
+    if (isNaN(quote.changePercent)) {
+      issues.push({ severity: 'error', path: `${path}.changePercent`, message: `${name}: 등락률이 없거나 잘못되었습니다 (${raw?.quote?.changePercent}).` });
+    }
+    return { name, quote: reconcileChange(quote, name, path, issues) };
+  });
+};
+
+// Checks and sanitizes the market data parts of a report. Returns the cleaned report with `issues` attached.
+// With a universe, gainers/losers outside it are dropped.
+export const validateReport = (report: Report, universe?: StockUniverse): Report => {
+  const issues: ReportIssue[] = [];
+
+  // Quotes without their own timestamp (e.g. from a repair) take the report's data time
+  const asOf = report.dataAsOf || new Date(Number(report.id) || Date.now()).toISOString();
+
+  const marketIndices = validateIndices(report.marketIndices, issues, asOf, report.instruments || DEFAULT_INSTRUMENTS);
+  const gainers = validateStockList(report.gainers, 'gainers', 'gainer', issues, asOf, universe);
+  const losers = validateStockList(report.losers, 'losers', 'loser', issues, asOf, universe);
+  const themes = (report.themes || []).map((theme, i) => ({
+    ...theme,
+    rising: validateStockList(theme.rising, `themes[${i}].rising`, 'rising', issues, asOf),
+    falling: validateStockList(theme.falling, `themes[${i}].falling`, 'falling', issues, asOf),
+  }));
+
+  return {
+    ...report,
+    marketIndices,
+    gainers,
+    losers,
+    themes,
+    issues,
+  };
+};
+
+// Lists that still hold unfixed errors and are worth re-prompting for
+export const getRepairableFields = (issues: ReportIssue[]): RepairableField[] => {
+  const fields = new Set<RepairableField>();
+  issues
+    .filter(issue => issue.severity === 'error' && !issue.fixed)
+    .forEach(issue => {
+      const field = issue.path.match(THEME_LIST_PATH)?.[0] as RepairableField | undefined
+        ?? (['marketIndices', 'gainers', 'losers'] as RepairableField[]).find(f => issue.path.startsWith(f));
+      if (field) fields.add(field);
+    });
+  return Array.from(fields);
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { ScheduleConfig } from "../types";
+import { getLatestSlot } from "./schedulerService";
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri"];
+const EVERY_DAY = ["Sun", ...WEEKDAYS, "Sat"];
+
+const clock = (time: string, timeZone: string, days = WEEKDAYS): ScheduleConfig =>
+  ({ isEnabled: true, trigger: 'clock', time, timeZone, days });
+
+// The slot due exactly at `iso`, checked to be there rather than an earlier one
+const slotAt = (config: ScheduleConfig, iso: string) => {
+  const slot = getLatestSlot(config, new Date(iso));
+  expect(slot?.at.toISOString()).toBe(new Date(iso).toISOString());
+  return slot!;
+};
+
+describe("clock slots around a holiday (MLK Day, Mon 2026-01-19)", () => {
+  it("New York morning slots report on that day's session", () => {
+    const config = clock("09:00", "America/New_York");
+    expect(slotAt(config, "2026-01-16T14:00:00Z").tradingDay).toBe(true);
+    expect(slotAt(config, "2026-01-19T14:00:00Z")).toMatchObject({ tradingDay: false, note: "마틴 루터 킹 데이" });
+    expect(slotAt(config, "2026-01-20T14:00:00Z").tradingDay).toBe(true);
+  });
+
+  it("Seoul morning slots report on the previous New York session", () => {
+    const config = clock("09:00", "Asia/Seoul");
+    // Sunday night in New York: Friday's close hasn't been briefed yet
+    expect(slotAt(config, "2026-01-19T00:00:00Z").tradingDay).toBe(true);
+    expect(slotAt(config, "2026-01-20T00:00:00Z")).toMatchObject({ tradingDay: false, note: "마틴 루터 킹 데이" });
+    expect(slotAt(config, "2026-01-21T00:00:00Z").tradingDay).toBe(true);
+  });
+
+  it("Seoul slots that land before the New York close follow that day's session", () => {
+    const config = clock("05:30", "Asia/Seoul");
+    expect(slotAt(config, "2026-01-19T20:30:00Z").tradingDay).toBe(false);
+    expect(slotAt(config, "2026-01-20T20:30:00Z").tradingDay).toBe(true);
+  });
+});
+
+describe("clock slots over a weekend", () => {
+  it("briefs Friday once when every day is selected", () => {
+    const config = clock("09:00", "Asia/Seoul", EVERY_DAY);
+    expect(slotAt(config, "2026-10-16T00:00:00Z").tradingDay).toBe(true);
+    expect(slotAt(config, "2026-10-17T00:00:00Z").tradingDay).toBe(true);
+    expect(slotAt(config, "2026-10-18T00:00:00Z")).toMatchObject({ tradingDay: false, note: "주말" });
+    expect(slotAt(config, "2026-10-19T00:00:00Z")).toMatchObject({ tradingDay: false, note: "주말" });
+    expect(slotAt(config, "2026-10-20T00:00:00Z").tradingDay).toBe(true);
+  });
+
+  it("briefs Friday on Monday when only weekdays are selected", () => {
+    expect(slotAt(clock("09:00", "Asia/Seoul"), "2026-10-19T00:00:00Z").tradingDay).toBe(true);
+  });
+});
+
+describe("clock slots across DST changes in New York", () => {
+  // Clocks go forward on Sun 2026-03-08 and back on Sun 2026-11-01; Seoul has no DST
+  it("keeps New York slots at local time and trading on the Monday after", () => {
+    const config = clock("09:00", "America/New_York");
+    expect(slotAt(config, "2026-03-06T14:00:00Z").tradingDay).toBe(true);
+    expect(slotAt(config, "2026-03-09T13:00:00Z").tradingDay).toBe(true);
+    expect(slotAt(config, "2026-10-30T13:00:00Z").tradingDay).toBe(true);
+    expect(slotAt(config, "2026-11-02T14:00:00Z").tradingDay).toBe(true);
+  });
+
+  it("briefs Friday from Seoul on the Monday after either change", () => {
+    const config = clock("09:00", "Asia/Seoul");
+    expect(slotAt(config, "2026-03-09T00:00:00Z").tradingDay).toBe(true);
+    expect(slotAt(config, "2026-11-02T00:00:00Z").tradingDay).toBe(true);
+  });
+
+  it("keeps an early Seoul slot on Friday's session whichever side of the close it lands", () => {
+    // 05:30 in Seoul is 15:30 EST (before the close) but 16:30 EDT (after it)
+    const config = clock("05:30", "Asia/Seoul", EVERY_DAY);
+    expect(slotAt(config, "2026-03-06T20:30:00Z").tradingDay).toBe(true);
+    expect(slotAt(config, "2026-03-07T20:30:00Z").tradingDay).toBe(false);
+    expect(slotAt(config, "2026-03-13T20:30:00Z").tradingDay).toBe(true);
+    expect(slotAt(config, "2026-03-14T20:30:00Z").tradingDay).toBe(false);
+  });
+});
+
+describe("Thanksgiving week (closed Thu 2026-11-26, early close Fri 2026-11-27)", () => {
+  it("anchors close triggers to the early close", () => {
+    const config: ScheduleConfig = { isEnabled: true, trigger: 'nyseClose', offsetMinutes: 30, time: "09:00", days: WEEKDAYS };
+    expect(slotAt(config, "2026-11-27T18:30:00Z")).toMatchObject({ tradingDay: true, note: "조기 폐장 (추수감사절 다음 날)" });
+    expect(slotAt(config, "2026-11-26T21:30:00Z")).toMatchObject({ tradingDay: false, note: "추수감사절" });
+  });
+
+  it("runs clock slots after the early close and skips the holiday", () => {
+    expect(slotAt(clock("14:00", "America/New_York"), "2026-11-27T19:00:00Z").tradingDay).toBe(true);
+    const seoul = clock("09:00", "Asia/Seoul", EVERY_DAY);
+    expect(slotAt(seoul, "2026-11-26T00:00:00Z").tradingDay).toBe(true);
+    expect(slotAt(seoul, "2026-11-27T00:00:00Z")).toMatchObject({ tradingDay: false, note: "추수감사절" });
+    expect(slotAt(seoul, "2026-11-28T00:00:00Z").tradingDay).toBe(true);
+  });
+});
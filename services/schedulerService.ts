@@ -0,0 +1,172 @@
+import { Report, ScheduleConfig, ScheduleRun, ScheduleSlot, ScheduleTrigger } from "../types";
+import { nyseCalendar } from "../data/nyseCalendar";
+import {
+  addDays, fromZonedTime, getClosureReason, getLocalTimeZone, getLastSessionClose, getTradingSession, getWeekday, isTradingDay, toZonedDate
+} from "./marketCalendar";
+import { DEFAULT_SESSION_MODE } from "./sessionModes";
+
+const LOG_KEY = "marketMorning_scheduleLog";
+const LAST_SLOT_KEY = "marketMorning_scheduleLastSlot";
+const LOG_LIMIT = 30;
+
+// How often the app checks whether a slot is due
+export const SCHEDULER_TICK_MS = 30 * 1000;
+// Runs started later than this after their slot are logged as catch-up runs
+const ON_TIME_GRACE_MS = 5 * 60 * 1000;
+// Days scanned when looking for the next/previous slot (one full week plus margin for zone shifts)
+const SCAN_DAYS = 9;
+
+export const TRIGGER_LABELS: Record<ScheduleTrigger, string> = {
+  clock: "시각 지정",
+  nyseOpen: "뉴욕 개장 기준",
+  nyseClose: "뉴욕 마감 기준",
+};
+
+// Fills in defaults for configs saved before market triggers existed
+export const normalizeSchedule = (config: ScheduleConfig): Required<ScheduleConfig> => ({
+  trigger: 'clock',
+  timeZone: getLocalTimeZone(),
+  offsetMinutes: 30,
+  nonTradingDays: 'skip',
+  sessionMode: DEFAULT_SESSION_MODE,
+  ...config,
+});
+
+// "뉴욕 마감 30분 후" / "09:00 (Asia/Seoul)"
+export const describeSchedule = (config: ScheduleConfig): string => {
+  const { trigger, timeZone, offsetMinutes } = normalizeSchedule(config);
+  if (trigger === 'clock') return `${config.time} (${timeZone})`;
+  const event = trigger === 'nyseOpen' ? "뉴욕 개장" : "뉴욕 마감";
+  if (offsetMinutes === 0) return `${event} 시각`;
+  const amount = Math.abs(offsetMinutes) % 60 === 0 ? `${Math.abs(offsetMinutes) / 60}시간` : `${Math.abs(offsetMinutes)}분`;
+  return `${event} ${amount} ${offsetMinutes < 0 ? "전" : "후"}`;
+};
+
+// The clock slot on the nearest selected day before `day`
+const previousClockSlot = (config: Required<ScheduleConfig>, day: string): Date => {
+  let previous = addDays(day, -1);
+  while (!config.days.includes(getWeekday(previous))) previous = addDays(previous, -1);
+  return fromZonedTime(previous, config.time, config.timeZone);
+};
+
+// The slot a schedule produces on one calendar day, or null when the day isn't selected.
+// Clock triggers use days in the configured zone; market triggers use NYSE session days.
+const slotForDay = (config: Required<ScheduleConfig>, day: string): ScheduleSlot | null => {
+  if (!config.days.includes(getWeekday(day))) return null;
+
+  if (config.trigger === 'clock') {
+    const at = fromZonedTime(day, config.time, config.timeZone);
+    const exchangeDay = toZonedDate(at, nyseCalendar.timeZone);
+    const closed = !isTradingDay(exchangeDay);
+    // Before the (regular) close a slot reports on that New York day's session. After it, on the
+    // last close, which counts when no earlier slot reported on it: Monday morning in Seoul is
+    // Sunday night in New York and still briefs Friday.
+    const afterClose = at >= fromZonedTime(exchangeDay, nyseCalendar.regularClose, nyseCalendar.timeZone);
+    const lastClose = closed && afterClose ? getLastSessionClose(at) : null;
+    const tradingDay = !closed || (!!lastClose && lastClose > previousClockSlot(config, day));
+    return { at, tradingDay, note: tradingDay ? undefined : getClosureReason(exchangeDay) || "NYSE 휴장" };
+  }
+
+  const session = getTradingSession(day);
+  // Closed days keep the regular-hours slot so they can be skipped or turned into a recap
+  const base = session
+    ? (config.trigger === 'nyseOpen' ? session.open : session.close)
+    : fromZonedTime(day, config.trigger === 'nyseOpen' ? nyseCalendar.regularOpen : nyseCalendar.regularClose, nyseCalendar.timeZone);
+  return {
+    at: new Date(base.getTime() + config.offsetMinutes * 60 * 1000),
+    tradingDay: !!session,
+    note: session ? (session.earlyClose && `조기 폐장 (${session.earlyClose})`) || undefined : getClosureReason(day) || undefined,
+  };
+};
+
+// All slots whose calendar day lies within SCAN_DAYS of `around`, in time order
+const listSlots = (config: ScheduleConfig, around: Date, direction: 1 | -1): ScheduleSlot[] => {
+  const normalized = normalizeSchedule(config);
+  const zone = normalized.trigger === 'clock' ? normalized.timeZone : nyseCalendar.timeZone;
+  const today = toZonedDate(around, zone);
+  const slots: ScheduleSlot[] = [];
+  for (let offset = -1; offset < SCAN_DAYS; offset++) {
+    const slot = slotForDay(normalized, addDays(today, offset * direction));
+    if (slot) slots.push(slot);
+  }
+  return slots.sort((a, b) => a.at.getTime() - b.at.getTime());
+};
+
+// First slot strictly after `after`, or null when no days are selected
+export const getNextRun = (config: ScheduleConfig, after: Date = new Date()): ScheduleSlot | null =>
+  listSlots(config, after, 1).find(slot => slot.at > after) || null;
+
+// Most recent slot at or before `now`
+export const getLatestSlot = (config: ScheduleConfig, now: Date = new Date()): ScheduleSlot | null =>
+  listSlots(config, now, -1).filter(slot => slot.at <= now).pop() || null;
+
+// The slot that should run now, if any. Only the latest missed slot is caught up;
+// older ones would produce the same briefing.
+export const getDueRun = (config: ScheduleConfig, now: Date = new Date()): { slot: ScheduleSlot; catchUp: boolean } | null => {
+  if (!config.isEnabled) return null;
+  const slot = getLatestSlot(config, now);
+  if (!slot) return null;
+
+  const lastSlot = localStorage.getItem(LAST_SLOT_KEY);
+  if (lastSlot && new Date(lastSlot) >= slot.at) return null;
+  return { slot, catchUp: now.getTime() - slot.at.getTime() > ON_TIME_GRACE_MS };
+};
+
+// Marks everything up to `slot` as handled so it won't run (again)
+export const markSlotHandled = (slot: Date) => {
+  localStorage.setItem(LAST_SLOT_KEY, slot.toISOString());
+};
+
+// Called when the schedule is (re)saved so slots before the change aren't treated as missed
+export const resetSchedule = (config: ScheduleConfig, now: Date = new Date()) => {
+  const slot = getLatestSlot(config, now);
+  if (slot) markSlotHandled(slot.at);
+  else localStorage.removeItem(LAST_SLOT_KEY);
+};
+
+// --- Run log (newest first) ---
+
+export const loadRunLog = (): ScheduleRun[] => {
+  try {
+    return JSON.parse(localStorage.getItem(LOG_KEY) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+// Inserts or replaces a run by id and returns the updated log
+export const saveRun = (run: ScheduleRun): ScheduleRun[] => {
+  const log = [run, ...loadRunLog().filter(r => r.id !== run.id)].slice(0, LOG_LIMIT);
+  localStorage.setItem(LOG_KEY, JSON.stringify(log));
+  return log;
+};
+
+// A run still marked 'running' at startup was cut off when the page closed
+export const closeInterruptedRuns = (): ScheduleRun[] => {
+  const log = loadRunLog().map(run => run.status === 'running'
+    ? { ...run, status: 'error' as const, message: "앱이 종료되어 실행이 중단되었습니다." }
+    : run);
+  localStorage.setItem(LOG_KEY, JSON.stringify(log));
+  return log;
+};
+
+export const clearRunLog = () => localStorage.removeItem(LOG_KEY);
+
+// Browser notification with the report headline; clicking it focuses the app
+export const notifyReport = (report: Report, catchUp: boolean) => {
+  if (!("Notification" in window) || Notification.permission !== "granted") return;
+  const firstLine = report.conclusion.replace(/[#*_>`-]/g, "").split(/\n|(?<=[.!?])\s/).find(line => line.trim()) || "";
+  const notification = new Notification(report.reportTitle, {
+    body: `${catchUp ? "[지연 실행] " : ""}${firstLine.trim()}`,
+    tag: `marketMorning-${report.id}`,
+  });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+};
+
+export const notifyRunFailed = (message: string) => {
+  if (!("Notification" in window) || Notification.permission !== "granted") return;
+  new Notification("예약 보고서 생성 실패", { body: message });
+};
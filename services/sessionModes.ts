@@ -0,0 +1,59 @@
+import { SessionMode } from "../types";
+
+export interface SessionModeDefinition {
+  id: SessionMode;
+  label: string;
+  description: string;
+  titlePrefix: string; // reportTitle: "<titlePrefix> - YYYY-MM-DD"
+  highlightsLabel: string; // Title of the mode-specific report section
+  dataInstruction: string; // Which prices the data provider should look up
+  narrativeFocus: string; // What the narrative must cover
+  highlightsInstruction: string; // Content of the sessionHighlights field
+}
+
+export const DEFAULT_SESSION_MODE: SessionMode = 'postClose';
+
+export const SESSION_MODES: Record<SessionMode, SessionModeDefinition> = {
+  preMarket: {
+    id: 'preMarket',
+    label: "프리마켓",
+    description: "개장 전 선물, 밤사이 뉴스, 프리마켓 특징주",
+    titlePrefix: "미국 증시 개장 전 브리핑",
+    highlightsLabel: "선물 · 밤사이 뉴스 · 프리마켓 특징주",
+    dataInstruction:
+      "정규장 개장 전입니다. 지수(indices)는 전일 종가 기준 값과 등락률을 사용하세요. " +
+      "종목(quotes)은 프리마켓 가격(price)과 전일 종가 대비 프리마켓 등락률(changePercent)을 사용하고, " +
+      "상승/하락 상위 종목도 프리마켓 등락률 기준으로 고르세요.",
+    narrativeFocus:
+      "아직 정규장이 열리지 않았습니다. 지수 선물, 밤사이 아시아·유럽 시장, 간밤의 뉴스와 프리마켓 특징주를 중심으로 오늘 장을 전망하세요. " +
+      "종목 데이터는 프리마켓 기준임을 명시하세요.",
+    highlightsInstruction: "S&P 500·나스닥 선물 흐름, 밤사이 주요 뉴스, 프리마켓에서 크게 움직이는 종목과 그 이유 (마크다운).",
+  },
+  intraday: {
+    id: 'intraday',
+    label: "장중",
+    description: "정규장 진행 중 실시간 움직임",
+    titlePrefix: "미국 증시 장중 브리핑",
+    highlightsLabel: "장중 주요 움직임",
+    dataInstruction:
+      "정규장이 진행 중입니다. 모든 지수, 환율, 종목 값은 현재 장중 실시간 값과 전일 종가 대비 등락률을 사용하세요. " +
+      "종가나 시간외 가격은 사용하지 마세요.",
+    narrativeFocus:
+      "정규장이 진행 중입니다. 현재까지의 장중 흐름과 지금 시장을 움직이는 요인을 설명하고, 남은 장에서 주목할 점을 제시하세요. " +
+      "수치는 장중 기준이며 마감 전 변할 수 있음을 명시하세요.",
+    highlightsInstruction: "지금 가장 크게 움직이는 종목과 섹터, 장중 발표된 지표·뉴스에 대한 반응 (마크다운).",
+  },
+  postClose: {
+    id: 'postClose',
+    label: "장 마감",
+    description: "최종 종가와 시간외 실적 반응",
+    titlePrefix: "미국 증시 마감 브리핑",
+    highlightsLabel: "시간외 실적 반응",
+    dataInstruction:
+      "정규장이 마감되었습니다. 모든 지수, 환율, 종목 값은 최종 종가와 전일 대비 등락률을 사용하세요. " +
+      "시간외(after-hours) 가격은 사용하지 마세요.",
+    narrativeFocus:
+      "정규장이 마감되었습니다. 최종 종가 기준으로 하루를 정리하세요.",
+    highlightsInstruction: "장 마감 후 실적을 발표한 기업과 시간외 주가 반응, 내일 장에 미칠 영향 (마크다운). 없으면 시간외 주요 뉴스를 정리하세요.",
+  },
+};
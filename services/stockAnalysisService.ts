@@ -0,0 +1,147 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { AnalystAction, StockAnalysis, StockHeadline, StockItem } from "../types";
+import { nyseCalendar } from "../data/nyseCalendar";
+import { extractGroundingSources } from "./groundingService";
+import { GeminiError, assertNotBlocked } from "./geminiErrors";
+import { getModelChain, withModelFallback } from "./modelService";
+import { addDays, toZonedDate } from "./marketCalendar";
+import { formatChangePercent, formatPrice } from "./quotes";
+
+const CACHE_KEY = "marketMorning_stockAnalyses";
+
+// Older entries are dropped on save; a day's move is rarely looked up again after a week
+const CACHE_DAYS = 7;
+
+// Analyses are shared by every report and view on the same exchange date
+export const getAnalysisDate = (at = new Date()) => toZonedDate(at, nyseCalendar.timeZone);
+
+const cacheKey = (ticker: string, date: string) => `${date}|${ticker.toUpperCase()}`;
+
+const loadCache = (): Record<string, StockAnalysis> => {
+  try {
+    return JSON.parse(localStorage.getItem(CACHE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+const saveToCache = (analysis: StockAnalysis) => {
+  const cutoff = addDays(getAnalysisDate(), -CACHE_DAYS);
+  const kept = Object.fromEntries(Object.entries(loadCache()).filter(([, a]) => a.date > cutoff));
+  kept[cacheKey(analysis.ticker, analysis.date)] = analysis;
+  localStorage.setItem(CACHE_KEY, JSON.stringify(kept));
+};
+
+export const getCachedAnalysis = (ticker: string, date = getAnalysisDate()): StockAnalysis | null =>
+  loadCache()[cacheKey(ticker, date)] || null;
+
+const analysisSchema = {
+  type: Type.OBJECT,
+  properties: {
+    catalyst: { type: Type.STRING, description: "오늘 주가 움직임의 핵심 원인 (마크다운, 3~5문장)" },
+    headlines: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          source: { type: Type.STRING, description: "언론사/매체명" },
+          url: { type: Type.STRING },
+          publishedAt: { type: Type.STRING, description: "YYYY-MM-DD" },
+        },
+        required: ["title", "source"],
+      },
+    },
+    nextEarnings: {
+      type: Type.OBJECT,
+      properties: {
+        date: { type: Type.STRING, description: "다음 실적 발표일 YYYY-MM-DD, 모르면 빈 문자열" },
+        timing: { type: Type.STRING, description: "장전 / 장후 / 미정" },
+        note: { type: Type.STRING, description: "컨센서스 등 짧은 메모" },
+      },
+      required: ["date"],
+    },
+    analystActions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          firm: { type: Type.STRING },
+          action: { type: Type.STRING, description: "예: 투자의견 상향, 목표가 하향" },
+          rating: { type: Type.STRING },
+          priceTarget: { type: Type.NUMBER, description: "USD 목표가" },
+          date: { type: Type.STRING, description: "YYYY-MM-DD" },
+        },
+        required: ["firm", "action"],
+      },
+    },
+  },
+  required: ["catalyst", "headlines", "nextEarnings", "analystActions"],
+};
+
+export interface AnalyzeStockOptions {
+  models?: string[];
+  signal?: AbortSignal;
+  force?: boolean; // Ignore today's cached answer and ask again
+}
+
+// "Why is it moving?" for one ticker. Served from the per-day cache unless `force` is set.
+export const analyzeStock = async (
+  apiKey: string,
+  stock: StockItem,
+  { models = getModelChain(), signal, force = false }: AnalyzeStockOptions = {}
+): Promise<StockAnalysis> => {
+  const date = getAnalysisDate();
+  const cached = !force && getCachedAnalysis(stock.ticker, date);
+  if (cached) return cached;
+
+  if (!apiKey) {
+    throw new GeminiError('invalidKey', "API Key is missing");
+  }
+
+  const ai = new GoogleGenAI({ apiKey });
+  const nyTime = new Date().toLocaleString("en-US", { timeZone: "America/New_York" });
+  const prompt = `
+    Current System Time (New York): ${nyTime}
+
+    **반드시 Google Search 도구를 사용하여** 미국 주식 ${stock.name} (${stock.ticker})의 최근 주가 움직임을 조사하세요.
+    앱이 보유한 시세: ${formatPrice(stock.quote, "en-US")} (${formatChangePercent(stock.quote, "en-US")}), 기준 시각 ${stock.quote.asOf}
+
+    1. catalyst: 이번 움직임의 핵심 원인(실적, 가이던스, 뉴스, 섹터 흐름, 거시 변수 등)을 한국어 마크다운으로 설명하세요. 원인이 불분명하면 그렇다고 쓰세요.
+    2. headlines: 관련 주요 기사 최대 5개 (제목, 매체, URL, 게시일). 검색으로 확인한 기사만 포함하세요.
+    3. nextEarnings: 다음 실적 발표 예정일과 장전/장후 여부.
+    4. analystActions: 최근 2주 내 애널리스트 투자의견/목표가 변경. 없으면 빈 배열.
+
+    위 시세 외의 주가 수치를 새로 만들지 마세요.
+  `;
+
+  const { result, model } = await withModelFallback(models, async (model) => {
+    const response = await ai.models.generateContent({
+      model,
+      contents: prompt,
+      config: {
+        tools: [{ googleSearch: {} }],
+        responseMimeType: "application/json",
+        responseSchema: analysisSchema,
+        abortSignal: signal,
+      },
+    });
+    assertNotBlocked(response);
+    return { data: JSON.parse(response.text || "{}"), citations: extractGroundingSources(response, {}).citations };
+  }, { signal });
+
+  const { data, citations } = result;
+  const analysis: StockAnalysis = {
+    ticker: stock.ticker.toUpperCase(),
+    date,
+    generatedAt: new Date().toISOString(),
+    catalyst: data.catalyst || "",
+    headlines: (data.headlines || []).filter((h: StockHeadline) => h.title).slice(0, 5),
+    ...(data.nextEarnings?.date && { nextEarnings: data.nextEarnings }),
+    analystActions: (data.analystActions || []).filter((a: AnalystAction) => a.firm && a.action),
+    citations: citations.filter(c => c.uri),
+    model,
+  };
+  saveToCache(analysis);
+  return analysis;
+};
@@ -0,0 +1,145 @@
+import { Candle, TechnicalSignals } from "../types";
+import { PriceHistorySource, getHistorySources, loadPriceHistory } from "./priceHistoryService";
+
+// Indicator values aligned with the input bars; null until the period has enough bars
+export type IndicatorSeries = (number | null)[];
+
+export const sma = (values: number[], period: number): IndicatorSeries => {
+  let sum = 0;
+  return values.map((value, i) => {
+    sum += value - (i >= period ? values[i - period] : 0);
+    return i >= period - 1 ? sum / period : null;
+  });
+};
+
+// Seeded with the SMA of the first `period` values
+export const ema = (values: number[], period: number): IndicatorSeries => {
+  const k = 2 / (period + 1);
+  let previous: number | null = null;
+  return values.map((value, i) => {
+    if (i < period - 1) return null;
+    previous = previous === null
+      ? values.slice(0, period).reduce((a, b) => a + b, 0) / period
+      : value * k + previous * (1 - k);
+    return previous;
+  });
+};
+
+export const bollinger = (values: number[], period = 20, width = 2) => {
+  const middle = sma(values, period);
+  const band = (sign: 1 | -1): IndicatorSeries => middle.map((mean, i) => {
+    if (mean === null) return null;
+    const window = values.slice(i - period + 1, i + 1);
+    const deviation = Math.sqrt(window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / period);
+    return mean + sign * width * deviation;
+  });
+  return { middle, upper: band(1), lower: band(-1) };
+};
+
+// Wilder's smoothing, as quoted by most charting tools
+export const rsi = (values: number[], period = 14): IndicatorSeries => {
+  let gain = 0;
+  let loss = 0;
+  return values.map((value, i) => {
+    if (i === 0) return null;
+    const delta = value - values[i - 1];
+    const up = Math.max(delta, 0);
+    const down = Math.max(-delta, 0);
+    if (i <= period) {
+      gain += up / period;
+      loss += down / period;
+      if (i < period) return null;
+    } else {
+      gain = (gain * (period - 1) + up) / period;
+      loss = (loss * (period - 1) + down) / period;
+    }
+    return loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+  });
+};
+
+export const macd = (values: number[], fast = 12, slow = 26, signalPeriod = 9) => {
+  const fastLine = ema(values, fast);
+  const slowLine = ema(values, slow);
+  const line = fastLine.map((f, i) => (f === null || slowLine[i] === null ? null : f - slowLine[i]!));
+  const start = line.findIndex(v => v !== null);
+  const signal: IndicatorSeries = start < 0
+    ? line.map(() => null)
+    : [...line.slice(0, start), ...ema(line.slice(start) as number[], signalPeriod)];
+  const histogram = line.map((m, i) => (m === null || signal[i] === null ? null : m - signal[i]!));
+  return { macd: line, signal, histogram };
+};
+
+// --- Signal summary ---
+
+const last = (series: IndicatorSeries) => series[series.length - 1] ?? null;
+
+// True when `a` moved from below `b` to above it within the last `bars` bars (or the reverse for -1)
+const crossed = (a: IndicatorSeries, b: IndicatorSeries, direction: 1 | -1, bars: number) => {
+  for (let i = a.length - bars; i < a.length; i++) {
+    const [pa, pb, ca, cb] = [a[i - 1], b[i - 1], a[i], b[i]];
+    if (i < 1 || pa == null || pb == null || ca == null || cb == null) continue;
+    if (direction * (pa - pb) <= 0 && direction * (ca - cb) > 0) return true;
+  }
+  return false;
+};
+
+// Computes readings and short Korean notes from daily bars (oldest first), lookback included
+export const summarizeSignals = (ticker: string, candles: Candle[], source: TechnicalSignals['source']): TechnicalSignals | null => {
+  if (candles.length < 20) return null;
+  const closes = candles.map(c => c.close);
+  const close = closes[closes.length - 1];
+  const [sma20, sma50, sma200] = [20, 50, 200].map(period => sma(closes, period));
+  const rsi14 = rsi(closes);
+  const macdLines = macd(closes);
+  const bands = bollinger(closes);
+
+  const notes: string[] = [];
+  const above = (line: IndicatorSeries, label: string) => {
+    const value = last(line);
+    if (value !== null) notes.push(`${label} ${close >= value ? "위" : "아래"}`);
+  };
+  above(sma200, "200일선");
+  above(sma50, "50일선");
+  if (crossed(sma50, sma200, 1, 5)) notes.push("골든크로스 (50/200일선)");
+  if (crossed(sma50, sma200, -1, 5)) notes.push("데드크로스 (50/200일선)");
+
+  const rsiValue = last(rsi14);
+  if (rsiValue !== null) {
+    const zone = rsiValue >= 70 ? " 과매수" : rsiValue <= 30 ? " 과매도" : "";
+    notes.push(`RSI ${Math.round(rsiValue)}${zone}`);
+  }
+
+  if (crossed(macdLines.macd, macdLines.signal, 1, 3)) notes.push("MACD 시그널 상향 돌파");
+  else if (crossed(macdLines.macd, macdLines.signal, -1, 3)) notes.push("MACD 시그널 하향 돌파");
+  else if (last(macdLines.histogram) !== null) notes.push(`MACD 시그널 ${last(macdLines.histogram)! >= 0 ? "위" : "아래"}`);
+
+  const upper = last(bands.upper);
+  const lower = last(bands.lower);
+  if (upper !== null && close > upper) notes.push("볼린저 상단 돌파");
+  if (lower !== null && close < lower) notes.push("볼린저 하단 이탈");
+
+  return {
+    ticker,
+    asOf: candles[candles.length - 1].time.slice(0, 10),
+    source,
+    close,
+    sma20: last(sma20),
+    sma50: last(sma50),
+    sma200: last(sma200),
+    rsi14: rsiValue,
+    macd: last(macdLines.macd),
+    macdSignal: last(macdLines.signal),
+    bollingerUpper: upper,
+    bollingerLower: lower,
+    notes,
+  };
+};
+
+// Signals from a year of daily bars plus warm-up; null when no source has daily history for the ticker
+export const loadTechnicalSignals = async (
+  ticker: string,
+  sources: PriceHistorySource[] = getHistorySources()
+): Promise<TechnicalSignals | null> => {
+  const history = await loadPriceHistory(ticker, '1Y', sources);
+  return history && summarizeSignals(history.ticker, [...history.lookback, ...history.candles], history.source);
+};
@@ -0,0 +1,27 @@
+import { ThemeDefinition } from "../types";
+import { THEME_PRESETS } from "../data/themePresets";
+
+const THEMES_KEY = "marketMorning_themes";
+
+// The AI block every report had before themes became configurable
+export const DEFAULT_THEMES: ThemeDefinition[] = THEME_PRESETS.filter(t => t.id === 'ai');
+
+export const loadThemes = (): ThemeDefinition[] => {
+  try {
+    const saved = localStorage.getItem(THEMES_KEY);
+    return saved ? JSON.parse(saved) : DEFAULT_THEMES;
+  } catch {
+    return DEFAULT_THEMES;
+  }
+};
+
+export const saveThemes = (themes: ThemeDefinition[]) => {
+  localStorage.setItem(THEMES_KEY, JSON.stringify(themes));
+};
+
+// Every ticker any theme needs a quote for, without duplicates
+export const getThemeTickers = (themes: ThemeDefinition[]): string[] =>
+  Array.from(new Set(themes.flatMap(t => t.tickers)));
+
+// The random suffix keeps themes added within the same millisecond from sharing overrides
+export const createThemeId = () => `theme-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,70 @@
+import { StockUniverse, StockUniverseId } from "../types";
+import { BUNDLED_UNIVERSES } from "../data/universes";
+
+const OVERRIDES_KEY = "marketMorning_universeOverrides";
+
+export const DEFAULT_UNIVERSE: StockUniverseId = 'sp500';
+
+// Lists small enough to spell out in prompts; larger ones are referred to by name
+const PROMPT_LIST_LIMIT = 150;
+
+interface UniverseOverride {
+  tickers: string[];
+  updatedAt: string;
+}
+
+const loadOverrides = (): Partial<Record<StockUniverseId, UniverseOverride>> => {
+  try {
+    return JSON.parse(localStorage.getItem(OVERRIDES_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+// Bundled list with the user's replacement applied, if any
+export const getUniverse = (id: StockUniverseId = DEFAULT_UNIVERSE): StockUniverse => {
+  const bundled = BUNDLED_UNIVERSES[id] || BUNDLED_UNIVERSES[DEFAULT_UNIVERSE];
+  const override = loadOverrides()[bundled.id];
+  return override
+    ? { ...bundled, tickers: override.tickers, asOf: override.updatedAt.slice(0, 10), custom: true }
+    : bundled;
+};
+
+export const listUniverses = (): StockUniverse[] =>
+  (Object.keys(BUNDLED_UNIVERSES) as StockUniverseId[]).map(id => getUniverse(id));
+
+// Accepts tickers separated by commas, whitespace or new lines (e.g. pasted from a CSV column)
+export const parseTickerList = (text: string): string[] =>
+  Array.from(new Set(
+    text.split(/[\s,;]+/)
+      .map(t => t.trim().toUpperCase().replace(/^"|"$/g, ""))
+      .filter(t => /^[A-Z]{1,5}([.-][A-Z]{1,2})?$/.test(t))
+      .map(t => t.replace("-", "."))
+  ));
+
+export const saveUniverseOverride = (id: StockUniverseId, tickers: string[]) => {
+  localStorage.setItem(OVERRIDES_KEY, JSON.stringify({
+    ...loadOverrides(),
+    [id]: { tickers, updatedAt: new Date().toISOString() },
+  }));
+};
+
+export const resetUniverseOverride = (id: StockUniverseId) => {
+  const overrides = loadOverrides();
+  delete overrides[id];
+  localStorage.setItem(OVERRIDES_KEY, JSON.stringify(overrides));
+};
+
+export const isInUniverse = (universe: StockUniverse, ticker: string) => universe.tickers.includes(ticker.toUpperCase());
+
+// "나스닥100 상승 Top 10"; reports saved before universes existed keep the old title
+export const getTopListTitle = (universeId: StockUniverseId | undefined, direction: 'gainers' | 'losers') =>
+  `${universeId ? getUniverse(universeId).label : "주가"} ${direction === 'gainers' ? "상승" : "하락"} Top 10`;
+
+// Prompt text describing which stocks the top-mover lists may contain
+export const describeUniverseForPrompt = (universe: StockUniverse): string => {
+  const base = universe.screen ? `${universe.name}: ${universe.screen}` : `${universe.name} 편입 종목`;
+  return universe.tickers.length <= PROMPT_LIST_LIMIT
+    ? `${base} (다음 티커 중에서만 선택: ${universe.tickers.join(", ")})`
+    : base;
+};
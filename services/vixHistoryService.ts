@@ -0,0 +1,184 @@
+import { ReportHistoryEntry, VixRange, VixReading } from "../types";
+import { nyseCalendar } from "../data/nyseCalendar";
+import { addDays, getTradingSession, toZonedDate } from "./marketCalendar";
+import { getDisplayLocale } from "./quotes";
+
+const IMPORTED_KEY = "marketMorning_vixHistory";
+
+// Two years covers the longest chart range plus the percentile window with room to spare
+const KEEP_DAYS = 730;
+
+const RANGE_DAYS: Record<VixRange, number> = { '1M': 30, '3M': 91, '1Y': 365 };
+
+export const VIX_RANGES: VixRange[] = ['1M', '3M', '1Y'];
+
+// Percentiles over fewer closes than this say more about the sample than the market
+export const MIN_PERCENTILE_SAMPLE = 20;
+
+export const isVixIndex = (name: string) => name.toUpperCase().includes('VIX') || name.includes('변동성');
+
+// --- Imported history file ---
+
+interface ImportedVixHistory {
+  importedAt: string;
+  readings: [string, number][]; // [date, close]
+}
+
+const toIsoDate = (text: string): string | null => {
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  return us ? `${us[3]}-${us[1].padStart(2, "0")}-${us[2].padStart(2, "0")}` : null;
+};
+
+// Reads Cboe's VIX_History.csv (DATE,OPEN,HIGH,LOW,CLOSE with MM/DD/YYYY dates) or any
+// file with a date column and a close column. Without a header the last column is the close.
+export const parseVixCsv = (text: string): VixReading[] => {
+  const rows = text.trim().split(/\r?\n/).map(line => line.split(",").map(cell => cell.trim().replace(/^"|"$/g, "")));
+  const header = rows[0]?.map(cell => cell.toLowerCase()) || [];
+  const hasHeader = header.some(cell => /date|close/.test(cell));
+  const dateColumn = hasHeader ? Math.max(0, header.findIndex(cell => cell.includes("date"))) : 0;
+  const closeColumn = hasHeader ? header.findIndex(cell => cell.includes("close")) : -1;
+
+  const byDate = new Map<string, VixReading>();
+  for (const row of hasHeader ? rows.slice(1) : rows) {
+    const date = toIsoDate(row[dateColumn] || "");
+    const close = Number(row[closeColumn >= 0 ? closeColumn : row.length - 1]);
+    if (date && Number.isFinite(close) && close > 0) byDate.set(date, { date, close, source: 'csv' });
+  }
+  if (byDate.size === 0) {
+    throw new Error("CSV에서 날짜와 종가를 찾지 못했습니다. DATE,CLOSE 열이 있는 파일인지 확인해주세요.");
+  }
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const loadImportedVix = (): VixReading[] => {
+  try {
+    const stored: ImportedVixHistory | null = JSON.parse(localStorage.getItem(IMPORTED_KEY) || "null");
+    return (stored?.readings || []).map(([date, close]) => ({ date, close, source: 'csv' as const }));
+  } catch {
+    return [];
+  }
+};
+
+export const getVixImportDate = (): string | null => {
+  try {
+    return JSON.parse(localStorage.getItem(IMPORTED_KEY) || "null")?.importedAt || null;
+  } catch {
+    return null;
+  }
+};
+
+// Replaces any earlier import. Returns the number of closes kept.
+export const importVixCsv = (text: string): number => {
+  const cutoff = addDays(toZonedDate(new Date(), nyseCalendar.timeZone), -KEEP_DAYS);
+  const readings = parseVixCsv(text).filter(r => r.date >= cutoff);
+  const stored: ImportedVixHistory = {
+    importedAt: new Date().toISOString(),
+    readings: readings.map(r => [r.date, r.close]),
+  };
+  localStorage.setItem(IMPORTED_KEY, JSON.stringify(stored));
+  return readings.length;
+};
+
+export const clearImportedVix = () => localStorage.removeItem(IMPORTED_KEY);
+
+// --- Readings from saved reports ---
+
+// Exchange date whose close a reading taken at `at` reflects, or null while a session is open
+const closeDateAt = (at: Date): string | null => {
+  const today = toZonedDate(at, nyseCalendar.timeZone);
+  for (let back = 0; back < 10; back++) {
+    const session = getTradingSession(addDays(today, -back));
+    if (!session) continue;
+    if (at >= session.close) return session.date;
+    if (at >= session.open) return null;
+  }
+  return null;
+};
+
+// Fixture numbers are made up and intraday levels are not closes, so neither counts as history
+export const readingsFromReports = (entries: ReportHistoryEntry[]): VixReading[] => {
+  const latest = new Map<string, { reading: VixReading; at: number }>();
+  for (const { report } of entries) {
+    if (report.dataSource === 'fixture' || report.sessionMode === 'intraday') continue;
+    const vix = report.marketIndices.find(index => isVixIndex(index.name));
+    const at = new Date(vix?.quote.asOf || "");
+    if (!vix || !Number.isFinite(vix.quote.price) || vix.quote.price <= 0 || isNaN(at.getTime())) continue;
+    const date = closeDateAt(at);
+    if (!date) continue;
+    const previous = latest.get(date);
+    if (!previous || at.getTime() > previous.at) {
+      latest.set(date, { reading: { date, close: vix.quote.price, source: 'report' }, at: at.getTime() });
+    }
+  }
+  return Array.from(latest.values()).map(entry => entry.reading);
+};
+
+// Imported closes win over report readings for the same date
+export const collectVixHistory = (entries: ReportHistoryEntry[]): VixReading[] => {
+  const byDate = new Map<string, VixReading>();
+  readingsFromReports(entries).forEach(r => byDate.set(r.date, r));
+  loadImportedVix().forEach(r => byDate.set(r.date, r));
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// --- Chart series ---
+
+export interface VixPoint {
+  date: string;
+  label: string;
+  vix: number | null; // null on a session with no reading
+}
+
+export interface VixGap {
+  from: string;
+  to: string;
+  sessions: number;
+}
+
+export interface VixSeries {
+  points: VixPoint[];
+  gaps: VixGap[];
+  missingSessions: number;
+}
+
+const dateLabel = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(getDisplayLocale(), { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+// One point per NYSE session in the range, ending at the latest completed session
+export const buildVixSeries = (readings: VixReading[], range: VixRange, now = new Date()): VixSeries => {
+  const closes = new Map(readings.map(r => [r.date, r.close]));
+  const lastClosed = closeDateAt(now) || addDays(toZonedDate(now, nyseCalendar.timeZone), -1);
+  const end = readings.length && readings[readings.length - 1].date > lastClosed ? readings[readings.length - 1].date : lastClosed;
+  const start = addDays(end, -RANGE_DAYS[range]);
+
+  const points: VixPoint[] = [];
+  const gaps: VixGap[] = [];
+  for (let day = addDays(start, 1); day <= end; day = addDays(day, 1)) {
+    if (!getTradingSession(day) && !closes.has(day)) continue;
+    const vix = closes.get(day) ?? null;
+    points.push({ date: day, label: dateLabel(day), vix });
+    if (vix !== null) continue;
+    const open = gaps[gaps.length - 1];
+    if (open && open.to === points[points.length - 2]?.date) {
+      open.to = day;
+      open.sessions++;
+    } else {
+      gaps.push({ from: day, to: day, sessions: 1 });
+    }
+  }
+  return { points, gaps, missingSessions: gaps.reduce((sum, gap) => sum + gap.sessions, 0) };
+};
+
+// --- Percentiles ---
+
+// Share of closes in the trailing year at or below `value` (ties count half), 0–100
+export const getVixPercentile = (value: number, readings: VixReading[], now = new Date()): { percentile: number; sample: number } | null => {
+  const cutoff = addDays(toZonedDate(now, nyseCalendar.timeZone), -RANGE_DAYS['1Y']);
+  const closes = readings.filter(r => r.date > cutoff).map(r => r.close);
+  if (closes.length < MIN_PERCENTILE_SAMPLE) return null;
+  const below = closes.filter(c => c < value).length;
+  const equal = closes.filter(c => c === value).length;
+  return { percentile: ((below + equal / 2) / closes.length) * 100, sample: closes.length };
+};
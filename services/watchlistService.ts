@@ -0,0 +1,50 @@
+import { StockItem, WatchlistEntry, WatchlistItem } from "../types";
+
+const WATCHLIST_KEY = "marketMorning_watchlist";
+
+export type WatchlistOrder = 'added' | 'move';
+
+export const loadWatchlist = (): WatchlistItem[] => {
+  try {
+    return JSON.parse(localStorage.getItem(WATCHLIST_KEY) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+export const saveWatchlist = (items: WatchlistItem[]) => {
+  localStorage.setItem(WATCHLIST_KEY, JSON.stringify(items));
+};
+
+export const isWatched = (items: WatchlistItem[], ticker: string) =>
+  items.some(item => item.ticker === ticker.toUpperCase());
+
+// Tickers already on the list keep their original position and date
+export const addToWatchlist = (items: WatchlistItem[], stocks: { ticker: string; name?: string }[]): WatchlistItem[] => {
+  const addedAt = new Date().toISOString();
+  const added = stocks
+    .map(({ ticker, name }) => ({ ticker: ticker.toUpperCase(), ...(name && { name }), addedAt }))
+    .filter((item, i, all) => !isWatched(items, item.ticker) && all.findIndex(a => a.ticker === item.ticker) === i);
+  return [...items, ...added];
+};
+
+export const removeFromWatchlist = (items: WatchlistItem[], ticker: string): WatchlistItem[] =>
+  items.filter(item => item.ticker !== ticker.toUpperCase());
+
+// Report rows in watchlist order; comments are filled in by the narrative
+export const buildWatchlistEntries = (items: WatchlistItem[], quotes: StockItem[]): WatchlistEntry[] =>
+  items.map(item => {
+    const stock = quotes.find(q => q.ticker === item.ticker);
+    return {
+      ticker: item.ticker,
+      name: stock?.name || item.name || item.ticker,
+      ...(stock && { quote: stock.quote }),
+      comment: "",
+    };
+  });
+
+const moveSize = (entry: WatchlistEntry) => (entry.quote ? Math.abs(entry.quote.changePercent) : -1);
+
+// 'move' puts the largest absolute moves first; rows without a quote go last
+export const sortWatchlist = (entries: WatchlistEntry[], order: WatchlistOrder): WatchlistEntry[] =>
+  order === 'added' ? entries : [...entries].sort((a, b) => moveSize(b) - moveSize(a));
@@ -1,23 +1,148 @@
+// Numeric market reading. Display strings are produced at render time (services/quotes.ts).
+export interface Quote {
+  price: number; // Last price, index level or FX rate
+  change: number; // Absolute change vs the previous close, in the unit of `price`
+  changePercent: number; // e.g. 2.5 for +2.5%
+  currency?: string; // ISO 4217 code of `price` ("USD", "KRW"); omitted for index points
+  asOf: string; // ISO timestamp of the reading
+}
+
 export interface StockItem {
   ticker: string;
   name: string;
-  price: string; // Added current price field
-  change: string;
+  quote: Quote;
 }
 
 export interface MarketIndex {
   name: string;
-  value: string;
-  change: string;
-  isPositive: boolean;
+  quote: Quote;
+}
+
+// Instruments the dashboard can follow; the user picks and orders them in the settings
+export type InstrumentId =
+  'SPX' | 'NASDAQ' | 'DOW' | 'NQ_FUTURES' | 'KOSPI200_NIGHT' | 'US10Y' | 'US2Y' |
+  'USDKRW' | 'DXY' | 'WTI' | 'GOLD' | 'BTC' | 'VIX';
+
+export type InstrumentCategory = 'equity' | 'futures' | 'rates' | 'fx' | 'commodity' | 'crypto' | 'volatility';
+
+export interface InstrumentDefinition {
+  id: InstrumentId;
+  name: string; // MarketIndex.name in reports; also the exact name asked of the data provider
+  category: InstrumentCategory;
+  searchHint: string; // What to look up, for the search-grounded provider
+  aliases?: string[]; // Other names seen in older or model-written reports
+  currency?: string; // Quote currency for prices (WTI, gold, BTC); levels have none
+  yield?: boolean; // Value is a rate in %, and its change is shown in basis points
+  pair?: boolean; // Currency pair, fetched as an FX rate rather than an index level
+  usedBy?: string; // Features that read it, shown when it is removed
+}
+
+// A metric computed from two instruments rather than fetched, e.g. the 2s10s spread
+export interface DerivedMetric {
+  id: string;
+  name: string;
+  category: InstrumentCategory;
+  valueBp: number;
+  changeBp: number;
+}
+
+// User-defined group of stocks followed as its own block in every report (e.g. AI, 반도체)
+export interface ThemeDefinition {
+  id: string;
+  name: string;
+  tickers: string[]; // Seed tickers quoted for the theme
+  description?: string;
 }
 
-export interface AiTrend {
+export interface ThemeTrend {
+  themeId: string;
+  name: string;
+  description?: string;
   rising: StockItem[];
   falling: StockItem[];
   summary: string;
 }
 
+// Ticker the user follows; every report quotes and comments on it in the 내 관심종목 table
+export interface WatchlistItem {
+  ticker: string;
+  name?: string; // Known when added from a report row; filled in by the next quote otherwise
+  addedAt: string;
+}
+
+// One row of a report's 내 관심종목 table
+export interface WatchlistEntry {
+  ticker: string;
+  name: string;
+  quote?: Quote; // Missing when the data provider had no price for the ticker
+  comment: string; // One-line AI comment
+}
+
+// One line of the user's portfolio; prices are in USD, FX in KRW per USD
+export interface PortfolioHolding {
+  id: string;
+  ticker: string;
+  shares: number;
+  avgCost: number; // Average cost per share (USD)
+  purchaseFx?: number; // USD/KRW when bought; without it the FX effect on total P&L is taken as zero
+}
+
+// P&L in both currencies; the KRW figure is split into what the stock did and what the won did
+export interface PnlBreakdown {
+  usd: number;
+  krw: number;
+  stockEffectKrw: number; // Price change valued at the starting FX rate
+  fxEffectKrw: number; // FX change applied to the current USD value
+}
+
+export interface PortfolioPosition {
+  ticker: string;
+  name: string;
+  shares: number;
+  avgCost: number;
+  purchaseFx?: number;
+  quote: Quote;
+  valueUsd: number;
+  valueKrw: number;
+  costUsd: number;
+  costKrw: number; // At purchaseFx, or the current rate when it is missing
+  daily: PnlBreakdown;
+  total: PnlBreakdown;
+}
+
+// Portfolio valued at one set of quotes and one USD/KRW reading
+export interface PortfolioSummary {
+  asOf: string;
+  fx: Quote; // USD/KRW used for the conversion
+  positions: PortfolioPosition[];
+  unquoted: string[]; // Holdings without a quote; left out of every total
+  noPurchaseFx: string[]; // Holdings valued without a purchase FX rate
+  valueUsd: number;
+  valueKrw: number;
+  costUsd: number;
+  costKrw: number;
+  daily: PnlBreakdown;
+  total: PnlBreakdown;
+}
+
+// US releases the calendar follows; FOMC entries also come from the bundled schedule
+export type MacroIndicator = 'CPI' | 'CORE_CPI' | 'PCE' | 'CORE_PCE' | 'NFP' | 'FOMC_DECISION' | 'FOMC_MINUTES';
+
+// One macro release or earnings report. Values are in `unit`: "%" readings, "K" jobs, "USD" EPS.
+export interface CalendarEvent {
+  id: string; // Stable across reports, e.g. "CPI:2026-10-15", "EARN:NVDA:2026-11-19"
+  kind: 'macro' | 'earnings';
+  indicator?: MacroIndicator; // Macro only
+  ticker?: string; // Earnings only
+  title: string;
+  date: string; // YYYY-MM-DD, New York
+  time?: string; // "08:30 ET", "장전", "장후"
+  unit?: string;
+  consensus?: number;
+  prior?: number;
+  actual?: number; // Set once released
+}
+
 export interface Report {
   id: string;
   date: string;
@@ -26,13 +151,323 @@ export interface Report {
   marketIndices: MarketIndex[];
   gainers: StockItem[];
   losers: StockItem[];
-  aiTrend: AiTrend;
+  themes: ThemeTrend[]; // One block per theme, in the user's order
   economicContext: string;
   conclusion: string;
+  dataSource?: MarketDataSourceId; // Provider that supplied the numbers
+  dataAsOf?: string; // ISO timestamp of the market data
+  issues?: ReportIssue[]; // Problems found by the post-generation validator
+  sources?: ReportSources; // Google Search grounding behind the report
+  model?: string; // Gemini model that wrote the narrative
+  weekendRecap?: boolean; // Weekly recap written on a non-trading day
+  sessionMode?: SessionMode; // Market session the report was written for
+  sessionHighlights?: string; // Mode-specific section (futures/overnight, live drivers, after-hours earnings)
+  universe?: StockUniverseId; // Universe the gainers/losers were picked from
+  stockAnalyses?: Record<string, StockAnalysis>; // On-demand "why is it moving" panels, keyed by ticker
+  chat?: ChatMessage[]; // Follow-up Q&A about this report, oldest first
+  pinnedSections?: PinnedSection[]; // Chat answers the user added to the report
+  watchlist?: WatchlistEntry[]; // The user's watchlist as quoted for this report
+  portfolio?: PortfolioSummary; // The user's holdings valued at this report's quotes
+  portfolioReview?: string; // "오늘의 내 포트폴리오" narrative
+  alertQuotes?: StockItem[]; // Quotes fetched for alert rule tickers, so rules on other stocks can be checked
+  calendar?: CalendarEvent[]; // Releases and earnings from the past week and the week ahead
+  instruments?: InstrumentId[]; // Dashboard instruments requested for this report (older reports: the original five)
+}
+
+export type StockUniverseId = 'sp500' | 'nasdaq100' | 'dow30' | 'russell2000';
+
+export interface StockUniverse {
+  id: StockUniverseId;
+  name: string; // Official index name
+  label: string; // Short Korean label used in titles, e.g. "나스닥100"
+  description: string;
+  asOf: string; // When the constituent list was last updated
+  screen?: string; // Set when the list is a screen rather than the full index
+  tickers: string[];
+  custom?: boolean; // List replaced by the user
+}
+
+// Which part of the US trading day a report covers
+export type SessionMode = 'preMarket' | 'intraday' | 'postClose';
+
+export type ReportSection = 'marketData' | 'marketOverview' | 'sessionHighlights' | 'themes' | 'watchlist' | 'portfolio' | 'calendar' | 'economicContext' | 'conclusion';
+
+export type SectionStatus = 'pending' | 'ready' | 'error';
+
+// Partial report emitted while generation is still streaming
+export interface ReportProgress {
+  report: Partial<Report>;
+  sections: Record<ReportSection, SectionStatus>;
+}
+
+export interface SourceCitation {
+  uri: string;
+  title: string;
+}
+
+export interface ReportSources {
+  queries: string[]; // Search queries the model issued
+  citations: SourceCitation[]; // Footnote [n] refers to citations[n - 1]
+  sections: Partial<Record<ReportSection, number[]>>; // Indices into citations per section
+}
+
+export type ReportIssueSeverity = 'error' | 'warning';
+
+export interface ReportIssue {
+  severity: ReportIssueSeverity;
+  path: string; // e.g. "gainers[3].quote.changePercent", "marketIndices"
+  message: string;
+  fixed?: boolean; // true when the sanitizer corrected it automatically
+}
+
+export type MarketDataSourceId = 'fixture' | 'search';
+
+// Raw numeric readings as delivered by a market data provider
+export interface SnapshotQuote {
+  ticker: string;
+  name: string;
+  price: number; // USD
+  change?: number; // Absolute change; derived from price and changePercent when missing
+  changePercent: number;
+}
+
+export interface SnapshotIndex {
+  name: string;
+  value: number;
+  change?: number;
+  changePercent: number;
+}
+
+export interface MarketSnapshot {
+  asOf: string;
+  indices: SnapshotIndex[]; // Dashboard instruments other than currency pairs
+  fx: SnapshotIndex[]; // e.g. USD/KRW
+  quotes: SnapshotQuote[];
+  movers?: SnapshotQuote[]; // Universe stocks the top movers are ranked from, apart from requested quotes; `quotes` when omitted
+  sources?: ReportSources; // Grounding for search-backed snapshots
 }
 
+// A report as stored in the local IndexedDB history
+export interface ReportHistoryEntry {
+  id: string; // Same as report.id
+  date: string; // Same as report.date
+  savedAt: number; // Epoch ms of the last save
+  pinned: boolean; // Pinned entries are exempt from the retention limit
+  report: Report;
+}
+
+export type StockListKey = 'gainers' | 'losers' | 'themeRising' | 'themeFalling';
+
+export interface IndexMove {
+  name: string;
+  from?: MarketIndex; // Missing when the index only exists in one report
+  to?: MarketIndex;
+  deltaPercent: number | null; // Level change between the two reports, in %
+}
+
+export interface StockListDiff {
+  list: StockListKey;
+  themeId?: string; // Theme the list belongs to, for theme lists
+  label: string; // e.g. "상승 Top 10", "AI 상승세"
+  entered: StockItem[]; // In the newer report only
+  dropped: StockItem[]; // In the older report only
+  stayed: StockItem[]; // In both (values from the newer report)
+}
+
+export interface ListStreak {
+  ticker: string;
+  name: string;
+  list: StockListKey;
+  themeId?: string;
+  label: string;
+  days: number; // Consecutive report days the ticker appeared on the list, ending at the newer report
+}
+
+export interface ReportComparison {
+  base: Report; // Older report
+  target: Report; // Newer report
+  indexMoves: IndexMove[];
+  listDiffs: StockListDiff[];
+  streaks: ListStreak[];
+}
+
+export interface ModelSettings {
+  primaryModel: string;
+  fallbackModels: string[]; // Tried in order on quota/overload errors
+}
+
+// 'clock' fires at a wall-clock time; the NYSE triggers fire relative to that day's open/close
+export type ScheduleTrigger = 'clock' | 'nyseOpen' | 'nyseClose';
+
+// What a slot on a day without a fresh NYSE session does
+export type NonTradingDayPolicy = 'skip' | 'weekendRecap';
+
 export interface ScheduleConfig {
   isEnabled: boolean;
-  time: string; // "09:00"
-  days: string[]; // ["Mon", "Tue", ...]
-}
\ No newline at end of file
+  time: string; // "09:00", used by 'clock' triggers
+  days: string[]; // ["Mon", "Tue", ...]; NYSE session days for market triggers
+  trigger?: ScheduleTrigger; // Defaults to 'clock'
+  timeZone?: string; // IANA zone for 'clock' triggers; defaults to the browser's zone
+  offsetMinutes?: number; // Market triggers only; negative = before the open/close
+  nonTradingDays?: NonTradingDayPolicy; // Defaults to 'skip'
+  sessionMode?: SessionMode; // Defaults to 'postClose'
+}
+
+export interface TradingCalendar {
+  exchange: string;
+  timeZone: string;
+  regularOpen: string; // "09:30" exchange time
+  regularClose: string;
+  earlyClose: string;
+  years: number[]; // Years the holiday lists cover
+  holidays: Record<string, string>; // "YYYY-MM-DD" -> holiday name
+  earlyCloses: Record<string, string>;
+}
+
+export interface TradingSession {
+  date: string; // "YYYY-MM-DD" exchange date
+  open: Date;
+  close: Date;
+  earlyClose?: string; // Reason for a shortened session
+}
+
+export interface ScheduleSlot {
+  at: Date;
+  tradingDay: boolean; // False when no fresh NYSE session backs this slot
+  note?: string; // e.g. holiday name
+}
+export type ScheduleRunStatus = 'running' | 'success' | 'error' | 'skipped';
+
+// What an alert rule watches; thresholds are prices in USD, percent moves or index/FX levels
+export type AlertCondition = 'priceAbove' | 'priceBelow' | 'moveBeyond' | 'vixAbove' | 'usdKrwAbove';
+
+export interface AlertRule {
+  id: string;
+  condition: AlertCondition;
+  ticker?: string; // Stock conditions only
+  threshold: number; // moveBeyond: absolute percent, e.g. 5 for ±5%
+  enabled: boolean;
+  createdAt: string;
+  triggered?: boolean; // Condition held at the last evaluation; fires again only after it clears
+  noReading?: boolean; // The last report had no quote for the rule, so it could not be checked
+}
+
+// One firing of a rule, newest first in the alert history
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  message: string;
+  value: number; // Reading that crossed the threshold
+  firedAt: string;
+  dataAsOf?: string; // Market data time of the report that fired it
+  reportId?: string;
+}
+
+export interface ScheduleRun {
+  id: string;
+  scheduledFor: string; // ISO time of the slot this run belongs to
+  startedAt: string;
+  finishedAt?: string;
+  catchUp: boolean; // Slot was missed while the app was closed and run late
+  status: ScheduleRunStatus;
+  reportId?: string;
+  headline?: string;
+  message?: string; // Error or skip reason
+  weekendRecap?: boolean; // Ran as a recap because the slot fell on a non-trading day
+}
+
+// Daily VIX close on an NYSE session date
+export interface VixReading {
+  date: string; // "YYYY-MM-DD" exchange date
+  close: number;
+  source: 'csv' | 'report'; // Imported history file, or the VIX quote of a saved report
+}
+
+export type VixRange = '1M' | '3M' | '1Y';
+
+// One OHLCV bar; `time` is a "YYYY-MM-DD" session date for daily bars or an ISO timestamp for intraday bars
+export interface Candle {
+  time: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export type PriceHistoryRange = '1D' | '5D' | '1M' | '6M' | '1Y' | '5Y';
+
+export type PriceHistorySourceId = 'csv' | 'fixture';
+
+export interface PriceHistory {
+  ticker: string;
+  range: PriceHistoryRange;
+  interval: 'intraday' | 'daily' | 'weekly';
+  candles: Candle[]; // Oldest first
+  lookback: Candle[]; // Bars just before `candles` at the same interval, for indicator warm-up
+  source: PriceHistorySourceId;
+}
+
+// Daily technical readings for a ticker, computed client-side from its price history
+export interface TechnicalSignals {
+  ticker: string;
+  asOf: string; // Session date of the last bar
+  source: PriceHistorySourceId;
+  close: number;
+  sma20: number | null;
+  sma50: number | null;
+  sma200: number | null;
+  rsi14: number | null;
+  macd: number | null;
+  macdSignal: number | null;
+  bollingerUpper: number | null;
+  bollingerLower: number | null;
+  notes: string[]; // e.g. ["200일선 위", "RSI 72 과매수"]
+}
+
+export interface StockHeadline {
+  title: string;
+  source: string; // Publisher, e.g. "Reuters"
+  url?: string;
+  publishedAt?: string; // "YYYY-MM-DD" as reported by the model
+}
+
+export interface AnalystAction {
+  firm: string;
+  action: string; // e.g. "목표가 상향", "Buy로 상향"
+  rating?: string;
+  priceTarget?: number; // USD
+  date?: string;
+}
+
+// Focused per-ticker analysis of a day's move, written by a grounded Gemini call
+export interface StockAnalysis {
+  ticker: string;
+  date: string; // NYSE session date the analysis belongs to; the cache key with the ticker
+  generatedAt: string; // ISO timestamp
+  catalyst: string; // Markdown explanation of what drove the move
+  headlines: StockHeadline[];
+  nextEarnings?: { date: string; timing?: string; note?: string }; // timing: "장전", "장후"
+  analystActions: AnalystAction[];
+  citations: SourceCitation[]; // Google Search grounding behind the answer
+  model?: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'model';
+  text: string; // Markdown for model answers
+  createdAt: string; // ISO timestamp
+  grounded?: boolean; // Answer was allowed to use Google Search
+  citations?: SourceCitation[];
+  model?: string;
+}
+
+// A chat answer shown as an extra report section
+export interface PinnedSection {
+  id: string;
+  title: string;
+  content: string; // Markdown
+  messageId: string; // Chat answer it came from
+  pinnedAt: string;
+}